@@ -0,0 +1,96 @@
+import { wilsonInterval } from "./stats";
+import type {
+	AdaptiveIterations,
+	AdaptiveStatus,
+	ExecutionConfig,
+	IterationResult,
+} from "./types";
+
+const DEFAULT_MIN_ITERATIONS = 3;
+const DEFAULT_CI_WIDTH = 0.3;
+
+const overlaps = (a: [number, number], b: [number, number]) =>
+	a[0] <= b[1] && b[0] <= a[1];
+
+/**
+ * Where each prompt stands after `results`: its runs, its pass rate's 95%
+ * Wilson interval, and — once it needs no more iterations — why. A prompt
+ * stops at `maxIterations`, when its interval is at most `ciWidth` wide, or
+ * (with `stopWhenSeparated`) when its interval no longer overlaps the first
+ * prompt's; the first prompt stops once every other prompt is separated from
+ * it. No prompt stops before `minIterations`.
+ */
+export function adaptiveStatus(
+	results: IterationResult[],
+	promptIds: string[],
+	adaptive: AdaptiveIterations,
+): Record<string, AdaptiveStatus> {
+	const min = Math.min(
+		adaptive.minIterations ?? DEFAULT_MIN_ITERATIONS,
+		adaptive.maxIterations,
+	);
+	const ciWidth = adaptive.ciWidth ?? DEFAULT_CI_WIDTH;
+	const status: Record<string, AdaptiveStatus> = {};
+	for (const promptId of promptIds) {
+		const runs = results.filter((r) => r.promptId === promptId);
+		const passes = runs.filter((r) => r.success).length;
+		status[promptId] = {
+			runs: runs.length,
+			interval: wilsonInterval(passes, runs.length),
+		};
+	}
+
+	const [baseline, ...candidates] = promptIds;
+	const separated = (promptId: string) =>
+		adaptive.stopWhenSeparated !== false &&
+		status[promptId].runs >= min &&
+		status[baseline].runs >= min &&
+		!overlaps(status[promptId].interval, status[baseline].interval);
+
+	for (const promptId of promptIds) {
+		const s = status[promptId];
+		const width = s.interval[1] - s.interval[0];
+		if (s.runs < min) continue;
+		if (s.runs >= adaptive.maxIterations) {
+			s.stopped = `reached maxIterations (${adaptive.maxIterations})`;
+		} else if (width <= ciWidth) {
+			s.stopped = `pass-rate CI width ${width.toFixed(2)} <= ${ciWidth}`;
+		} else if (promptId !== baseline && separated(promptId)) {
+			s.stopped = `separated from ${baseline}`;
+		} else if (
+			promptId === baseline &&
+			candidates.length > 0 &&
+			candidates.every(separated)
+		) {
+			s.stopped = "separated from every other prompt";
+		}
+	}
+	return status;
+}
+
+/**
+ * Iterations to schedule per prompt for the next round: enough to reach
+ * `minIterations`, else one each — or, under `parallel-limit`, an equal
+ * share of the concurrency — never past `maxIterations`. Stopped prompts get
+ * none; an empty result means the eval is done.
+ */
+export function nextAdaptiveRound(
+	status: Record<string, AdaptiveStatus>,
+	execution: ExecutionConfig,
+	adaptive: AdaptiveIterations,
+): Record<string, number> {
+	const active = Object.entries(status).filter(([, s]) => !s.stopped);
+	const min = adaptive.minIterations ?? DEFAULT_MIN_ITERATIONS;
+	const share =
+		execution.mode === "parallel-limit" && execution.concurrency
+			? Math.max(1, Math.floor(execution.concurrency / active.length))
+			: 1;
+	const round: Record<string, number> = {};
+	for (const [promptId, s] of active) {
+		round[promptId] = Math.min(
+			Math.max(min - s.runs, share),
+			adaptive.maxIterations - s.runs,
+		);
+	}
+	return round;
+}
@@ -0,0 +1,166 @@
+import { type Options, query } from "@anthropic-ai/claude-agent-sdk";
+import type {
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
+	TokenUsage,
+} from "../types";
+
+const AUTOMATION_RULES = `AUTOMATION RULES:
+- Never ask questions or wait for user confirmation
+- Always proceed with changes automatically
+- Make reasonable decisions independently
+- Complete all tasks without requesting approval or clarification`;
+
+/** Replaces the automation rules when a simulated user is there to answer. */
+const CLARIFICATION_RULES = `CLARIFICATION RULES:
+- If the task is ambiguous or missing information you cannot infer from the code, ask the user concise clarifying questions in your reply text and end your turn; the user will reply
+- Do not ask about anything you can reasonably decide yourself
+- Once you have what you need, complete the task without requesting approval`;
+
+/** Base system prompt with automation and isolation rules. */
+function baseSystemPrompt(cwd: string, allowQuestions: boolean): string {
+	return `You are running in automated evaluation mode in an isolated sandbox environment.
+
+CRITICAL ISOLATION RULES:
+- Your current working directory (cwd) is: ${cwd}
+- ALL file operations MUST use relative paths ONLY
+- NEVER use absolute paths for project files
+- NEVER navigate outside your current working directory
+- If tools provide absolute paths to external directories (like plugin base directories), those are ONLY for reading tool metadata - NOT for writing project files
+- Project files (CLAUDE.md, AGENTS.md, .cursor files, etc.) MUST be written using relative paths from cwd
+
+${allowQuestions ? CLARIFICATION_RULES : AUTOMATION_RULES}
+
+REMEMBER: You are in a temporary, isolated test directory. All your work stays here.`;
+}
+
+/**
+ * Token usage (and the reported model and USD cost) from an SDK-shaped
+ * `result` message. Shared by every adapter whose messages follow the Claude
+ * Agent SDK shape.
+ */
+export function sdkTokenUsage(message: AgentMessage): TokenUsage | undefined {
+	if (message.type !== "result") return undefined;
+	const usage = message.usage as Record<string, number | undefined> | undefined;
+	if (!usage) return undefined;
+	const cost = message.total_cost_usd;
+	// modelUsage is keyed by model, helper models (titles, summaries) included;
+	// the one that wrote the most output is the one that did the work
+	const modelUsage = (message.modelUsage ?? {}) as Record<
+		string,
+		{ outputTokens?: number } | undefined
+	>;
+	const [model] = Object.keys(modelUsage).sort(
+		(a, b) =>
+			(modelUsage[b]?.outputTokens ?? 0) - (modelUsage[a]?.outputTokens ?? 0),
+	);
+	return {
+		inputTokens: usage.input_tokens || 0,
+		outputTokens: usage.output_tokens || 0,
+		cacheCreationInputTokens: usage.cache_creation_input_tokens,
+		cacheReadInputTokens: usage.cache_read_input_tokens,
+		...(model && { model }),
+		...(typeof cost === "number" && { costUsd: cost }),
+	};
+}
+
+/**
+ * Usage of the API call behind an SDK-shaped `assistant` message, keyed by
+ * the API message id: the SDK streams one message per content block, each
+ * repeating its call's usage.
+ */
+export function sdkStepUsage(
+	message: AgentMessage,
+): { id: string; usage: TokenUsage } | undefined {
+	if (message.type !== "assistant") return undefined;
+	const apiMessage = message.message as
+		| {
+				id?: string;
+				model?: string;
+				usage?: Record<string, number | undefined>;
+		  }
+		| undefined;
+	if (!apiMessage?.id || !apiMessage.usage) return undefined;
+	const { usage } = apiMessage;
+	return {
+		id: apiMessage.id,
+		usage: {
+			inputTokens: usage.input_tokens || 0,
+			outputTokens: usage.output_tokens || 0,
+			cacheCreationInputTokens: usage.cache_creation_input_tokens,
+			cacheReadInputTokens: usage.cache_read_input_tokens,
+			...(apiMessage.model && { model: apiMessage.model }),
+		},
+	};
+}
+
+/** The session earlier turns ran in, so a follow-up can resume it. */
+function lastSessionId(history: AgentMessage[]): string | undefined {
+	for (let i = history.length - 1; i >= 0; i--) {
+		const sessionId = history[i].session_id;
+		if (typeof sessionId === "string") return sessionId;
+	}
+	return undefined;
+}
+
+/**
+ * Runs Claude Code through the Agent SDK's `query()`. `options` is the eval's
+ * `claudeCodeOptions` passthrough; a custom `systemPrompt` is appended to the
+ * isolation rules rather than replacing them. Follow-up turns resume the
+ * session the opening prompt started.
+ */
+export class ClaudeCodeAgent implements AgentAdapter {
+	readonly id = "claude-code";
+
+	constructor(private readonly options: Options = {}) {}
+
+	async *run({
+		prompt,
+		cwd,
+		signal,
+		history,
+		allowQuestions,
+	}: AgentRunContext) {
+		const base = baseSystemPrompt(cwd, allowQuestions === true);
+		const systemPrompt = this.options.systemPrompt
+			? `${base}\n\n${this.options.systemPrompt}`
+			: base;
+
+		// The SDK takes a controller, not a signal; bridge the runner's deadline.
+		const abortController = new AbortController();
+		if (signal.aborted) abortController.abort();
+		else
+			signal.addEventListener("abort", () => abortController.abort(), {
+				once: true,
+			});
+
+		const resume = lastSessionId(history);
+
+		yield* query({
+			prompt,
+			options: {
+				cwd,
+				settingSources: ["project"],
+				// SDK requires allowDangerouslySkipPermissions alongside bypass mode.
+				permissionMode: "bypassPermissions",
+				allowDangerouslySkipPermissions: true,
+				...this.options,
+				...(resume && { resume }),
+				// systemPrompt must come after spread to ensure concatenation works
+				systemPrompt,
+				// abortController must come after spread so our timeout is never
+				// clobbered by a user-supplied controller.
+				abortController,
+			},
+		}) as AsyncIterable<AgentMessage>;
+	}
+
+	tokenUsage(message: AgentMessage): TokenUsage | undefined {
+		return sdkTokenUsage(message);
+	}
+
+	stepUsage(message: AgentMessage) {
+		return sdkStepUsage(message);
+	}
+}
@@ -0,0 +1,131 @@
+import path from "node:path";
+import { execa } from "execa";
+import type {
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
+	TokenUsage,
+} from "../types";
+import { sdkStepUsage, sdkTokenUsage } from "./claude-code";
+
+/** Turns a CLI agent's stdout lines into normalized messages. */
+export type CliOutputParser = (
+	lines: AsyncIterable<string>,
+) => AsyncIterable<AgentMessage>;
+
+/**
+ * Each stdout line is already an SDK-shaped JSON message (e.g. `claude -p
+ * --output-format stream-json`). Lines that aren't a JSON object with a string
+ * `type` are treated as log noise and skipped.
+ */
+async function* streamJson(
+	lines: AsyncIterable<string>,
+): AsyncIterable<AgentMessage> {
+	for await (const line of lines) {
+		const trimmed = line.trim();
+		if (!trimmed.startsWith("{")) continue;
+		try {
+			const parsed = JSON.parse(trimmed);
+			if (typeof parsed?.type === "string") yield parsed as AgentMessage;
+		} catch {
+			/* not JSON — skip */
+		}
+	}
+}
+
+/** The whole stdout is the agent's final answer: one assistant text message + a result. */
+async function* text(
+	lines: AsyncIterable<string>,
+): AsyncIterable<AgentMessage> {
+	const collected: string[] = [];
+	for await (const line of lines) collected.push(line);
+	const output = collected.join("\n").trim();
+	yield {
+		type: "assistant",
+		message: { content: [{ type: "text", text: output }] },
+	};
+	yield { type: "result", subtype: "success", result: output };
+}
+
+/** Built-in parsers, selectable by name in a `cli` agent spec. */
+export const OUTPUT_PARSERS: Record<string, CliOutputParser> = {
+	"stream-json": streamJson,
+	text,
+};
+
+export interface CliAgentOptions {
+	id?: string; // Default: basename of `command`
+	command: string; // Executable to spawn, e.g. 'claude'
+	args: string[]; // Argument template; `{{prompt}}` is replaced with the prompt text
+	env?: Record<string, string>; // Extra env vars, layered over the iteration's
+	parser?: string | CliOutputParser; // Default: 'stream-json'
+}
+
+/**
+ * Runs any coding-agent CLI as a subprocess in the iteration's working dir and
+ * maps its stdout onto the SDK message shape, so `agentOutput` scorers
+ * (`SkillPickedUpScorer`, LLM classifiers) read it unchanged. A non-zero exit
+ * fails the iteration with the tail of stderr. Each follow-up turn is a fresh
+ * invocation in the same working dir; CLI sessions are not resumed.
+ */
+export class CliAgent implements AgentAdapter {
+	readonly id: string;
+	private readonly parse: CliOutputParser;
+
+	constructor(private readonly options: CliAgentOptions) {
+		this.id = options.id ?? path.basename(options.command);
+		const parser = options.parser ?? "stream-json";
+		if (typeof parser === "string") {
+			const builtin = OUTPUT_PARSERS[parser];
+			if (!builtin) {
+				throw new Error(
+					`Unknown CLI output parser '${parser}' (valid: ${Object.keys(OUTPUT_PARSERS).join(", ")})`,
+				);
+			}
+			this.parse = builtin;
+		} else {
+			this.parse = parser;
+		}
+	}
+
+	async *run({ prompt, cwd, signal, environmentVariables }: AgentRunContext) {
+		const { command, args, env } = this.options;
+		const subprocess = execa(
+			command,
+			// A replacer function, so `$&`, `$$`… in the prompt stay literal
+			args.map((arg) => arg.replaceAll("{{prompt}}", () => prompt)),
+			{
+				cwd,
+				env: { ...environmentVariables, ...env },
+				stdin: "ignore",
+				cancelSignal: signal,
+				reject: false,
+			},
+		);
+
+		yield* this.parse(subprocess.iterable());
+
+		const result = await subprocess;
+		if (result.isCanceled) throw new Error("Aborted");
+		if (result.exitCode === undefined) {
+			// Never ran to an exit code: not spawned (e.g. ENOENT) or killed
+			throw new Error(
+				`${command} failed: ${result.originalMessage || result.shortMessage}`,
+			);
+		}
+		if (result.exitCode !== 0) {
+			const stderr = String(result.stderr ?? "").trim();
+			throw new Error(
+				`${command} exited with code ${result.exitCode}${stderr ? `: ${stderr.slice(-500)}` : ""}`,
+			);
+		}
+	}
+
+	tokenUsage(message: AgentMessage): TokenUsage | undefined {
+		return sdkTokenUsage(message);
+	}
+
+	stepUsage(message: AgentMessage) {
+		return sdkStepUsage(message);
+	}
+}
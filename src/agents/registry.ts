@@ -0,0 +1,38 @@
+import type { EvalConfig } from "../runner";
+import type { AgentSpec } from "../scorers/schema";
+import type { AgentAdapter } from "../types";
+import { ClaudeCodeAgent } from "./claude-code";
+import { CliAgent } from "./cli";
+
+/**
+ * Agent factories selectable by name via `EvalConfig.agent`. Add an entry to
+ * make a custom adapter available to eval files by name.
+ */
+export const AGENTS: Record<string, (config: EvalConfig) => AgentAdapter> = {
+	"claude-code": (config) => new ClaudeCodeAgent(config.claudeCodeOptions),
+};
+
+/** The adapter an eval runs: an inline adapter, a registered name, or Claude Code by default. */
+export function resolveAgent(config: EvalConfig): AgentAdapter {
+	const agent = config.agent ?? "claude-code";
+	if (typeof agent !== "string") return agent;
+	const factory = AGENTS[agent];
+	if (!factory) {
+		throw new Error(
+			`Unknown agent '${agent}' (valid: ${Object.keys(AGENTS).join(", ")})`,
+		);
+	}
+	return factory(config);
+}
+
+/** Build the adapter a JSON `agent` spec describes. */
+export function compileAgent(spec: AgentSpec): AgentAdapter {
+	switch (spec.type) {
+		case "cli":
+			return new CliAgent(spec);
+		default: {
+			const _exhaustive: never = spec.type;
+			throw new Error(`Unknown agent type: ${JSON.stringify(_exhaustive)}`);
+		}
+	}
+}
@@ -0,0 +1,117 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import { iterationArtifactName } from "../results-writer";
+import type {
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
+	EvalResult,
+	IterationResult,
+	TokenUsage,
+} from "../types";
+
+export interface ReplayConfig {
+	results: string; // Path to a results.json written by writeResultsAsJson
+	diffsDir?: string; // Holds iteration-<promptId>-<iterationId>.patch files. Default: the results.json directory
+}
+
+/**
+ * Replays a recorded run instead of calling an agent: applies each iteration's
+ * recorded patch (its .patch artifact, else the `diff` in results.json) to the
+ * fresh working dir and re-emits its recorded messages, so scorers re-run
+ * offline against exactly what the agent did. Recorded failures (no patch to
+ * replay) fail again with the recorded error.
+ */
+export class ReplayAgent implements AgentAdapter {
+	readonly id: string;
+
+	constructor(
+		readonly recorded: EvalResult,
+		private readonly diffsDir: string,
+	) {
+		this.id = recorded.agentId;
+	}
+
+	/** Read a recorded results.json; patches default to living beside it. */
+	static async load(replay: ReplayConfig): Promise<ReplayAgent> {
+		const resultsPath = path.resolve(replay.results);
+		let recorded: EvalResult;
+		try {
+			recorded = JSON.parse(await readFile(resultsPath, "utf8"));
+		} catch (err) {
+			throw new Error(
+				`Cannot read replay results ${resultsPath}: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+		if (!Array.isArray(recorded?.iterations)) {
+			throw new Error(
+				`Replay results ${resultsPath} has no iterations array (expected writeResultsAsJson output)`,
+			);
+		}
+		return new ReplayAgent(
+			recorded,
+			path.resolve(replay.diffsDir ?? path.dirname(resultsPath)),
+		);
+	}
+
+	async *run({ cwd, signal, iteration }: AgentRunContext) {
+		const recorded = this.findIteration(iteration);
+		if (recorded.error) throw new Error(recorded.error);
+
+		const patchPath = path.join(
+			this.diffsDir,
+			recorded.artifacts?.patch ?? iterationArtifactName(recorded, "patch"),
+		);
+		let patch: string;
+		try {
+			patch = await readFile(patchPath, "utf8");
+		} catch {
+			// Results saved without artifacts still carry the diff itself
+			if (recorded.diff === undefined) {
+				throw new Error(`Recorded diff not found: ${patchPath}`);
+			}
+			patch = recorded.diff;
+		}
+		if (patch.trim()) {
+			// The runner writes .env itself before the agent runs, so the recorded
+			// creation of it would collide with the file already on disk.
+			await execa(
+				"git",
+				["apply", "--whitespace=nowarn", "--exclude=.env", "-"],
+				{
+					cwd,
+					cancelSignal: signal,
+					// git apply wants the final newline `git diff` output loses
+					input: patch.endsWith("\n") ? patch : `${patch}\n`,
+				},
+			);
+		}
+
+		yield* parseRecordedMessages(recorded.agentOutput);
+	}
+
+	/** Nothing is spent on a replay, so no usage is reported. */
+	tokenUsage(_message: AgentMessage): TokenUsage | undefined {
+		return undefined;
+	}
+
+	private findIteration(iteration: number): IterationResult {
+		const found = this.recorded.iterations.find(
+			(i) => i.iterationId === iteration,
+		);
+		if (!found) {
+			throw new Error(`No recorded iteration ${iteration} to replay`);
+		}
+		return found;
+	}
+}
+
+function parseRecordedMessages(agentOutput: string): AgentMessage[] {
+	try {
+		const parsed = JSON.parse(agentOutput);
+		return Array.isArray(parsed) ? parsed : [];
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,100 @@
+import { formatUsd, sumCosts } from "./cost";
+import type { BudgetLimits, EvalBudget, TokenUsage } from "./types";
+
+/** Prefix of the `error` of an iteration stopped by `EvalConfig.budget`. */
+export const BUDGET_EXCEEDED = "BUDGET_EXCEEDED";
+
+/** What an iteration (or the eval) has spent so far. */
+export interface BudgetSpend {
+	tokens: number;
+	usd?: number; // Unknown until the agent reports a cost or `pricing` covers the model
+	turns: number;
+}
+
+/** Every token `usage` counts: input, output and cache writes / reads. */
+export function usageTokens(usage: TokenUsage | undefined): number {
+	if (!usage) return 0;
+	return (
+		usage.inputTokens +
+		usage.outputTokens +
+		(usage.cacheCreationInputTokens ?? 0) +
+		(usage.cacheReadInputTokens ?? 0)
+	);
+}
+
+/**
+ * The `BUDGET_EXCEEDED: …` error for the first of `limits` that `spend` is
+ * over, or `undefined` while it is within all of them.
+ */
+export function exceededLimit(
+	spend: BudgetSpend,
+	limits: BudgetLimits | undefined,
+	scope: "iteration" | "total",
+): string | undefined {
+	if (limits?.maxTokens !== undefined && spend.tokens > limits.maxTokens) {
+		return `${BUDGET_EXCEEDED}: ${scope} budget of ${limits.maxTokens} tokens exceeded (${spend.tokens} tokens)`;
+	}
+	if (
+		limits?.maxUsd !== undefined &&
+		spend.usd !== undefined &&
+		spend.usd > limits.maxUsd
+	) {
+		return `${BUDGET_EXCEEDED}: ${scope} budget of ${formatUsd(limits.maxUsd)} exceeded (${formatUsd(spend.usd)})`;
+	}
+	if (limits?.maxTurns !== undefined && spend.turns > limits.maxTurns) {
+		return `${BUDGET_EXCEEDED}: ${scope} budget of ${limits.maxTurns} turns exceeded (${spend.turns} turns)`;
+	}
+	return undefined;
+}
+
+/**
+ * Live tally of an eval's spend against its budget. Iterations record what
+ * they have spent as the agent streams; the tracker calls an iteration's
+ * `stop` when it goes over the per-iteration limits, and every in-flight
+ * iteration's once the eval goes over the total.
+ */
+export class BudgetTracker {
+	private readonly spent = new Map<number, BudgetSpend>();
+	private readonly inFlight = new Map<number, (reason: string) => void>();
+	/** Why the total budget ran out, once it has. */
+	exhausted?: string;
+
+	constructor(private readonly budget: EvalBudget) {}
+
+	/**
+	 * Track a starting iteration. Returns the error it fails with instead of
+	 * running when the total budget is already spent.
+	 */
+	start(iteration: number, stop: (reason: string) => void): string | undefined {
+		if (this.exhausted) return this.exhausted;
+		this.inFlight.set(iteration, stop);
+		return undefined;
+	}
+
+	/** Stop tracking an iteration; its spend still counts toward the total. */
+	finish(iteration: number): void {
+		this.inFlight.delete(iteration);
+	}
+
+	/** Record `spend` as everything the iteration has spent so far. */
+	record(iteration: number, spend: BudgetSpend): void {
+		this.spent.set(iteration, spend);
+		const over = exceededLimit(spend, this.budget.iteration, "iteration");
+		if (over) this.inFlight.get(iteration)?.(over);
+		if (this.exhausted) return;
+		this.exhausted = exceededLimit(this.total(), this.budget.total, "total");
+		if (this.exhausted) {
+			for (const stop of this.inFlight.values()) stop(this.exhausted);
+		}
+	}
+
+	/** The eval's spend so far, across every iteration. */
+	total(): BudgetSpend {
+		const spends = [...this.spent.values()];
+		return {
+			tokens: spends.reduce((sum, s) => sum + s.tokens, 0),
+			usd: sumCosts(spends.map((s) => s.usd)),
+			turns: spends.reduce((sum, s) => sum + s.turns, 0),
+		};
+	}
+}
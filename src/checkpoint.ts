@@ -0,0 +1,100 @@
+import path from "node:path";
+import fs from "fs-extra";
+import type { IterationResult } from "./types";
+
+/** The log in each run directory of the iterations finished so far. */
+export const CHECKPOINT_FILE = "checkpoint.jsonl";
+
+/** What run a checkpoint belongs to: its first line. */
+interface CheckpointHeader {
+	evalName: string;
+	timestamp: string; // The run's start, which names its run directory
+	configHash: string; // See configHash(); a resume with another config warns
+}
+
+/** A run's checkpoint: its header and the iterations it finished. */
+export interface Checkpoint extends CheckpointHeader {
+	iterations: IterationResult[];
+}
+
+type CheckpointLine =
+	| ({ type: "start" } & CheckpointHeader)
+	| { type: "iteration"; result: IterationResult };
+
+const line = (entry: CheckpointLine) => `${JSON.stringify(entry)}\n`;
+
+/**
+ * (Re)write the checkpoint in `runDir`: empty for a fresh run, or what a
+ * resumed run read back, minus any line cut short when it died.
+ */
+export async function writeCheckpoint(
+	runDir: string,
+	{ iterations, ...header }: Checkpoint,
+): Promise<void> {
+	await fs.ensureDir(runDir);
+	await fs.writeFile(
+		path.join(runDir, CHECKPOINT_FILE),
+		[
+			line({ type: "start", ...header }),
+			...iterations.map((result) => line({ type: "iteration", result })),
+		].join(""),
+		"utf-8",
+	);
+}
+
+/** Record a finished iteration in the checkpoint in `runDir`. */
+export async function appendCheckpoint(
+	runDir: string,
+	result: IterationResult,
+): Promise<void> {
+	await fs.appendFile(
+		path.join(runDir, CHECKPOINT_FILE),
+		line({ type: "iteration", result }),
+		"utf-8",
+	);
+}
+
+/**
+ * The checkpoint in `runDir`, each iteration at its latest record (a resumed
+ * run may have rerun one). Unparseable lines — say, the one being written
+ * when the run died — are skipped. Throws when there is no checkpoint.
+ */
+export async function readCheckpoint(runDir: string): Promise<Checkpoint> {
+	const resolved = path.resolve(runDir);
+	let text: string;
+	try {
+		text = await fs.readFile(path.join(resolved, CHECKPOINT_FILE), "utf-8");
+	} catch (err) {
+		throw new Error(
+			`Cannot resume ${resolved}: no readable ${CHECKPOINT_FILE} (${err instanceof Error ? err.message : String(err)})`,
+		);
+	}
+	let header: CheckpointHeader | undefined;
+	const iterations = new Map<number, IterationResult>();
+	for (const raw of text.split("\n")) {
+		if (!raw.trim()) continue;
+		let entry: CheckpointLine;
+		try {
+			entry = JSON.parse(raw);
+		} catch {
+			continue;
+		}
+		if (entry.type === "start") {
+			const { type: _, ...rest } = entry;
+			header = rest;
+		} else if (entry.type === "iteration") {
+			iterations.set(entry.result.iterationId, entry.result);
+		}
+	}
+	if (!header) {
+		throw new Error(
+			`Cannot resume ${resolved}: ${CHECKPOINT_FILE} has no start line`,
+		);
+	}
+	return {
+		...header,
+		iterations: [...iterations.values()].sort(
+			(a, b) => a.iterationId - b.iterationId,
+		),
+	};
+}
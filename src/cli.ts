@@ -13,9 +13,13 @@ import { detectAgenticEnvironment } from "am-i-vibing";
 import { z } from "zod";
 import type { AgentDetectionResult } from "./agent-detect";
 import { resolveOutputMode } from "./agent-detect";
+import { BUDGET_EXCEEDED } from "./budget";
 import { collectScriptScorers, loadEvalFile } from "./eval-config-loader";
+import { formatHistory, readHistory } from "./history";
 import {
+	formatRegression,
 	formatResultsAsGitHubSummary,
+	formatResultsAsHtml,
 	formatResultsAsJson,
 	formatResultsAsJUnit,
 	formatResultsAsMarkdown,
@@ -24,6 +28,7 @@ import type { EvalConfig } from "./runner";
 import { runClaudeCodeEval } from "./runner";
 import { validateScriptScorer } from "./scorers/registry";
 import { jsonConfigSchema } from "./scorers/schema";
+import { createDashboardServer, listRuns } from "./serve";
 import type { EvalResult } from "./types";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -31,11 +36,15 @@ const __dirname = path.dirname(__filename);
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
 
+const DEFAULT_HISTORY_LIMIT = 10;
+const DEFAULT_SERVE_PORT = 3000;
+
 // Semantic exit codes
 const EXIT = {
 	SUCCESS: 0,
 	EVAL_FAILURE: 1,
 	USAGE: 2,
+	BUDGET_EXCEEDED: 3,
 	UNAVAILABLE: 69,
 	CONFIG: 78,
 } as const;
@@ -48,6 +57,9 @@ function formatterForPath(
 	if (lower.endsWith(".xml")) return formatResultsAsJUnit;
 	if (lower.endsWith(".json")) return formatResultsAsJson;
 	if (lower.endsWith(".md")) return formatResultsAsMarkdown;
+	if (lower.endsWith(".html") || lower.endsWith(".htm")) {
+		return formatResultsAsHtml;
+	}
 	return null;
 }
 
@@ -63,6 +75,8 @@ function stdoutJson(data: unknown): void {
 const help = `code-agent-eval v${version} - Evaluate coding agents with structured evals
 
 Usage: code-agent-eval --eval-file <path> [options]
+       code-agent-eval history [options]   Trends from past runs (see history --help)
+       code-agent-eval serve [options]     Browse and compare saved runs (see serve --help)
 
 Options:
   --eval-file <path>     Path to eval config file (.json / .jsonl / .ts / .js)
@@ -70,9 +84,15 @@ Options:
   --threshold <0..1>     Pass when overall pass rate >= this (default 1.0)
   --verbose              Enable verbose logging
   --results-dir <path>   Override results directory
+  --replay <path>        Re-score a recorded results.json offline: apply each
+                         iteration's saved .patch, re-run scorers, no agent
+  --baseline <path>      Compare against a previous results.json; fail on a
+                         statistically significant drop in any scorer
+  --resume <run-dir>     Finish an interrupted run: keep the iterations in its
+                         checkpoint.jsonl, run the rest, write results there
   --output <path>        Write an artifact; format inferred from extension
-                         (.xml/.junit.xml → JUnit, .json → JSON, .md → Markdown).
-                         Repeatable.
+                         (.xml/.junit.xml → JUnit, .json → JSON, .md → Markdown,
+                         .html → HTML report). Repeatable.
   --json                 Output results as JSON to stdout
   --dry-run              Validate config and show execution plan
   --print-schema         Print JSON Schema for eval config and exit
@@ -94,6 +114,10 @@ Examples:
   $ code-agent-eval --eval-file ./evals/refactor.json --dry-run
   $ code-agent-eval --eval-file ./evals/refactor.ts --json > results.json
   $ code-agent-eval --eval-file ./evals/refactor.ts --results-dir ./out
+  $ code-agent-eval --eval-file ./evals/refactor.ts --replay ./out/refactor-2025-01-15-143022/results.json
+  $ code-agent-eval --eval-file ./evals/refactor.ts --resume ./out/refactor-2025-01-15-143022
+  $ code-agent-eval history --results-dir ./out
+  $ code-agent-eval serve --results-dir ./out
 
 Authoring evals: JSON is the primary format — write eval.json with
 "$schema": "https://unpkg.com/code-agent-eval/schema.json", or run
@@ -101,9 +125,189 @@ Authoring evals: JSON is the primary format — write eval.json with
 The .ts/.js path remains for custom (function) scorers.
 `;
 
+const historyHelp = `Usage: code-agent-eval history [options]
+
+Print pass rate, duration and cost trends per eval, agent and scorer from the
+history.jsonl that every run with a results directory appends to.
+
+Options:
+  --results-dir <path>   Results directory to read (default: $CODE_AGENT_EVAL_RESULTS_DIR)
+  --eval-file <path>     Read this eval's resultsDir and show only its runs
+  --eval <name>          Only runs of this eval
+  --agent <id>           Only runs of this agent
+  --limit <n>            Latest runs per eval and agent (default ${DEFAULT_HISTORY_LIMIT})
+  --json                 Output the history entries as JSON
+  --help                 Show help
+`;
+
+const serveHelp = `Usage: code-agent-eval serve [options]
+
+Start a local dashboard over the runs saved in a results directory: list every
+run, compare two runs or two prompt variants side by side, and open each
+iteration's transcript and diff. Reads each run's results.json.
+
+Options:
+  --results-dir <path>   Results directory to serve (default: $CODE_AGENT_EVAL_RESULTS_DIR)
+  --eval-file <path>     Serve this eval's resultsDir
+  --port <n>             Port to listen on (default ${DEFAULT_SERVE_PORT}; 0 picks a free one)
+  --host <host>          Interface to bind (default 127.0.0.1)
+  --help                 Show help
+`;
+
+// --- history ---
+
+async function historyCommand(args: string[]) {
+	let values: Record<string, string | boolean | undefined>;
+	try {
+		({ values } = parseArgs({
+			args,
+			options: {
+				"results-dir": { type: "string" },
+				"eval-file": { type: "string" },
+				eval: { type: "string" },
+				agent: { type: "string" },
+				limit: { type: "string" },
+				json: { type: "boolean", default: false },
+				help: { type: "boolean", default: false },
+			},
+			strict: true,
+		}));
+	} catch (err) {
+		const errMsg = err instanceof Error ? err.message : String(err);
+		console.error(`Error: ${errMsg}`);
+		console.error('Run "code-agent-eval history --help" for usage.');
+		process.exit(EXIT.USAGE);
+	}
+
+	if (values.help) {
+		stdout(historyHelp);
+		process.exit(EXIT.SUCCESS);
+	}
+
+	let resultsDir =
+		(values["results-dir"] as string | undefined) ??
+		process.env.CODE_AGENT_EVAL_RESULTS_DIR;
+	let evalName = values.eval as string | undefined;
+	if (values["eval-file"]) {
+		try {
+			const config = await loadEvalFile(values["eval-file"] as string);
+			resultsDir ??= config.resultsDir;
+			evalName ??= config.name;
+		} catch (err) {
+			console.error(`Error: Failed to load eval file: ${values["eval-file"]}`);
+			console.error(err instanceof Error ? err.message : String(err));
+			process.exit(EXIT.CONFIG);
+		}
+	}
+	if (!resultsDir) {
+		console.error(
+			"Error: history needs --results-dir <path> (or an --eval-file with resultsDir)",
+		);
+		process.exit(EXIT.USAGE);
+	}
+
+	const limit = Number(values.limit ?? DEFAULT_HISTORY_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1) {
+		console.error("Error: --limit must be a positive integer");
+		process.exit(EXIT.USAGE);
+	}
+
+	const entries = await readHistory(resultsDir, {
+		evalName,
+		agentId: values.agent as string | undefined,
+		limit,
+	});
+	if (values.json) {
+		stdoutJson({ status: "ok", data: { resultsDir, entries } });
+	} else {
+		process.stdout.write(formatHistory(entries));
+	}
+	process.exit(EXIT.SUCCESS);
+}
+
+// --- serve ---
+
+async function serveCommand(args: string[]) {
+	let values: Record<string, string | boolean | undefined>;
+	try {
+		({ values } = parseArgs({
+			args,
+			options: {
+				"results-dir": { type: "string" },
+				"eval-file": { type: "string" },
+				port: { type: "string" },
+				host: { type: "string", default: "127.0.0.1" },
+				help: { type: "boolean", default: false },
+			},
+			strict: true,
+		}));
+	} catch (err) {
+		const errMsg = err instanceof Error ? err.message : String(err);
+		console.error(`Error: ${errMsg}`);
+		console.error('Run "code-agent-eval serve --help" for usage.');
+		process.exit(EXIT.USAGE);
+	}
+
+	if (values.help) {
+		stdout(serveHelp);
+		process.exit(EXIT.SUCCESS);
+	}
+
+	let resultsDir =
+		(values["results-dir"] as string | undefined) ??
+		process.env.CODE_AGENT_EVAL_RESULTS_DIR;
+	if (values["eval-file"]) {
+		try {
+			const config = await loadEvalFile(values["eval-file"] as string);
+			resultsDir ??= config.resultsDir;
+		} catch (err) {
+			console.error(`Error: Failed to load eval file: ${values["eval-file"]}`);
+			console.error(err instanceof Error ? err.message : String(err));
+			process.exit(EXIT.CONFIG);
+		}
+	}
+	if (!resultsDir) {
+		console.error(
+			"Error: serve needs --results-dir <path> (or an --eval-file with resultsDir)",
+		);
+		process.exit(EXIT.USAGE);
+	}
+
+	const port = Number(values.port ?? DEFAULT_SERVE_PORT);
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		console.error("Error: --port must be an integer from 0 to 65535");
+		process.exit(EXIT.USAGE);
+	}
+
+	const runs = await listRuns(resultsDir);
+	const server = createDashboardServer(resultsDir);
+	server.on("error", (err) => {
+		console.error(`Error: Cannot start the dashboard: ${err.message}`);
+		process.exit(EXIT.UNAVAILABLE);
+	});
+	const host = values.host as string;
+	server.listen(port, host, () => {
+		const address = server.address();
+		const bound = typeof address === "object" && address ? address.port : port;
+		stdout(
+			`Serving ${runs.length} run(s) from ${resultsDir} at http://${host.includes(":") ? `[${host}]` : host}:${bound}/ (Ctrl+C to stop)`,
+		);
+	});
+	// Runs until interrupted
+}
+
 // --- Main ---
 
 async function main() {
+	if (process.argv[2] === "history") {
+		await historyCommand(process.argv.slice(3));
+		return;
+	}
+	if (process.argv[2] === "serve") {
+		await serveCommand(process.argv.slice(3));
+		return;
+	}
+
 	let values: Record<string, string | string[] | boolean | undefined>;
 	try {
 		({ values } = parseArgs({
@@ -113,6 +317,9 @@ async function main() {
 				threshold: { type: "string" },
 				verbose: { type: "boolean", default: false },
 				"results-dir": { type: "string" },
+				replay: { type: "string" },
+				baseline: { type: "string" },
+				resume: { type: "string" },
 				output: { type: "string", multiple: true },
 				json: { type: "boolean", default: false },
 				"dry-run": { type: "boolean", default: false },
@@ -295,13 +502,13 @@ async function main() {
 					agentDetection,
 					error: {
 						code: "INVALID_ARG",
-						message: `--output: unsupported extension for "${outputPath}" (use .xml, .json, or .md)`,
+						message: `--output: unsupported extension for "${outputPath}" (use .xml, .json, .md, or .html)`,
 						transient: false,
 					},
 				});
 			} else {
 				console.error(
-					`Error: --output: unsupported extension for "${outputPath}" (use .xml, .json, or .md)`,
+					`Error: --output: unsupported extension for "${outputPath}" (use .xml, .json, .md, or .html)`,
 				);
 			}
 			process.exit(EXIT.USAGE);
@@ -320,10 +527,26 @@ async function main() {
 		process.env.CODE_AGENT_EVAL_RESULTS_DIR;
 	if (rdir) overrides.resultsDir = rdir;
 
+	const replayPath = values.replay as string | undefined;
+	if (replayPath) overrides.replay = { results: replayPath };
+
+	const baselinePath = values.baseline as string | undefined;
+	if (baselinePath) overrides.baseline = baselinePath;
+
+	const resumeDir = values.resume as string | undefined;
+	if (resumeDir) overrides.resume = resumeDir;
+
 	const finalConfig = { ...config, ...overrides };
 	const iterations = finalConfig.iterations ?? 1;
-	const totalRuns = finalConfig.prompts.length * iterations;
+	const adaptive = finalConfig.execution?.adaptive;
+	// Adaptive runs stop early; plan for the most they could take
+	const totalRuns =
+		finalConfig.prompts.length * (adaptive?.maxIterations ?? iterations);
 	const execMode = finalConfig.execution?.mode ?? "sequential";
+	const agentName =
+		typeof finalConfig.agent === "object"
+			? finalConfig.agent.id
+			: (finalConfig.agent ?? "claude-code");
 
 	// --dry-run: validate config and show plan without running
 	if (values["dry-run"]) {
@@ -361,9 +584,14 @@ async function main() {
 			iterations,
 			totalRuns,
 			execution: execMode,
+			adaptive: adaptive ?? null,
 			threshold: finalConfig.passThreshold ?? 1.0,
+			agent: agentName,
 			scorers: (finalConfig.scorers ?? []).map((s) => s.name),
 			resultsDir: finalConfig.resultsDir ?? null,
+			replay: finalConfig.replay?.results ?? null,
+			baseline: finalConfig.baseline ?? null,
+			resume: finalConfig.resume ?? null,
 			projectDir: path.resolve(finalConfig.projectDir),
 		};
 
@@ -371,26 +599,42 @@ async function main() {
 			stdoutJson({ status: "ok", agentDetection, data: plan });
 		} else {
 			stdout(
-				`Config valid. Would run ${totalRuns} eval(s) for "${plan.name}".`,
+				`Config valid. Would run ${adaptive ? "up to " : ""}${totalRuns} eval(s) for "${plan.name}".`,
 			);
 			stdout("");
 			stdout(`  Eval:       ${plan.name}`);
 			stdout(`  Prompts:    ${plan.prompts.join(", ")}`);
-			stdout(`  Iterations: ${iterations}`);
+			stdout(
+				`  Iterations: ${
+					adaptive
+						? `adaptive, ${Math.min(adaptive.minIterations ?? 3, adaptive.maxIterations)}–${adaptive.maxIterations} per prompt`
+						: iterations
+				}`,
+			);
 			stdout(`  Total runs: ${totalRuns}`);
 			stdout(`  Execution:  ${execMode}`);
+			stdout(`  Agent:      ${plan.agent}`);
 			stdout(`  Threshold:  ${plan.threshold}`);
 			stdout(
 				`  Scorers:    ${plan.scorers.length ? plan.scorers.join(", ") : "(none)"}`,
 			);
 			stdout(`  Results:    ${plan.resultsDir ?? "(not configured)"}`);
+			if (plan.replay) stdout(`  Replay:     ${plan.replay}`);
+			if (plan.baseline) stdout(`  Baseline:   ${plan.baseline}`);
+			if (plan.resume) stdout(`  Resume:     ${plan.resume}`);
 			stdout(`  Project:    ${plan.projectDir}`);
 		}
 		process.exit(EXIT.SUCCESS);
 	}
 
-	// Fail fast on a missing API key before any iteration runs.
-	if (!process.env.ANTHROPIC_API_KEY) {
+	// Fail fast on a missing API key before any iteration runs. Only the
+	// Agent SDK needs it; other agents bring their own credentials and a
+	// replay runs no agent at all.
+	if (
+		agentName === "claude-code" &&
+		!finalConfig.replay &&
+		!process.env.ANTHROPIC_API_KEY
+	) {
 		if (isJson) {
 			stdoutJson({
 				status: "error",
@@ -415,11 +659,14 @@ async function main() {
 	// Run eval
 	const result = await runClaudeCodeEval(finalConfig);
 
-	// Threshold-based verdict drives the exit code, JSON status, and headline.
+	// Threshold-based verdict drives the exit code, JSON status, and headline;
+	// a regression against the baseline fails it whatever the pass rate.
 	const threshold = finalConfig.passThreshold ?? 1.0;
 	const overallPassRate =
 		result.aggregateScores._overall?.passRate ?? (result.success ? 1 : 0);
-	const verdict = overallPassRate >= threshold;
+	const regressions =
+		result.baseline?.comparisons.filter((c) => c.regression) ?? [];
+	const verdict = overallPassRate >= threshold && regressions.length === 0;
 
 	// Output results
 	const evalFile = values["eval-file"];
@@ -438,6 +685,11 @@ async function main() {
 				duration: result.duration,
 				aggregateScores: result.aggregateScores,
 				tokenUsage: result.tokenUsage,
+				budgetExceeded: result.budgetExceeded,
+				baseline: result.baseline && {
+					results: result.baseline.results,
+					regressions,
+				},
 				iterationCount: result.iterations.length,
 				iterations: result.iterations.map((it) => ({
 					iterationId: it.iterationId,
@@ -461,6 +713,20 @@ async function main() {
 		stdout(
 			`Eval "${result.evalName}" ${verdict ? "passed" : "failed"}: ${passedCount}/${total} passed (${passRate.toFixed(1)}%, threshold ${(threshold * 100).toFixed(0)}%) in ${durSec}s`,
 		);
+		if (result.budgetExceeded) {
+			const stopped = result.iterations.filter((i) =>
+				i.error?.startsWith(BUDGET_EXCEEDED),
+			);
+			stdout(
+				`Budget exceeded: ${stopped.length}/${total} run(s) stopped (${stopped[0]?.error})`,
+			);
+		}
+		if (result.baseline) {
+			stdout(
+				`Baseline ${result.baseline.results}: ${regressions.length} regression(s)`,
+			);
+			for (const c of regressions) stdout(`  ${formatRegression(c)}`);
+		}
 		stdout("");
 		stdout("Next steps:");
 		if (verdict) {
@@ -503,7 +769,14 @@ async function main() {
 		if (!isJson) stdout(`  Wrote summary:   ${summaryPath}`);
 	}
 
-	process.exit(verdict ? EXIT.SUCCESS : EXIT.EVAL_FAILURE);
+	// A run cut short by its budget is incomplete, whatever its pass rate
+	process.exit(
+		result.budgetExceeded
+			? EXIT.BUDGET_EXCEEDED
+			: verdict
+				? EXIT.SUCCESS
+				: EXIT.EVAL_FAILURE,
+	);
 }
 
 main().catch((err) => {
@@ -0,0 +1,36 @@
+import type { ModelPricing, TokenUsage } from "./types";
+
+/**
+ * USD cost of `usage`: the cost the agent reported, else the tokens priced
+ * from `pricing` — by the reported model, then by `agentId`. `undefined`
+ * when neither is known.
+ */
+export function usageCost(
+	usage: TokenUsage | undefined,
+	pricing: Record<string, ModelPricing> | undefined,
+	agentId: string,
+): number | undefined {
+	if (!usage) return undefined;
+	if (usage.costUsd !== undefined) return usage.costUsd;
+	const price = (usage.model && pricing?.[usage.model]) || pricing?.[agentId];
+	if (!price) return undefined;
+	return (
+		(usage.inputTokens * price.input +
+			usage.outputTokens * price.output +
+			(usage.cacheCreationInputTokens ?? 0) *
+				(price.cacheWrite ?? price.input) +
+			(usage.cacheReadInputTokens ?? 0) * (price.cacheRead ?? price.input)) /
+		1_000_000
+	);
+}
+
+/** Total of the known costs; `undefined` when none is known. */
+export function sumCosts(costs: (number | undefined)[]): number | undefined {
+	const known = costs.filter((cost): cost is number => cost !== undefined);
+	return known.length > 0 ? known.reduce((a, b) => a + b, 0) : undefined;
+}
+
+/** `$1.2345` — four decimals, since single iterations often cost cents. */
+export function formatUsd(usd: number): string {
+	return `$${usd.toFixed(4)}`;
+}
@@ -0,0 +1,209 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { resolveExpectedPaths } from "./expected";
+import {
+	type DatasetConfig,
+	type DatasetFormat,
+	type DatasetRow,
+	datasetRowSchema,
+} from "./scorers/schema";
+
+const FORMATS: Record<string, DatasetFormat> = {
+	".jsonl": "jsonl",
+	".ndjson": "jsonl",
+	".json": "json",
+	".yaml": "yaml",
+	".yml": "yaml",
+	".csv": "csv",
+};
+
+/** A dataset's validated rows, with `projectDir` resolved to an absolute path. */
+export interface Dataset {
+	file: string; // Absolute path of the dataset file
+	rows: Array<DatasetRow & { id: string }>;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, `""` escapes, CRLF or LF) into
+ * records keyed by the header row. Blank lines are skipped.
+ */
+function parseCsv(text: string): Record<string, string>[] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (quoted) {
+			if (ch === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				field += ch;
+			}
+		} else if (ch === '"' && field === "") {
+			quoted = true;
+		} else if (ch === ",") {
+			record.push(field);
+			field = "";
+		} else if (ch === "\n" || ch === "\r") {
+			if (ch === "\r" && text[i + 1] === "\n") i++;
+			record.push(field);
+			field = "";
+			if (record.some((f) => f !== "")) records.push(record);
+			record = [];
+		} else {
+			field += ch;
+		}
+	}
+	record.push(field);
+	if (record.some((f) => f !== "")) records.push(record);
+
+	const [header, ...rows] = records;
+	if (!header) return [];
+	return rows.map((row) =>
+		Object.fromEntries(header.map((name, i) => [name.trim(), row[i] ?? ""])),
+	);
+}
+
+/**
+ * CSV cells are all strings: `env.NAME` columns become `environmentVariables`,
+ * `scorers` holds a JSON array of scorer specs, and empty cells are omitted.
+ */
+function csvRecordToRow(record: Record<string, string>): unknown {
+	const row: Record<string, unknown> = {};
+	const env: Record<string, string> = {};
+	for (const [column, value] of Object.entries(record)) {
+		if (value === "") continue;
+		if (column.startsWith("env.")) {
+			env[column.slice("env.".length)] = value;
+		} else if (column === "scorers") {
+			try {
+				row.scorers = JSON.parse(value);
+			} catch (err) {
+				throw new Error(
+					`scorers column is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+				);
+			}
+		} else {
+			row[column] = value;
+		}
+	}
+	if (Object.keys(env).length > 0) row.environmentVariables = env;
+	return row;
+}
+
+/** Raw rows of a dataset's text, each labelled with where it came from for errors. */
+function parseRows(
+	text: string,
+	format: DatasetFormat,
+): Array<{ where: string; parse: () => unknown }> {
+	switch (format) {
+		case "jsonl":
+			return text
+				.split(/\r?\n/)
+				.flatMap((line, i) =>
+					line.trim()
+						? [{ where: `line ${i + 1}`, parse: () => JSON.parse(line) }]
+						: [],
+				);
+		case "csv":
+			return parseCsv(text).map((record, i) => ({
+				where: `row ${i + 1}`,
+				parse: () => csvRecordToRow(record),
+			}));
+		case "json":
+		case "yaml": {
+			const doc: unknown =
+				format === "json" ? JSON.parse(text) : parseYaml(text);
+			if (!Array.isArray(doc)) {
+				throw new Error(`expected a top-level array of rows`);
+			}
+			return doc.map((row, i) => ({ where: `row ${i + 1}`, parse: () => row }));
+		}
+	}
+}
+
+/**
+ * Read and validate a dataset of eval tasks: JSONL, YAML, CSV, or a JSON array,
+ * chosen by `format` or the file extension. Relative paths resolve against
+ * `baseDir`; each row's `projectDir` against the dataset file, and its
+ * `fixture` against `fixturesDir` (default: `fixtures/` beside the dataset);
+ * an `expected` patch `path` or solution `dir` against the dataset file too.
+ * Rows without an `id` are numbered `row-1`, `row-2`, ...
+ */
+export async function readDataset(
+	dataset: string | DatasetConfig,
+	baseDir = process.cwd(),
+): Promise<Dataset> {
+	const spec = typeof dataset === "string" ? { path: dataset } : dataset;
+	const file = path.resolve(baseDir, spec.path);
+	const format = spec.format ?? FORMATS[path.extname(file).toLowerCase()];
+	if (!format) {
+		throw new Error(
+			`Unknown dataset format for '${spec.path}' (valid extensions: ${Object.keys(FORMATS).join(", ")})`,
+		);
+	}
+	const datasetDir = path.dirname(file);
+	const fixturesDir = path.resolve(
+		baseDir,
+		spec.fixturesDir ?? path.join(datasetDir, "fixtures"),
+	);
+
+	let entries: ReturnType<typeof parseRows>;
+	try {
+		entries = parseRows(await readFile(file, "utf8"), format);
+	} catch (err) {
+		throw new Error(
+			`Invalid dataset ${file}: ${err instanceof Error ? err.message : String(err)}`,
+		);
+	}
+
+	const rows: Dataset["rows"] = [];
+	const seen = new Set<string>();
+	for (const [i, entry] of entries.entries()) {
+		let raw: unknown;
+		try {
+			raw = entry.parse();
+		} catch (err) {
+			throw new Error(
+				`Invalid dataset ${file} (${entry.where}): ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+		const parsed = datasetRowSchema.safeParse(raw);
+		if (!parsed.success) {
+			const issues = parsed.error.issues
+				.map((issue) => `${issue.path.map(String).join(".")}: ${issue.message}`)
+				.join("; ");
+			throw new Error(`Invalid dataset ${file} (${entry.where}): ${issues}`);
+		}
+
+		const { fixture, ...row } = parsed.data;
+		const id = row.id ?? `row-${i + 1}`;
+		if (seen.has(id)) {
+			throw new Error(
+				`Invalid dataset ${file} (${entry.where}): duplicate id '${id}'`,
+			);
+		}
+		seen.add(id);
+
+		let projectDir: string | undefined;
+		if (fixture) projectDir = path.resolve(fixturesDir, fixture);
+		else if (row.projectDir)
+			projectDir = path.resolve(datasetDir, row.projectDir);
+		rows.push({
+			...row,
+			id,
+			...(projectDir && { projectDir }),
+			...(row.expected !== undefined && {
+				expected: resolveExpectedPaths(row.expected, datasetDir),
+			}),
+		});
+	}
+
+	return { file, rows };
+}
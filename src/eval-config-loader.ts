@@ -1,10 +1,18 @@
 import { readFile } from "node:fs/promises";
 import path from "node:path";
+import { AGENTS, compileAgent } from "./agents/registry";
+import { readDataset } from "./dataset";
+import { resolveExpectedPaths } from "./expected";
 import { resolveLibraryEntry } from "./resolve-entry";
 import type { EvalConfig } from "./runner";
 import { compileScorer } from "./scorers/registry";
-import type { ScorerSpec, ScriptScorerSpec } from "./scorers/schema";
+import type {
+	DatasetConfig,
+	ScorerSpec,
+	ScriptScorerSpec,
+} from "./scorers/schema";
 import { evalConfigSchema, jsonConfigSchema } from "./scorers/schema";
+import type { PromptConfig } from "./types";
 
 export { evalConfigSchema }; // re-exported for test imports
 
@@ -19,17 +27,72 @@ function formatIssues(error: {
 		.join("\n");
 }
 
-/** Rewrite `script.path` from relative (to config file dir) to absolute. `file.path` stays relative. */
-function resolveScriptPath(spec: ScorerSpec, configDir: string): ScorerSpec {
+/**
+ * Rewrite `script.path`, `diff-similarity.reference` and `hidden-tests.dir`
+ * from relative (to config file dir) to absolute. `file.path` stays relative
+ * (to the working dir).
+ */
+function resolveSpecPaths(spec: ScorerSpec, configDir: string): ScorerSpec {
 	if (spec.type === "script" && !path.isAbsolute(spec.path)) {
 		return { ...spec, path: path.resolve(configDir, spec.path) };
 	}
+	if (spec.type === "diff-similarity" && spec.reference) {
+		return { ...spec, reference: path.resolve(configDir, spec.reference) };
+	}
+	if (spec.type === "hidden-tests") {
+		return { ...spec, dir: path.resolve(configDir, spec.dir) };
+	}
 	if (spec.type === "all" || spec.type === "any") {
-		return { ...spec, of: spec.of.map((s) => resolveScriptPath(s, configDir)) };
+		return { ...spec, of: spec.of.map((s) => resolveSpecPaths(s, configDir)) };
 	}
 	return spec;
 }
 
+/**
+ * Load a dataset file (JSONL, YAML, CSV or a JSON array) as prompts: one per
+ * row, keyed by the row's `id`, with its scorer specs compiled. Relative paths
+ * resolve against `baseDir`; script scorer paths against the dataset file.
+ */
+export async function loadDataset(
+	dataset: string | DatasetConfig,
+	baseDir = process.cwd(),
+): Promise<PromptConfig[]> {
+	const { file, rows } = await readDataset(dataset, baseDir);
+	const datasetDir = path.dirname(file);
+	return rows.map(({ scorers, ...row }) => ({
+		...row,
+		scorers: scorers?.map((s) =>
+			compileScorer(resolveSpecPaths(s, datasetDir)),
+		),
+	}));
+}
+
+/**
+ * Dataset rows are separate tasks, not variants of the first prompt, so an
+ * eval with a dataset only compares its prompts when `compare` asks to.
+ */
+const compareDefault = (
+	compare: boolean | undefined,
+	dataset: string | DatasetConfig | undefined,
+) => compare ?? (dataset ? false : undefined);
+
+/** Config prompts followed by the dataset's rows; ids must be unique across both. */
+async function withDataset(
+	prompts: PromptConfig[] = [],
+	dataset: string | DatasetConfig | undefined,
+	configDir: string,
+): Promise<PromptConfig[]> {
+	if (!dataset) return prompts;
+	const all = [...prompts, ...(await loadDataset(dataset, configDir))];
+	if (all.length === 0) throw new Error("Dataset has no rows");
+	const ids = new Set<string>();
+	for (const { id } of all) {
+		if (ids.has(id)) throw new Error(`Duplicate prompt id '${id}'`);
+		ids.add(id);
+	}
+	return all;
+}
+
 /** Collect all script scorer specs from a JSON eval file, with absolute paths. */
 export async function collectScriptScorers(
 	filePath: string,
@@ -41,9 +104,22 @@ export async function collectScriptScorers(
 	if (!parsed.success)
 		throw new Error(`Invalid eval config:\n${formatIssues(parsed.error)}`);
 	const configDir = path.dirname(resolved);
-	const specs = (parsed.data.scorers ?? []).map((s) =>
-		resolveScriptPath(s, configDir),
+	const promptSpecs = (parsed.data.prompts ?? []).flatMap((p) => [
+		...(p.scorers ?? []),
+		...(p.turnScorers ?? []),
+		...(p.turns ?? []).flatMap((t) => t.scorers ?? []),
+	]);
+	const specs = [...(parsed.data.scorers ?? []), ...promptSpecs].map((s) =>
+		resolveSpecPaths(s, configDir),
 	);
+	if (parsed.data.dataset) {
+		const { file, rows } = await readDataset(parsed.data.dataset, configDir);
+		specs.push(
+			...rows.flatMap((row) =>
+				(row.scorers ?? []).map((s) => resolveSpecPaths(s, path.dirname(file))),
+			),
+		);
+	}
 	return flattenScripts(specs);
 }
 
@@ -78,11 +154,43 @@ export async function loadEvalFile(filePath: string): Promise<EvalConfig> {
 		if (!parsed.success)
 			throw new Error(`Invalid eval config:\n${formatIssues(parsed.error)}`);
 		const configDir = path.dirname(resolved);
-		const { $schema: _schema, scorers, ...rest } = parsed.data;
-		const resolvedSpecs = scorers?.map((s) => resolveScriptPath(s, configDir));
+		const {
+			$schema: _schema,
+			prompts,
+			dataset,
+			scorers,
+			agent,
+			compare,
+			...rest
+		} = parsed.data;
+		if (typeof agent === "string" && !AGENTS[agent]) {
+			throw new Error(
+				`Unknown agent '${agent}' (valid: ${Object.keys(AGENTS).join(", ")})`,
+			);
+		}
+		const compile = (specs: ScorerSpec[]) =>
+			specs.map((s) => compileScorer(resolveSpecPaths(s, configDir)));
 		return {
 			...rest,
-			scorers: resolvedSpecs?.map(compileScorer),
+			compare: compareDefault(compare, dataset),
+			prompts: await withDataset(
+				prompts?.map(
+					({ turns, scorers, turnScorers, expected, ...prompt }) => ({
+						...prompt,
+						expected: expected && resolveExpectedPaths(expected, configDir),
+						scorers: scorers && compile(scorers),
+						turnScorers: turnScorers && compile(turnScorers),
+						turns: turns?.map((turn) => ({
+							...turn,
+							scorers: turn.scorers && compile(turn.scorers),
+						})),
+					}),
+				),
+				dataset,
+				configDir,
+			),
+			agent: typeof agent === "object" ? compileAgent(agent) : agent,
+			scorers: scorers && compile(scorers),
 		} as EvalConfig;
 	} else {
 		mod = (await import(resolved)) as typeof mod;
@@ -100,5 +208,14 @@ export async function loadEvalFile(filePath: string): Promise<EvalConfig> {
 		throw new Error(`Invalid eval config:\n${formatIssues(parsed.error)}`);
 	}
 
-	return parsed.data as EvalConfig;
+	const { dataset, ...config } = parsed.data;
+	return {
+		...config,
+		compare: compareDefault(config.compare, dataset),
+		prompts: await withDataset(
+			config.prompts as PromptConfig[] | undefined,
+			dataset,
+			path.dirname(resolved),
+		),
+	} as EvalConfig;
 }
@@ -0,0 +1,74 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Expected, ExpectedSpec } from "./types";
+
+/** Directories never part of a reference tree. */
+const IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+/** Read every file under `dir` (skipping .git / node_modules), keyed by relative path. */
+async function readTree(dir: string): Promise<Record<string, string>> {
+	const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+	const files: Record<string, string> = {};
+	for (const entry of entries) {
+		if (!entry.isFile()) continue;
+		const abs = path.join(entry.parentPath, entry.name);
+		const rel = path.relative(dir, abs);
+		if (rel.split(path.sep).some((segment) => IGNORED_DIRS.has(segment)))
+			continue;
+		files[rel.split(path.sep).join("/")] = await readFile(abs, "utf8");
+	}
+	return files;
+}
+
+/**
+ * Normalize a prompt's `expected` into the shape scorers see: strings become
+ * free text, and a patch `path` or solution `dir` is read (relative to
+ * `baseDir`).
+ */
+export async function loadExpected(
+	spec: ExpectedSpec,
+	baseDir = process.cwd(),
+): Promise<Expected> {
+	if (typeof spec === "string") return { type: "text", text: spec };
+	if ("path" in spec) {
+		return {
+			type: "diff",
+			diff: await readFile(path.resolve(baseDir, spec.path), "utf8"),
+		};
+	}
+	if ("dir" in spec) {
+		return {
+			type: "files",
+			files: await readTree(path.resolve(baseDir, spec.dir)),
+		};
+	}
+	return spec;
+}
+
+/** Make a spec's `path` / `dir` absolute, so it loads the same from any cwd. */
+export function resolveExpectedPaths(
+	spec: ExpectedSpec,
+	baseDir: string,
+): ExpectedSpec {
+	if (typeof spec === "string") return spec;
+	if ("path" in spec)
+		return { ...spec, path: path.resolve(baseDir, spec.path) };
+	if ("dir" in spec) return { ...spec, dir: path.resolve(baseDir, spec.dir) };
+	return spec;
+}
+
+/** `expected` as the text an LLM judge reads in place of `{{expected}}`. */
+export function renderExpected(expected: Expected | undefined): string {
+	switch (expected?.type) {
+		case undefined:
+			return "";
+		case "text":
+			return expected.text;
+		case "diff":
+			return expected.diff;
+		case "files":
+			return Object.entries(expected.files)
+				.map(([file, content]) => `--- ${file} ---\n${content}`)
+				.join("\n\n");
+	}
+}
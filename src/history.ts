@@ -0,0 +1,267 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { execa } from "execa";
+import fs from "fs-extra";
+import { formatUsd } from "./cost";
+import type { EvalConfig } from "./runner";
+import type { EvalResult, HistoryEntry } from "./types";
+
+/** The history index every run with a resultsDir appends to. */
+export const HISTORY_FILE = "history.jsonl";
+
+/** JSON with object keys sorted and functions dropped, for hashing. */
+function canonicalJson(value: unknown): string {
+	return JSON.stringify(value, (_key, v) => {
+		if (typeof v === "function") return undefined;
+		if (v && typeof v === "object" && !Array.isArray(v)) {
+			return Object.fromEntries(
+				Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+			);
+		}
+		return v;
+	});
+}
+
+/**
+ * Short hash of what an eval measures: its prompts, scorers (by name), agent,
+ * iterations, execution and the options that shape each run. Output and
+ * reporting settings (resultsDir, verbose, budget, …) leave it unchanged, so
+ * runs with the same hash are comparable.
+ */
+export function configHash(config: EvalConfig): string {
+	const scorerNames = (scorers?: { name: string }[]) =>
+		scorers?.map((s) => s.name);
+	const identity = {
+		name: config.name,
+		prompts: config.prompts.map((p) => ({
+			...p,
+			scorers: scorerNames(p.scorers),
+		})),
+		iterations: config.iterations,
+		execution: config.execution,
+		timeout: config.timeout,
+		scorers: scorerNames(config.scorers),
+		agent:
+			typeof config.agent === "object"
+				? config.agent.id
+				: (config.agent ?? "claude-code"),
+		agentId: config.agentId,
+		claudeCodeOptions: config.claudeCodeOptions,
+		environmentVariables:
+			typeof config.environmentVariables === "function"
+				? "generated"
+				: config.environmentVariables,
+		userSimulator: config.userSimulator,
+		passThreshold: config.passThreshold,
+	};
+	return createHash("sha256")
+		.update(canonicalJson(identity))
+		.digest("hex")
+		.slice(0, 12);
+}
+
+/** HEAD of the git repository holding `dir`; undefined outside one. */
+export async function gitCommit(dir: string): Promise<string | undefined> {
+	try {
+		const { stdout } = await execa("git", ["rev-parse", "HEAD"], { cwd: dir });
+		return stdout.trim() || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** The history line for `result`, with what identifies the run. */
+export function historyEntry(
+	result: EvalResult,
+	identity: Pick<HistoryEntry, "configHash" | "gitCommit" | "resultsPath">,
+): HistoryEntry {
+	const scorers: HistoryEntry["scorers"] = {};
+	for (const [name, agg] of Object.entries(result.aggregateScores)) {
+		if (name === "_overall") continue;
+		scorers[name] = { mean: agg.mean, passRate: agg.passRate };
+	}
+	return {
+		evalName: result.evalName,
+		agentId: result.agentId,
+		timestamp: result.timestamp,
+		...identity,
+		runs: result.iterations.length,
+		passRate: result.aggregateScores._overall?.passRate ?? 0,
+		duration: result.duration,
+		costUsd: result.costUsd,
+		scorers,
+	};
+}
+
+/** Append `entry` to the history index under `resultsDir`. */
+export async function appendHistory(
+	resultsDir: string,
+	entry: HistoryEntry,
+): Promise<void> {
+	await fs.ensureDir(resultsDir);
+	await fs.appendFile(
+		path.join(resultsDir, HISTORY_FILE),
+		`${JSON.stringify(entry)}\n`,
+		"utf-8",
+	);
+}
+
+/** Runs are grouped, limited and reported per eval and agent. */
+const groupKey = (entry: HistoryEntry) =>
+	`${entry.evalName}\u0000${entry.agentId}`;
+
+/**
+ * The history under `resultsDir`, oldest first, optionally only one eval's
+ * or one agent's, and only the latest `limit` runs of each eval and agent.
+ * Empty when nothing was recorded; unparseable lines (say, a write cut
+ * short) are skipped.
+ */
+export async function readHistory(
+	resultsDir: string,
+	filter: { evalName?: string; agentId?: string; limit?: number } = {},
+): Promise<HistoryEntry[]> {
+	let text: string;
+	try {
+		text = await fs.readFile(path.join(resultsDir, HISTORY_FILE), "utf-8");
+	} catch {
+		return [];
+	}
+	const entries: HistoryEntry[] = [];
+	for (const line of text.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			entries.push(JSON.parse(line));
+		} catch {
+			// A partial line from an interrupted append
+		}
+	}
+	const matching = entries
+		.filter(
+			(e) =>
+				(filter.evalName === undefined || e.evalName === filter.evalName) &&
+				(filter.agentId === undefined || e.agentId === filter.agentId),
+		)
+		.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+	if (filter.limit === undefined) return matching;
+
+	const kept: HistoryEntry[] = [];
+	const seen = new Map<string, number>();
+	for (const entry of [...matching].reverse()) {
+		const key = groupKey(entry);
+		const count = seen.get(key) ?? 0;
+		if (count >= filter.limit) continue;
+		seen.set(key, count + 1);
+		kept.unshift(entry);
+	}
+	return kept;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** `60.0% → 80.0% → 100.0% (+40.0 pts)`: a series and its overall change. */
+function trend(
+	values: (number | undefined)[],
+	format: (value: number) => string,
+	delta: (value: number) => string,
+): string {
+	const known = values.filter((v): v is number => v !== undefined);
+	if (known.length === 0) return "—";
+	const series = known.map(format).join(" → ");
+	if (known.length === 1) return series;
+	const change = known[known.length - 1] - known[0];
+	return `${series} (${change >= 0 ? "+" : "-"}${delta(Math.abs(change))})`;
+}
+
+/**
+ * Trend report per eval and agent, oldest run first: a row per run with its
+ * commit, config hash, pass rate, duration and cost, then each scorer's pass
+ * rate and mean across those runs, and the duration and cost trends.
+ */
+export function formatHistory(entries: HistoryEntry[]): string {
+	if (entries.length === 0) return "No runs recorded yet.\n";
+	const groups = new Map<string, HistoryEntry[]>();
+	for (const entry of entries) {
+		const key = groupKey(entry);
+		groups.set(key, [...(groups.get(key) ?? []), entry]);
+	}
+
+	const lines: string[] = [];
+	for (const runs of groups.values()) {
+		const { evalName, agentId } = runs[0];
+		lines.push(`${evalName} (${agentId}): ${runs.length} run(s)`);
+		lines.push("");
+		const rows = [
+			["Date", "Commit", "Config", "Runs", "Pass Rate", "Duration", "Cost"],
+			...runs.map((e) => [
+				e.timestamp.replace("T", " ").slice(0, 19),
+				e.gitCommit?.slice(0, 7) ?? "—",
+				e.configHash,
+				String(e.runs),
+				pct(e.passRate),
+				`${(e.duration / 1000).toFixed(1)}s`,
+				e.costUsd === undefined ? "—" : formatUsd(e.costUsd),
+			]),
+		];
+		const widths = rows[0].map((_, i) =>
+			Math.max(...rows.map((row) => row[i].length)),
+		);
+		for (const row of rows) {
+			lines.push(
+				`  ${row
+					.map((cell, i) => cell.padEnd(widths[i]))
+					.join("  ")
+					.trimEnd()}`,
+			);
+		}
+		lines.push("");
+
+		const points = (value: number) => `${(value * 100).toFixed(1)} pts`;
+		const scorerNames = [
+			...new Set(runs.flatMap((e) => Object.keys(e.scorers))),
+		];
+		const labels = ["_overall", ...scorerNames, "duration", "cost"];
+		const width = Math.max(...labels.map((label) => label.length));
+		const trendLine = (label: string, text: string) =>
+			lines.push(`  ${label.padEnd(width)}  ${text}`);
+		trendLine(
+			"_overall",
+			`pass rate ${trend(
+				runs.map((e) => e.passRate),
+				pct,
+				points,
+			)}`,
+		);
+		for (const name of scorerNames) {
+			const passRate = trend(
+				runs.map((e) => e.scorers[name]?.passRate),
+				pct,
+				points,
+			);
+			const mean = trend(
+				runs.map((e) => e.scorers[name]?.mean),
+				(v) => v.toFixed(3),
+				(v) => v.toFixed(3),
+			);
+			trendLine(name, `pass rate ${passRate}, mean ${mean}`);
+		}
+		const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+		trendLine(
+			"duration",
+			trend(
+				runs.map((e) => e.duration),
+				seconds,
+				seconds,
+			),
+		);
+		trendLine(
+			"cost",
+			trend(
+				runs.map((e) => e.costUsd),
+				formatUsd,
+				formatUsd,
+			),
+		);
+		lines.push("");
+	}
+	return lines.join("\n");
+}
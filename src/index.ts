@@ -1,30 +1,65 @@
 // Core runner
 
+// Adaptive iterations
+export { adaptiveStatus } from "./adaptive";
+// Agent adapters
+export { ClaudeCodeAgent } from "./agents/claude-code";
+export {
+	CliAgent,
+	type CliAgentOptions,
+	type CliOutputParser,
+	OUTPUT_PARSERS,
+} from "./agents/cli";
+export { AGENTS } from "./agents/registry";
+export { ReplayAgent, type ReplayConfig } from "./agents/replay";
+
+// Budget guardrails
+export { BUDGET_EXCEEDED } from "./budget";
+// Cost accounting
+export { usageCost } from "./cost";
 // Environment variable utilities
 export {
 	generateEnvironmentVariables,
 	validateEnvironmentVariables,
 } from "./env-generator";
+// Dataset loading
+export { loadDataset } from "./eval-config-loader";
+export { loadExpected, renderExpected } from "./expected";
+// Results history
+export { configHash, formatHistory, readHistory } from "./history";
 // Results writer utilities
 export {
+	formatRegression,
 	formatResultsAsGitHubSummary,
+	formatResultsAsHtml,
 	formatResultsAsJson,
 	formatResultsAsJUnit,
 	formatResultsAsMarkdown,
+	iterationArtifactName,
+	resultsRunDir,
 	writeResults,
 	writeResultsAsJson,
 } from "./results-writer";
 export {
+	comparePrompts,
+	compareResults,
 	type EvalConfig,
 	isScorePassing,
 	runClaudeCodeEval,
 } from "./runner";
-export { SkillPickedUpScorer } from "./scorers/agent";
+export {
+	QuestionsAskedScorer,
+	SkillPickedUpScorer,
+	ToolUsageScorer,
+} from "./scorers/agent";
 // Base scorer class and built-in scorers
 export { BaseScorer } from "./scorers/base";
+export type { Diagnostic } from "./scorers/baseline";
 export {
+	ClarifyingQuestions,
 	CodeQuality,
 	InstructionFollowing,
+	MatchesReference,
 	Security,
 } from "./scorers/classifiers";
 export {
@@ -32,24 +67,81 @@ export {
 	LintSuccessScorer,
 	TestSuccessScorer,
 } from "./scorers/code";
-export { DiffContainsScorer } from "./scorers/diff";
+export { CoverageScorer } from "./scorers/coverage";
+export {
+	DiffContainsScorer,
+	type DiffFile,
+	DiffSimilarityScorer,
+	parseDiff,
+} from "./scorers/diff";
 export { FileScorer } from "./scorers/file";
+export { HiddenTestScorer } from "./scorers/hidden-tests";
+export { LintBaselineScorer } from "./scorers/lint";
 export { LLMClassifierScorer } from "./scorers/llm-classifier";
+export { ReferenceMatchScorer } from "./scorers/reference";
 export { BUILTINS } from "./scorers/registry";
+export type { DatasetConfig, DatasetFormat } from "./scorers/schema";
+export {
+	detectTestReport,
+	parseJestJson,
+	parseJUnit,
+	parseTap,
+	type TestCaseResult,
+} from "./scorers/test-report";
+export { TypecheckScorer } from "./scorers/typecheck";
+// Local dashboard
+export { createDashboardServer, listRuns } from "./serve";
+// Statistics for comparing prompt variants and reliability
+export {
+	bootstrapMeanDiffCI,
+	fisherExactTest,
+	mannWhitneyU,
+	passAtK,
+	passHatK,
+	wilsonInterval,
+} from "./stats";
 // User-facing types
 export type {
+	AdaptiveIterations,
+	AdaptiveStatus,
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
 	AggregateScore,
+	BaselineComparison,
+	BaselineReport,
+	BudgetLimits,
 	Choice,
 	ClassifierSpec,
+	ComparisonStat,
+	ConversationTurn,
 	EnvGeneratorContext,
+	EvalBudget,
 	EvalResult,
 	ExecCommandOptions,
 	ExecutionConfig,
 	ExecutionMode,
+	Expected,
+	ExpectedSpec,
+	HistoryEntry,
+	IterationArtifacts,
 	IterationResult,
+	ModelPricing,
+	PromptComparison,
+	PromptConfig,
+	RunSummary,
 	Scorer,
 	ScorerContext,
 	ScorerResult,
+	SimulatedUserMessage,
 	TempDirCleanup,
 	TokenUsage,
+	TurnContext,
+	UserSimulatorRule,
+	UserSimulatorSpec,
 } from "./types";
+export {
+	extractQuestions,
+	simulatedExchanges,
+	UserSimulator,
+} from "./user-simulator";
@@ -1,6 +1,16 @@
 import path from "node:path";
 import fs from "fs-extra";
-import type { EvalResult, IterationResult } from "./types";
+import { formatUsd, sumCosts } from "./cost";
+import type {
+	AggregateScore,
+	BaselineComparison,
+	BaselineReport,
+	ComparisonStat,
+	EvalResult,
+	IterationResult,
+	PromptComparison,
+	ScorerResult,
+} from "./types";
 
 /**
  * Format a timestamp as YYYY-MM-DD-HHMMSS for filenames
@@ -31,6 +41,32 @@ function escapeMarkdownCell(value: string): string {
 	return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
 }
 
+/**
+ * File name for a per-iteration artifact in a results directory, e.g.
+ * `iteration-v1-0.log` or `iteration-v1-0.patch`. Replay looks patches up by
+ * this name, so it is the single source of truth for the convention.
+ */
+export function iterationArtifactName(
+	iteration: Pick<IterationResult, "promptId" | "iterationId">,
+	extension: string,
+): string {
+	return `iteration-${iteration.promptId}-${iteration.iterationId}.${extension}`;
+}
+
+/**
+ * Directory `writeResults` creates for a run: `{outputDir}/{evalName}-{timestamp}`.
+ * The runner resolves it up front so iterations can write their artifacts
+ * into it before the results themselves are written.
+ */
+export function resultsRunDir(
+	result: Pick<EvalResult, "evalName" | "timestamp">,
+	outputDir: string,
+): string {
+	const sanitizedName = sanitizeForFilename(result.evalName);
+	const formattedTimestamp = formatTimestampForFilename(result.timestamp);
+	return path.join(outputDir, `${sanitizedName}-${formattedTimestamp}`);
+}
+
 /**
  * Per-prompt pass-rate breakdown, shared by the Markdown and GitHub-summary
  * formatters so they can't drift.
@@ -49,6 +85,175 @@ function perPromptStats(
 	});
 }
 
+/** `+12.5` / `-3.0`: a difference with its sign; `+0.0` when it rounds to zero. */
+function signed(value: number, digits: number): string {
+	const magnitude = Math.abs(value).toFixed(digits);
+	return `${value < 0 && Number(magnitude) !== 0 ? "-" : "+"}${magnitude}`;
+}
+
+/**
+ * A difference and its CI: pass rates in percentage points
+ * (`+40.0 [-20.0, +80.0]`), scores as-is to three decimals.
+ */
+function formatDiff(stat: ComparisonStat, kind: "passRate" | "score"): string {
+	const [scale, digits] = kind === "passRate" ? [100, 1] : [1, 3];
+	const values = [stat.diff, ...stat.ci].map((v) => signed(v * scale, digits));
+	return `${values[0]} [${values[1]}, ${values[2]}]`;
+}
+
+/** A p-value, bold when significant. */
+function formatPValue(stat: ComparisonStat): string {
+	const p = stat.pValue.toFixed(3);
+	return stat.significant ? `**${p}**` : p;
+}
+
+/**
+ * The statistics cells of a comparison table row: pass rates, their
+ * difference and p-value, then the same for mean scores ("—" without).
+ */
+function comparisonCells(
+	passRate: ComparisonStat,
+	score: ComparisonStat | undefined,
+): string[] {
+	const scoreCells = score
+		? [
+				`${score.baseline.toFixed(3)} → ${score.candidate.toFixed(3)}`,
+				formatDiff(score, "score"),
+				formatPValue(score),
+			]
+		: ["—", "—", "—"];
+	return [
+		`${(passRate.baseline * 100).toFixed(1)}% → ${(passRate.candidate * 100).toFixed(1)}%`,
+		formatDiff(passRate, "passRate"),
+		formatPValue(passRate),
+		...scoreCells,
+	];
+}
+
+/**
+ * One line per regression, naming what dropped, e.g.
+ * `quality [v2]: pass rate 100.0% → 40.0% (p=0.011)`.
+ */
+export function formatRegression(c: BaselineComparison): string {
+	const drops: string[] = [];
+	if (c.passRate.significant && c.passRate.diff < 0) {
+		drops.push(
+			`pass rate ${(c.passRate.baseline * 100).toFixed(1)}% → ${(c.passRate.candidate * 100).toFixed(1)}% (p=${c.passRate.pValue.toFixed(3)})`,
+		);
+	}
+	if (c.score?.significant && c.score.diff < 0) {
+		drops.push(
+			`mean score ${c.score.baseline.toFixed(3)} → ${c.score.candidate.toFixed(3)} (p=${c.score.pValue.toFixed(3)})`,
+		);
+	}
+	const where = c.promptId === undefined ? "" : ` [${c.promptId}]`;
+	return `${c.scorer}${where}: ${drops.join("; ")}`;
+}
+
+/**
+ * The "Baseline Comparison" section: every scorer across all prompts, then
+ * per prompt, with regressions marked.
+ */
+function formatBaseline(baseline: BaselineReport): string[] {
+	const regressions = baseline.comparisons.filter((c) => c.regression).length;
+	const lines = ["## Baseline Comparison", ""];
+	lines.push(
+		`Against \`${baseline.results}\` (${new Date(baseline.timestamp).toLocaleString()}): ${regressions === 0 ? "no regressions" : `**${regressions} regression(s)**`}. Differences are current − baseline, tested as in the prompt comparison; a significant drop is a regression.`,
+	);
+	lines.push("");
+	lines.push(
+		"| Scorer | Prompt | Runs | Pass Rate | Δ Pass Rate | p | Mean Score | Δ Score | p | Status |",
+	);
+	lines.push(
+		"|--------|--------|------|-----------|-------------|---|------------|---------|---|--------|",
+	);
+	for (const c of baseline.comparisons) {
+		const improved =
+			(c.passRate.significant && c.passRate.diff > 0) ||
+			(c.score?.significant && c.score.diff > 0);
+		const cells = [
+			escapeMarkdownCell(c.scorer),
+			escapeMarkdownCell(c.promptId ?? "all"),
+			`${c.runs.baseline} / ${c.runs.current}`,
+			...comparisonCells(c.passRate, c.score),
+			c.regression ? "❌ regression" : improved ? "✅ improved" : "—",
+		];
+		lines.push(`| ${cells.join(" | ")} |`);
+	}
+	lines.push("");
+	return lines;
+}
+
+/** The k values any aggregate reports pass@k / pass^k for, ascending. */
+function reliabilityKs(
+	aggregateScores: Record<string, AggregateScore>,
+): number[] {
+	const ks = new Set<number>();
+	for (const agg of Object.values(aggregateScores)) {
+		for (const k of Object.keys(agg.passAtK ?? {})) ks.add(Number(k));
+	}
+	return [...ks].sort((a, b) => a - b);
+}
+
+/** pass@k and pass^k cells for each of `ks`; "—" where a k wasn't reached. */
+function reliabilityCells(agg: AggregateScore, ks: number[]): string[] {
+	const pct = (value: number | undefined) =>
+		value === undefined ? "—" : `${(value * 100).toFixed(1)}%`;
+	return ks.flatMap((k) => [pct(agg.passAtK?.[k]), pct(agg.passHatK?.[k])]);
+}
+
+/** Summary bullets: one per k, e.g. `- **pass@3 / pass^3**: 93.3% / 26.7%`. */
+function reliabilityBullets(overall: AggregateScore | undefined): string[] {
+	if (!overall?.passAtK) return [];
+	return reliabilityKs({ _overall: overall }).map(
+		(k) =>
+			`- **pass@${k} / pass^${k}**: ${reliabilityCells(overall, [k]).join(" / ")}`,
+	);
+}
+
+/** Header and separator rows of a scorer table with pass@k / pass^k columns. */
+function scorerTableHeader(ks: number[]): string[] {
+	const columns = ks.flatMap((k) => [`pass@${k}`, `pass^${k}`]);
+	return [
+		`| Scorer | Pass Rate |${columns.map((c) => ` ${c} |`).join("")}`,
+		`|--------|-----------|${columns.map((c) => `${"-".repeat(c.length + 2)}|`).join("")}`,
+	];
+}
+
+/**
+ * The "Prompt Comparison" section: one table per prompt compared against
+ * the first, one row per scorer.
+ */
+function formatComparisons(comparisons: PromptComparison[]): string[] {
+	const lines = ["## Prompt Comparison", ""];
+	lines.push(
+		"Differences are candidate − baseline with bootstrap 95% confidence intervals; pass rates in percentage points (Fisher's exact test), scores as means (Mann-Whitney U test). **Bold** p-values are significant at p < 0.05.",
+	);
+	lines.push("");
+	const candidates = [...new Set(comparisons.map((c) => c.candidate))];
+	for (const candidate of candidates) {
+		const rows = comparisons.filter((c) => c.candidate === candidate);
+		lines.push(`### ${candidate} vs ${rows[0].baseline}`);
+		lines.push("");
+		lines.push(
+			"| Scorer | Runs | Pass Rate | Δ Pass Rate | p | Mean Score | Δ Score | p |",
+		);
+		lines.push(
+			"|--------|------|-----------|-------------|---|------------|---------|---|",
+		);
+		for (const c of rows) {
+			const cells = [
+				escapeMarkdownCell(c.scorer),
+				`${c.runs.baseline} / ${c.runs.candidate}`,
+				...comparisonCells(c.passRate, c.score),
+			];
+			lines.push(`| ${cells.join(" | ")} |`);
+		}
+		lines.push("");
+	}
+	return lines;
+}
+
 /**
  * Format a single iteration's output as a log file
  */
@@ -146,6 +351,9 @@ function formatIterationLog(iteration: IterationResult): string {
 			(iteration.tokenUsage.cacheReadInputTokens || 0);
 		const total = totalInput + iteration.tokenUsage.outputTokens;
 		lines.push(`Total: ${total.toLocaleString()} tokens`);
+		if (iteration.costUsd !== undefined) {
+			lines.push(`Cost: ${formatUsd(iteration.costUsd)}`);
+		}
 		lines.push("");
 	}
 
@@ -176,6 +384,10 @@ export function formatResultsAsMarkdown(result: EvalResult): string {
 			`- **Pass Rate**: ${(result.aggregateScores._overall.passRate * 100).toFixed(1)}%`,
 		);
 	}
+	lines.push(...reliabilityBullets(result.aggregateScores._overall));
+	if (result.costUsd !== undefined) {
+		lines.push(`- **Cost**: ${formatUsd(result.costUsd)}`);
+	}
 	if (result.error) {
 		lines.push(`- **Error**: ${result.error}`);
 	}
@@ -187,26 +399,40 @@ export function formatResultsAsMarkdown(result: EvalResult): string {
 		lines.push("## Prompts Tested");
 		lines.push("");
 		for (const { promptId, passRate, runs } of promptStats) {
+			const stopped = result.adaptive?.[promptId]?.stopped;
 			lines.push(
-				`- **${promptId}**: ${(passRate * 100).toFixed(1)}% pass rate (${runs} runs)`,
+				`- **${promptId}**: ${(passRate * 100).toFixed(1)}% pass rate (${runs} runs${stopped ? `, adaptive: ${stopped}` : ""})`,
 			);
 		}
 		lines.push("");
 	}
 
+	if (result.comparisons?.length) {
+		lines.push(...formatComparisons(result.comparisons));
+	}
+
+	if (result.baseline) {
+		lines.push(...formatBaseline(result.baseline));
+	}
+
 	// Aggregate scores table (exclude _overall)
 	const scorerNames = Object.keys(result.aggregateScores).filter(
 		(name) => name !== "_overall",
 	);
 	if (scorerNames.length > 0) {
+		const ks = reliabilityKs(result.aggregateScores);
 		lines.push("## Scorer Summary");
 		lines.push("");
-		lines.push("| Scorer | Pass Rate |");
-		lines.push("|--------|-----------|");
+		lines.push(...scorerTableHeader(ks));
 
 		for (const name of scorerNames) {
 			const agg = result.aggregateScores[name];
-			lines.push(`| ${name} | ${(agg.passRate * 100).toFixed(1)}% |`);
+			const cells = [
+				name,
+				`${(agg.passRate * 100).toFixed(1)}%`,
+				...reliabilityCells(agg, ks),
+			];
+			lines.push(`| ${cells.join(" | ")} |`);
 		}
 		lines.push("");
 	}
@@ -263,6 +489,10 @@ export function formatResultsAsMarkdown(result: EvalResult): string {
 		for (const iter of result.iterations) {
 			lines.push(`#### Iteration ${iter.iterationId}`);
 			lines.push("");
+			if (iter.costUsd !== undefined) {
+				lines.push(`**Cost**: ${formatUsd(iter.costUsd)}`);
+				lines.push("");
+			}
 			if (iter.error) {
 				lines.push(`**Error**: ${iter.error}`);
 				lines.push("");
@@ -283,6 +513,13 @@ export function formatResultsAsMarkdown(result: EvalResult): string {
 				lines.push(`**Working Directory**: \`${iter.workingDir}\``);
 				lines.push("");
 			}
+			if (iter.artifacts) {
+				const files = [iter.artifacts.patch, iter.artifacts.snapshot]
+					.filter(Boolean)
+					.map((file) => `\`${file}\``);
+				lines.push(`**Artifacts**: ${files.join(", ")}`);
+				lines.push("");
+			}
 		}
 	}
 
@@ -306,7 +543,7 @@ export function formatResultsAsMarkdown(result: EvalResult): string {
 /**
  * Escape a string for safe inclusion in XML text or attribute values.
  */
-function escapeXml(value: string): string {
+export function escapeXml(value: string): string {
 	return value
 		.replace(/&/g, "&amp;")
 		.replace(/</g, "&lt;")
@@ -315,12 +552,18 @@ function escapeXml(value: string): string {
 		.replace(/'/g, "&apos;");
 }
 
+/** JUnit `<properties>` carrying a USD cost, for a testsuite or testcase. */
+function costProperties(costUsd: number): string {
+	return `<properties><property name="cost_usd" value="${costUsd.toFixed(6)}" /></properties>`;
+}
+
 /**
  * Format evaluation results as JUnit XML.
  *
  * One `<testsuite>` per promptId, one `<testcase>` per iteration. A failed
  * iteration gets a `<failure>` carrying the failing-scorer names + reasons
- * (or the iteration error). The synthetic `_overall` aggregate is excluded.
+ * (or the iteration error). Known costs are `cost_usd` properties on the
+ * suite and case. The synthetic `_overall` aggregate is excluded.
  */
 export function formatResultsAsJUnit(result: EvalResult): string {
 	const promptIds = [...new Set(result.iterations.map((i) => i.promptId))];
@@ -345,17 +588,26 @@ export function formatResultsAsJUnit(result: EvalResult): string {
 		lines.push(
 			`  <testsuite name="${escapeXml(promptId)}" tests="${iterations.length}" failures="${failures}" time="${suiteTime}">`,
 		);
+		const suiteCost = sumCosts(iterations.map((i) => i.costUsd));
+		if (suiteCost !== undefined) {
+			lines.push(`    ${costProperties(suiteCost)}`);
+		}
 
 		for (const iter of iterations) {
 			const caseName = `iteration ${iter.iterationId}`;
 			const caseTime = (iter.duration / 1000).toFixed(3);
 			const classname = `${result.evalName}.${promptId}`;
+			const opening = `    <testcase name="${escapeXml(caseName)}" classname="${escapeXml(classname)}" time="${caseTime}"`;
 
-			if (iter.success) {
-				lines.push(
-					`    <testcase name="${escapeXml(caseName)}" classname="${escapeXml(classname)}" time="${caseTime}" />`,
-				);
-			} else {
+			if (iter.success && iter.costUsd === undefined) {
+				lines.push(`${opening} />`);
+				continue;
+			}
+			lines.push(`${opening}>`);
+			if (iter.costUsd !== undefined) {
+				lines.push(`      ${costProperties(iter.costUsd)}`);
+			}
+			if (!iter.success) {
 				const failingScorers = Object.entries(iter.scores).filter(
 					([, s]) => s.score < 1,
 				);
@@ -372,14 +624,11 @@ export function formatResultsAsJUnit(result: EvalResult): string {
 				}
 				const body = bodyParts.join("\n");
 
-				lines.push(
-					`    <testcase name="${escapeXml(caseName)}" classname="${escapeXml(classname)}" time="${caseTime}">`,
-				);
 				lines.push(
 					`      <failure message="${escapeXml(message)}">${escapeXml(body)}</failure>`,
 				);
-				lines.push("    </testcase>");
 			}
+			lines.push("    </testcase>");
 		}
 
 		lines.push("  </testsuite>");
@@ -413,8 +662,12 @@ export function formatResultsAsGitHubSummary(result: EvalResult): string {
 	if (overallPassRate !== undefined) {
 		lines.push(`- **Pass Rate**: ${(overallPassRate * 100).toFixed(1)}%`);
 	}
+	lines.push(...reliabilityBullets(result.aggregateScores._overall));
 	lines.push(`- **Iterations**: ${passedCount}/${total} passed`);
 	lines.push(`- **Duration**: ${(result.duration / 1000).toFixed(2)}s`);
+	if (result.costUsd !== undefined) {
+		lines.push(`- **Cost**: ${formatUsd(result.costUsd)}`);
+	}
 	if (result.error) {
 		lines.push(`- **Error**: ${result.error}`);
 	}
@@ -437,15 +690,48 @@ export function formatResultsAsGitHubSummary(result: EvalResult): string {
 		(name) => name !== "_overall",
 	);
 	if (scorerNames.length > 0) {
+		const ks = reliabilityKs(result.aggregateScores);
 		lines.push("### Scorers");
 		lines.push("");
-		lines.push("| Scorer | Pass Rate |");
-		lines.push("|--------|-----------|");
+		lines.push(...scorerTableHeader(ks));
 		for (const name of scorerNames) {
 			const agg = result.aggregateScores[name];
+			const cells = [
+				escapeMarkdownCell(name),
+				`${(agg.passRate * 100).toFixed(1)}%`,
+				...reliabilityCells(agg, ks),
+			];
+			lines.push(`| ${cells.join(" | ")} |`);
+		}
+		lines.push("");
+	}
+
+	// Regressions against the baseline run
+	if (result.baseline) {
+		const regressions = result.baseline.comparisons.filter((c) => c.regression);
+		lines.push("### Baseline");
+		lines.push("");
+		if (regressions.length === 0) {
+			lines.push(`✅ No regressions vs \`${result.baseline.results}\`.`);
+		} else {
+			lines.push(
+				`❌ ${regressions.length} regression(s) vs \`${result.baseline.results}\`:`,
+			);
+			lines.push("");
+			lines.push(
+				"| Scorer | Prompt | Pass Rate | Δ Pass Rate | p | Mean Score | Δ Score | p |",
+			);
 			lines.push(
-				`| ${escapeMarkdownCell(name)} | ${(agg.passRate * 100).toFixed(1)}% |`,
+				"|--------|--------|-----------|-------------|---|------------|---------|---|",
 			);
+			for (const c of regressions) {
+				const cells = [
+					escapeMarkdownCell(c.scorer),
+					escapeMarkdownCell(c.promptId ?? "all"),
+					...comparisonCells(c.passRate, c.score),
+				];
+				lines.push(`| ${cells.join(" | ")} |`);
+			}
 		}
 		lines.push("");
 	}
@@ -453,6 +739,457 @@ export function formatResultsAsGitHubSummary(result: EvalResult): string {
 	return `${lines.join("\n")}\n`;
 }
 
+/** Inline stylesheet of the HTML report; no external assets. */
+const HTML_STYLE = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 1200px; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.6rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #d0d7de; } h3 { font-size: 1rem; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+table.sortable th { cursor: pointer; user-select: none; }
+table.sortable th[data-dir="asc"]::after { content: " ▲"; }
+table.sortable th[data-dir="desc"]::after { content: " ▼"; }
+.badge { border-radius: 4px; color: #fff; font-size: 0.9rem; padding: 2px 8px; }
+.pass { color: #1a7f37; } .fail { color: #cf222e; }
+.badge.pass { background: #1a7f37; color: #fff; } .badge.fail { background: #cf222e; color: #fff; }
+.muted { color: #656d76; }
+details.iteration { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+details.iteration > summary { cursor: pointer; font-weight: 600; }
+pre { background: #f6f8fa; border-radius: 6px; margin: 0.25rem 0; overflow-x: auto; padding: 0.5rem; white-space: pre-wrap; word-break: break-word; }
+.diff { font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre; }
+.diff span { display: block; }
+.diff .add { background: #e6ffec; } .diff .del { background: #ffebe9; }
+.diff .hunk { color: #0969da; } .diff .meta { color: #656d76; }
+.file > summary { cursor: pointer; font-family: ui-monospace, monospace; }
+.msg { border-left: 3px solid #d0d7de; margin: 0.5rem 0; padding-left: 0.75rem; }
+.msg.assistant { border-color: #0969da; } .msg.user { border-color: #8250df; } .msg.result { border-color: #1a7f37; }
+.role { color: #656d76; font-size: 0.8rem; text-transform: uppercase; }
+details.tool { margin: 0.25rem 0 0.25rem 0.75rem; }
+details.tool > summary { cursor: pointer; font-family: ui-monospace, monospace; }
+pre.error { background: #ffebe9; }
+nav { margin-bottom: 1rem; }
+.columns { display: grid; gap: 1rem; grid-template-columns: 1fr 1fr; }
+form { margin: 0.5rem 0; }
+`;
+
+/**
+ * Inline script of the HTML report: click a `table.sortable` header to sort
+ * by that column (numerically by `data-sort` where set), and open the
+ * iteration a `#iteration-N` link points at.
+ */
+const HTML_SCRIPT = `
+for (const th of document.querySelectorAll("table.sortable th")) {
+  th.addEventListener("click", () => {
+    const table = th.closest("table");
+    const index = [...th.parentNode.children].indexOf(th);
+    const dir = th.dataset.dir === "asc" ? "desc" : "asc";
+    for (const other of table.querySelectorAll("th")) delete other.dataset.dir;
+    th.dataset.dir = dir;
+    const key = (row) => {
+      const cell = row.cells[index];
+      return cell.dataset.sort !== undefined ? Number(cell.dataset.sort) : cell.textContent;
+    };
+    const rows = [...table.tBodies[0].rows].sort((a, b) => {
+      const x = key(a), y = key(b);
+      const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+      return dir === "asc" ? order : -order;
+    });
+    for (const row of rows) table.tBodies[0].appendChild(row);
+  });
+}
+const openTarget = () => {
+  const target = location.hash && document.getElementById(location.hash.slice(1));
+  if (target && target.tagName === "DETAILS") target.open = true;
+};
+window.addEventListener("hashchange", openTarget);
+openTarget();
+`;
+
+/** A score to three decimals, colored by whether it passes its threshold. */
+function scoreHtml(score: ScorerResult): string {
+	const passed = score.score >= (score.passThreshold ?? 1.0);
+	return `<span class="${passed ? "pass" : "fail"}">${score.score.toFixed(3)}</span>`;
+}
+
+/**
+ * A page with the report's inline style and script around `body`; the
+ * `serve` dashboard builds its pages with it too.
+ */
+export function htmlDocument(title: string, body: string[]): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join("\n")}
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/** A `<td>` showing `html`, sorting by `sort` when given. */
+export function htmlCell(html: string, sort?: number): string {
+	return sort === undefined || Number.isNaN(sort)
+		? `<td>${html}</td>`
+		: `<td data-sort="${sort}">${html}</td>`;
+}
+
+/** A `<table>` of finished `<td>` rows; `sortable` makes its headers sort it. */
+export function htmlTable(
+	headers: string[],
+	rows: string[][],
+	sortable = true,
+): string {
+	return [
+		`<table${sortable ? ' class="sortable"' : ""}>`,
+		`<thead><tr>${headers.map((h) => `<th>${escapeXml(h)}</th>`).join("")}</tr></thead>`,
+		"<tbody>",
+		...rows.map((cells) => `<tr>${cells.join("")}</tr>`),
+		"</tbody>",
+		"</table>",
+	].join("\n");
+}
+
+/** A unified diff as one collapsible block per file, lines colored by kind. */
+function formatDiffHtml(diff: string | undefined): string {
+	if (!diff?.trim()) return '<p class="muted">No changes recorded.</p>';
+	const files = diff.split(/^(?=diff --git )/m).filter((f) => f.trim());
+	return files
+		.map((file) => {
+			const lines = file.replace(/\n$/, "").split("\n");
+			const name = /^diff --git a\/.* b\/(.*)$/.exec(lines[0])?.[1] ?? lines[0];
+			let added = 0;
+			let removed = 0;
+			const body = lines.map((line) => {
+				let kind = "ctx";
+				if (
+					/^(diff --git|index |new file|deleted file|similarity|rename |old mode|new mode|\+\+\+ |--- )/.test(
+						line,
+					)
+				) {
+					kind = "meta";
+				} else if (line.startsWith("@@")) {
+					kind = "hunk";
+				} else if (line.startsWith("+")) {
+					kind = "add";
+					added++;
+				} else if (line.startsWith("-")) {
+					kind = "del";
+					removed++;
+				}
+				return `<span class="${kind}">${escapeXml(line) || " "}</span>`;
+			});
+			return `<details class="file" open><summary>${escapeXml(name)} <span class="pass">+${added}</span> <span class="fail">−${removed}</span></summary><pre class="diff">${body.join("")}</pre></details>`;
+		})
+		.join("\n");
+}
+
+/** A content block of an SDK message, as far as the transcript reads it. */
+interface TranscriptBlock {
+	type?: string;
+	text?: string;
+	id?: string;
+	name?: string;
+	input?: Record<string, unknown>;
+	tool_use_id?: string;
+	content?: unknown;
+	is_error?: boolean;
+}
+
+/** A tool result's content as text: strings as-is, text blocks joined. */
+function toolResultText(content: unknown): string {
+	if (typeof content === "string") return content;
+	if (Array.isArray(content)) {
+		return content
+			.map((block: TranscriptBlock) =>
+				block?.type === "text" && typeof block.text === "string"
+					? block.text
+					: JSON.stringify(block),
+			)
+			.join("\n");
+	}
+	return content === undefined ? "" : JSON.stringify(content, null, 2);
+}
+
+/** The argument a tool call is about (file, command, pattern…), shortened. */
+function toolCallSubject(input: Record<string, unknown> = {}): string {
+	const subject = [
+		input.file_path,
+		input.command,
+		input.pattern,
+		input.path,
+		input.url,
+		input.description,
+	].find((v): v is string => typeof v === "string");
+	if (subject === undefined) return "";
+	return subject.length > 80 ? `${subject.slice(0, 79)}…` : subject;
+}
+
+/**
+ * `agentOutput` as a transcript: assistant and user text, each tool call
+ * collapsible with its input and result, simulated-user exchanges and the
+ * final result.
+ */
+function formatTranscriptHtml(agentOutput: string): string {
+	let messages: unknown;
+	try {
+		messages = JSON.parse(agentOutput);
+	} catch {
+		messages = undefined;
+	}
+	if (!Array.isArray(messages) || messages.length === 0) {
+		return '<p class="muted">No transcript recorded.</p>';
+	}
+
+	type Message = {
+		type?: string;
+		subtype?: string;
+		message?: { content?: unknown };
+		questions?: string[];
+		answer?: string;
+		num_turns?: number;
+		total_cost_usd?: number;
+		result?: string;
+	};
+	const blocksOf = (msg: Message): TranscriptBlock[] => {
+		const content = msg.message?.content;
+		if (typeof content === "string") return [{ type: "text", text: content }];
+		return Array.isArray(content) ? content : [];
+	};
+	const message = (role: string, body: string) =>
+		`<div class="msg ${role}"><div class="role">${escapeXml(role)}</div>${body}</div>`;
+
+	// Tool results arrive in later user messages; pair them by tool_use_id
+	const results = new Map<string, TranscriptBlock>();
+	for (const msg of messages as Message[]) {
+		if (msg?.type !== "user") continue;
+		for (const block of blocksOf(msg)) {
+			if (block.type === "tool_result" && block.tool_use_id) {
+				results.set(block.tool_use_id, block);
+			}
+		}
+	}
+
+	const parts: string[] = [];
+	for (const msg of messages as Message[]) {
+		if (msg?.type === "assistant" || msg?.type === "user") {
+			for (const block of blocksOf(msg)) {
+				if (block.type === "text" && block.text) {
+					parts.push(message(msg.type, `<pre>${escapeXml(block.text)}</pre>`));
+				} else if (block.type === "tool_use") {
+					const result = block.id ? results.get(block.id) : undefined;
+					const output = result
+						? `<pre${result.is_error ? ' class="error"' : ""}>${escapeXml(toolResultText(result.content))}</pre>`
+						: '<p class="muted">No result recorded.</p>';
+					parts.push(
+						`<details class="tool"><summary>🔧 ${escapeXml(block.name ?? "tool")} <span class="muted">${escapeXml(toolCallSubject(block.input))}</span>${result?.is_error ? ' <span class="fail">error</span>' : ""}</summary><pre>${escapeXml(JSON.stringify(block.input ?? {}, null, 2))}</pre>${output}</details>`,
+					);
+				}
+			}
+		} else if (msg?.type === "simulated_user") {
+			parts.push(
+				message(
+					"user",
+					`<pre>${escapeXml(`Q: ${(msg.questions ?? []).join(" ")}\nA: ${msg.answer ?? ""}`)}</pre>`,
+				),
+			);
+		} else if (msg?.type === "result") {
+			const details = [
+				msg.subtype,
+				msg.num_turns !== undefined ? `${msg.num_turns} turns` : undefined,
+				msg.total_cost_usd !== undefined
+					? formatUsd(msg.total_cost_usd)
+					: undefined,
+			].filter(Boolean);
+			parts.push(message("result", `<p>${escapeXml(details.join(" · "))}</p>`));
+		}
+	}
+	return parts.join("\n");
+}
+
+/**
+ * Format evaluation results as a self-contained HTML report: summary,
+ * sortable prompt, scorer and iteration tables, and per iteration a
+ * drill-down with scores, a diff viewer and a collapsible transcript built
+ * from `agentOutput`. Styles and scripts are inlined, so the file works as a
+ * standalone CI artifact.
+ */
+export function formatResultsAsHtml(result: EvalResult): string {
+	const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+	const seconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+	const status = (passed: boolean) =>
+		passed
+			? '<span class="pass">✓ PASS</span>'
+			: '<span class="fail">✗ FAIL</span>';
+	const overall = result.aggregateScores._overall;
+	const body: string[] = [];
+
+	// Summary
+	body.push(
+		`<h1>Eval: ${escapeXml(result.evalName)} <span class="badge ${result.success ? "pass" : "fail"}">${result.success ? "PASSED" : "FAILED"}</span></h1>`,
+	);
+	const summary = [
+		`<li><strong>Date</strong>: ${escapeXml(new Date(result.timestamp).toLocaleString())}</li>`,
+		`<li><strong>Agent</strong>: ${escapeXml(result.agentId)}</li>`,
+		`<li><strong>Duration</strong>: ${seconds(result.duration)}</li>`,
+		`<li><strong>Runs</strong>: ${result.iterations.filter((i) => i.success).length}/${result.iterations.length} passed</li>`,
+	];
+	if (overall) {
+		summary.push(
+			`<li><strong>Pass Rate</strong>: ${pct(overall.passRate)}</li>`,
+		);
+		for (const k of reliabilityKs({ _overall: overall })) {
+			summary.push(
+				`<li><strong>pass@${k} / pass^${k}</strong>: ${reliabilityCells(overall, [k]).join(" / ")}</li>`,
+			);
+		}
+	}
+	if (result.costUsd !== undefined) {
+		summary.push(
+			`<li><strong>Cost</strong>: ${formatUsd(result.costUsd)}</li>`,
+		);
+	}
+	if (result.tokenUsage) {
+		const { inputTokens, outputTokens } = result.tokenUsage;
+		summary.push(
+			`<li><strong>Tokens</strong>: ${inputTokens.toLocaleString()} in / ${outputTokens.toLocaleString()} out</li>`,
+		);
+	}
+	if (result.error) {
+		summary.push(
+			`<li><strong>Error</strong>: <span class="fail">${escapeXml(result.error)}</span></li>`,
+		);
+	}
+	body.push(`<ul>${summary.join("")}</ul>`);
+
+	// Prompts
+	body.push("<h2>Prompts</h2>");
+	body.push(
+		htmlTable(
+			["Prompt", "Runs", "Pass Rate"],
+			perPromptStats(result).map(({ promptId, passRate, runs }) => [
+				htmlCell(escapeXml(promptId)),
+				htmlCell(String(runs), runs),
+				htmlCell(pct(passRate), passRate),
+			]),
+		),
+	);
+
+	// Scorers
+	const scorerNames = Object.keys(result.aggregateScores).filter(
+		(name) => name !== "_overall",
+	);
+	if (scorerNames.length > 0) {
+		const ks = reliabilityKs(result.aggregateScores);
+		body.push("<h2>Scorers</h2>");
+		body.push(
+			htmlTable(
+				[
+					"Scorer",
+					"Pass Rate",
+					"Mean",
+					"Min",
+					"Max",
+					"Std Dev",
+					...ks.flatMap((k) => [`pass@${k}`, `pass^${k}`]),
+				],
+				scorerNames.map((name) => {
+					const agg = result.aggregateScores[name];
+					return [
+						htmlCell(escapeXml(name)),
+						htmlCell(pct(agg.passRate), agg.passRate),
+						...[agg.mean, agg.min, agg.max, agg.stdDev].map((v) =>
+							htmlCell(v.toFixed(3), v),
+						),
+						...ks.flatMap((k) =>
+							[agg.passAtK?.[k], agg.passHatK?.[k]].map((v) =>
+								v === undefined ? htmlCell("—", -1) : htmlCell(pct(v), v),
+							),
+						),
+					];
+				}),
+			),
+		);
+	}
+
+	// Iterations overview, linking to each drill-down
+	const iterationScorers = [
+		...new Set(result.iterations.flatMap((i) => Object.keys(i.scores))),
+	].sort();
+	if (result.iterations.length > 0) {
+		body.push("<h2>Iterations</h2>");
+		body.push(
+			htmlTable(
+				[
+					"Iteration",
+					"Prompt",
+					"Status",
+					"Duration",
+					"Cost",
+					...iterationScorers,
+				],
+				result.iterations.map((iteration) => [
+					htmlCell(
+						`<a href="#iteration-${iteration.iterationId}">${iteration.iterationId}</a>`,
+						iteration.iterationId,
+					),
+					htmlCell(escapeXml(iteration.promptId)),
+					htmlCell(status(iteration.success), iteration.success ? 1 : 0),
+					htmlCell(seconds(iteration.duration), iteration.duration),
+					iteration.costUsd === undefined
+						? htmlCell("—", -1)
+						: htmlCell(formatUsd(iteration.costUsd), iteration.costUsd),
+					...iterationScorers.map((name) => {
+						const score = iteration.scores[name];
+						return score
+							? htmlCell(scoreHtml(score), score.score)
+							: htmlCell("—", -1);
+					}),
+				]),
+			),
+		);
+
+		body.push("<h2>Iteration Details</h2>");
+		for (const iteration of result.iterations) {
+			const scores = Object.entries(iteration.scores);
+			body.push(
+				`<details class="iteration" id="iteration-${iteration.iterationId}">`,
+				`<summary>Iteration ${iteration.iterationId} · ${escapeXml(iteration.promptId)} · ${status(iteration.success)} · ${seconds(iteration.duration)}</summary>`,
+			);
+			if (iteration.error) {
+				body.push(`<pre class="error">${escapeXml(iteration.error)}</pre>`);
+			}
+			if (scores.length > 0) {
+				body.push("<h3>Scores</h3>");
+				body.push(
+					htmlTable(
+						["Scorer", "Score", "Reason"],
+						scores.map(([name, score]) => [
+							htmlCell(escapeXml(name)),
+							htmlCell(scoreHtml(score), score.score),
+							htmlCell(escapeXml(score.reason)),
+						]),
+						false,
+					),
+				);
+			}
+			body.push("<h3>Diff</h3>", formatDiffHtml(iteration.diff));
+			body.push(
+				"<h3>Transcript</h3>",
+				formatTranscriptHtml(iteration.agentOutput),
+			);
+			body.push("</details>");
+		}
+	}
+
+	return htmlDocument(`Eval: ${result.evalName}`, body);
+}
+
 /**
  * Format evaluation results as a pretty-printed JSON string. Single source of
  * truth for the on-disk JSON shape.
@@ -487,10 +1224,7 @@ export async function writeResults(
 	await fs.ensureDir(outputDir);
 
 	// Generate directory name: {evalName}-{timestamp}
-	const sanitizedName = sanitizeForFilename(result.evalName);
-	const formattedTimestamp = formatTimestampForFilename(result.timestamp);
-	const dirName = `${sanitizedName}-${formattedTimestamp}`;
-	const dirPath = path.join(outputDir, dirName);
+	const dirPath = resultsRunDir(result, outputDir);
 
 	// Create the results directory
 	await fs.ensureDir(dirPath);
@@ -509,7 +1243,7 @@ export async function writeResults(
 	// Write per-iteration logs
 	for (const iteration of result.iterations) {
 		const logContent = formatIterationLog(iteration);
-		const logFilename = `iteration-${iteration.promptId}-${iteration.iterationId}.log`;
+		const logFilename = iterationArtifactName(iteration, "log");
 		await fs.writeFile(path.join(dirPath, logFilename), logContent, "utf-8");
 	}
 
@@ -1,35 +1,85 @@
 import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
-import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
-import { type Options, query } from "@anthropic-ai/claude-agent-sdk";
+import type { Options, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import { execa } from "execa";
 import fs from "fs-extra";
+import { adaptiveStatus, nextAdaptiveRound } from "./adaptive";
+import { resolveAgent } from "./agents/registry";
+import { ReplayAgent, type ReplayConfig } from "./agents/replay";
+import { BUDGET_EXCEEDED, BudgetTracker, usageTokens } from "./budget";
+import {
+	appendCheckpoint,
+	CHECKPOINT_FILE,
+	readCheckpoint,
+	writeCheckpoint,
+} from "./checkpoint";
+import { formatUsd, sumCosts, usageCost } from "./cost";
 import {
 	generateEnvironmentVariables,
 	validateEnvironmentVariables,
 } from "./env-generator";
+import { loadExpected } from "./expected";
+import {
+	appendHistory,
+	configHash,
+	gitCommit,
+	HISTORY_FILE,
+	historyEntry,
+} from "./history";
 import { installProjectDependencies } from "./install-deps";
-import { writeResults } from "./results-writer";
+import {
+	formatRegression,
+	iterationArtifactName,
+	resultsRunDir,
+	writeResults,
+} from "./results-writer";
 import { buildExecCommand } from "./scorers/factories";
+import { finalTextFrom } from "./scorers/llm-classifier";
+import {
+	compareSamples,
+	fisherExactTest,
+	mannWhitneyU,
+	passAtK,
+	passHatK,
+} from "./stats";
 import type {
+	AdaptiveIterations,
+	AdaptiveStatus,
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
 	AggregateScore,
+	BaselineComparison,
+	BaselineReport,
+	ComparisonStat,
 	EnvGeneratorContext,
+	EvalBudget,
 	EvalResult,
 	ExecutionConfig,
+	IterationArtifacts,
 	IterationResult,
+	ModelPricing,
+	PromptComparison,
+	PromptConfig,
 	Scorer,
+	ScorerContext,
 	ScorerResult,
+	SimulatedUserMessage,
 	TempDirCleanup,
 	TokenUsage,
+	UserSimulatorSpec,
 } from "./types";
+import {
+	extractQuestions,
+	finalReplyFrom,
+	UserSimulator,
+} from "./user-simulator";
 
 export interface EvalConfig {
 	name: string;
-	prompts: Array<{
-		id: string; // Unique identifier for this prompt variant
-		prompt: string; // The actual prompt text
-	}>;
+	prompts: PromptConfig[];
 	projectDir: string; // Path to user's codebase (original, untouched)
 
 	iterations?: number; // Default: 1
@@ -38,13 +88,24 @@ export interface EvalConfig {
 
 	timeout?: number; // Default: 600000ms (10 minutes)
 	scorers?: Scorer[];
-	agentId?: string; // Default: 'claude-code'. Identifier for the agent/model being evaluated
-	claudeCodeOptions?: Options;
+	agent?: string | AgentAdapter; // Default: 'claude-code'. Registered agent name or an inline adapter
+	agentId?: string; // Default: the agent's id. Identifier for the agent/model being evaluated
+	claudeCodeOptions?: Options; // Passthrough to the Agent SDK when the agent is 'claude-code'
+
 	verbose?: boolean; // Default: false. Show detailed SDK message logs when true
 	tempDirCleanup?: TempDirCleanup; // Default: 'always'. Controls when temp directories are deleted
 	resultsDir?: string; // Optional: Directory to write markdown results file
+	snapshot?: boolean; // Default: false. With resultsDir, also archive each iteration's changed files as .tar.gz
 	passThreshold?: number; // 0..1; CLI exits 0 when _overall.passRate >= this. Default 1.0
 	installDependencies?: boolean; // Default: true. Set false to skip package installation
+	baseline?: string; // Optional: a previous results.json to compare against; significant drops are regressions
+	replay?: ReplayConfig; // Optional: re-score a recorded run's diffs instead of running the agent
+	userSimulator?: UserSimulatorSpec; // Optional: answer the agent's clarifying questions mid-run
+	pricing?: Record<string, ModelPricing>; // Optional: USD per million tokens by model (or agentId), for agents that report no cost
+	compare?: boolean; // Default: true, or false when prompts come from a dataset. Compare each prompt against the first
+	passAtK?: number[]; // Optional: k values to report pass@k / pass^k for in the aggregate scores
+	budget?: EvalBudget; // Optional: token / USD / turn limits per iteration and in total; over them, iterations abort with BUDGET_EXCEEDED
+	resume?: string; // Optional: a run directory (under resultsDir) to finish from its checkpoint.jsonl; completed iterations are kept, not rerun
 	environmentVariables?:
 		| Record<string, string>
 		| ((
@@ -302,21 +363,188 @@ function formatMessage(
 	return null;
 }
 
+/** Run-wide state shared by every iteration of one eval. */
+interface EvalRun {
+	config: EvalConfig;
+	agent: AgentAdapter;
+	artifactsDir?: string; // Results run dir iterations save artifacts into (when resultsDir is set)
+	userSimulator?: UserSimulator; // Answers the agent's questions (when userSimulator is set)
+	budget?: BudgetTracker; // Live spend against config.budget (when set)
+}
+
+/**
+ * Save an iteration's patch (and, with `snapshot`, a tarball of the files it
+ * changed) into the results run dir, so the change survives temp dir cleanup.
+ */
+async function saveIterationArtifacts(
+	artifactsDir: string,
+	snapshot: boolean,
+	tempDir: string,
+	diff: string,
+	iteration: Pick<IterationResult, "promptId" | "iterationId">,
+): Promise<IterationArtifacts> {
+	await fs.ensureDir(artifactsDir);
+	const artifacts: IterationArtifacts = {
+		patch: iterationArtifactName(iteration, "patch"),
+	};
+	// execa strips the trailing newline `git apply` requires
+	await fs.writeFile(
+		path.join(artifactsDir, artifacts.patch),
+		diff ? `${diff}\n` : "",
+		"utf-8",
+	);
+
+	if (snapshot) {
+		// Deleted files have nothing to archive; the patch records them
+		const { stdout: changedFiles } = await execa(
+			"git",
+			["diff", "HEAD", "--name-only", "--diff-filter=d"],
+			{ cwd: tempDir },
+		);
+		if (changedFiles.trim()) {
+			artifacts.snapshot = iterationArtifactName(iteration, "tar.gz");
+			await execa(
+				"tar",
+				["-czf", path.join(artifactsDir, artifacts.snapshot), "-T", "-"],
+				{ cwd: tempDir, input: changedFiles },
+			);
+		}
+	}
+
+	return artifacts;
+}
+
+/** Stage new files (-AN) so `git diff HEAD` includes them, and return the diff. */
+async function captureDiff(cwd: string): Promise<string> {
+	await execa("git", ["add", "-AN"], { cwd });
+	const { stdout } = await execa("git", ["diff", "HEAD"], { cwd });
+	return stdout;
+}
+
+/** Sum usage across turns; an adapter reports each turn's usage separately. */
+function addTokenUsage(
+	total: TokenUsage | undefined,
+	turn: TokenUsage | undefined,
+): TokenUsage | undefined {
+	if (!turn) return total;
+	if (!total) return turn;
+	return {
+		inputTokens: total.inputTokens + turn.inputTokens,
+		outputTokens: total.outputTokens + turn.outputTokens,
+		cacheCreationInputTokens:
+			(total.cacheCreationInputTokens ?? 0) +
+			(turn.cacheCreationInputTokens ?? 0),
+		cacheReadInputTokens:
+			(total.cacheReadInputTokens ?? 0) + (turn.cacheReadInputTokens ?? 0),
+		model: total.model ?? turn.model,
+		// A turn without a reported cost leaves the whole iteration to `pricing`
+		costUsd:
+			total.costUsd !== undefined && turn.costUsd !== undefined
+				? total.costUsd + turn.costUsd
+				: undefined,
+	};
+}
+
+/**
+ * Stream one agent turn to completion, logging each message. Returns the
+ * turn's messages, the latest usage the adapter reported for it, and the
+ * number of model calls it made. `onUsage` sees the turn's usage so far after
+ * every message.
+ */
+async function runAgentTurn(
+	run: EvalRun,
+	context: AgentRunContext,
+	onUsage: (usage: TokenUsage | undefined, steps: number) => void,
+): Promise<{
+	messages: AgentMessage[];
+	tokenUsage?: TokenUsage;
+	steps: number;
+}> {
+	const { config, agent } = run;
+	const messages: AgentMessage[] = [];
+	const pendingToolUses = new Map<string, { name: string; input: unknown }>();
+	const steps = new Map<string, TokenUsage>();
+	let tokenUsage: TokenUsage | undefined;
+
+	for await (const message of agent.run(context)) {
+		messages.push(message);
+
+		// Keep the latest usage the adapter reports
+		tokenUsage = agent.tokenUsage(message) ?? tokenUsage;
+		const step = agent.stepUsage?.(message);
+		if (step) steps.set(step.id, step.usage);
+		// Until the turn reports its usage, the model calls so far estimate it
+		onUsage(
+			tokenUsage ??
+				[...steps.values()].reduce<TokenUsage | undefined>(
+					addTokenUsage,
+					undefined,
+				),
+			steps.size,
+		);
+
+		// Log messages based on verbose setting
+		if (config.verbose) {
+			console.log(
+				`\n[Iteration ${context.iteration}] [${agent.id}]`,
+				message.type,
+				":",
+				JSON.stringify(message, null, 2),
+			);
+		} else {
+			const formatted = formatMessage(
+				message as SDKMessage,
+				pendingToolUses,
+				context.iteration,
+			);
+			if (formatted) {
+				console.log(formatted);
+			}
+		}
+	}
+
+	return { messages, tokenUsage, steps: steps.size };
+}
+
+/** Run `scorers`, recording each result in `scores` under `prefix + name`. */
+async function runScorers(
+	scorers: Scorer[],
+	scorerContext: ScorerContext,
+	scores: Record<string, ScorerResult>,
+	iteration: number,
+	prefix = "",
+): Promise<void> {
+	for (const scorer of scorers) {
+		const result = await scorer.evaluate(scorerContext);
+		scores[`${prefix}${scorer.name}`] = result;
+		console.log(
+			`[Iteration ${iteration}]   ${prefix}${
+				scorer.name
+			}: ${result.score.toFixed(2)} - ${result.reason}`,
+		);
+	}
+}
+
 /**
  * Runs a single evaluation iteration
  */
 async function runSingleIteration(
-	config: EvalConfig,
+	run: EvalRun,
 	context: EnvGeneratorContext,
-	promptId: string,
-	prompt: string,
+	promptConfig: PromptConfig,
 ): Promise<IterationResult> {
+	const { config } = run;
+	const { id: promptId, prompt, turns = [] } = promptConfig;
+	const projectDir = promptConfig.projectDir ?? config.projectDir;
 	const startTime = Date.now();
 	const evalId = randomUUID();
 	const tempDir = path.join(os.tmpdir(), `eval-${evalId}`);
 
-	// Generate environment variables for this iteration
-	const envVars = await generateEnvironmentVariables(config, context);
+	// Generate environment variables for this iteration; the prompt's own win
+	const envVars = {
+		...(await generateEnvironmentVariables(config, context)),
+		...promptConfig.environmentVariables,
+	};
 	validateEnvironmentVariables(envVars);
 
 	if (config.verbose) {
@@ -329,31 +557,94 @@ async function runSingleIteration(
 	// Track success status for cleanup logic
 	let iterationSuccess = false;
 
+	// The agent aborts on this signal; install races against it too
+	const abortController = new AbortController();
+
+	// An eval already over its total budget starts no more iterations
+	let budgetExceeded = run.budget?.start(context.iteration, (reason) => {
+		if (budgetExceeded) return;
+		budgetExceeded = reason;
+		console.log(`[Iteration ${context.iteration}] ${reason}`);
+		abortController.abort();
+	});
+	if (budgetExceeded) {
+		console.log(`[Iteration ${context.iteration}] Skipped: ${budgetExceeded}`);
+		return {
+			iterationId: context.iteration,
+			promptId,
+			success: false,
+			duration: 0,
+			scores: {},
+			agentOutput: "",
+			error: budgetExceeded,
+			environmentVariables: envVars,
+		};
+	}
+
 	// Bound the whole iteration (install + agent run) with a single deadline.
-	// The SDK aborts on this signal; install races against it too.
 	const timeoutMs = config.timeout ?? 600000;
-	const abortController = new AbortController();
 	let timedOut = false;
 	const timeoutTimer = setTimeout(() => {
 		timedOut = true;
 		abortController.abort();
 	}, timeoutMs);
 
+	// Agent usage across finished turns, plus the running turn's usage so far;
+	// both are kept when the iteration fails
+	let tokenUsage: TokenUsage | undefined;
+	let turnUsage: TokenUsage | undefined;
+	let modelTurns = 0;
+	const costAgentId = config.agentId || run.agent.id;
+	// The simulated user's persona runs on its own model, so its usage is kept
+	// and priced apart — by its model, or a `userSimulator` pricing entry
+	let userSimulatorUsage: TokenUsage | undefined;
+	const iterationCost = (agentUsage: TokenUsage | undefined) =>
+		sumCosts([
+			usageCost(agentUsage, config.pricing, costAgentId),
+			usageCost(userSimulatorUsage, config.pricing, "userSimulator"),
+		]);
+	const recordSpend = (agentUsage: TokenUsage | undefined, turns: number) =>
+		run.budget?.record(context.iteration, {
+			tokens: usageTokens(agentUsage) + usageTokens(userSimulatorUsage),
+			usd: iterationCost(agentUsage),
+			turns,
+		});
+
 	try {
+		// 0. Load the prompt's reference answer, if any, for scorers and judges
+		const expected =
+			promptConfig.expected === undefined
+				? undefined
+				: await loadExpected(promptConfig.expected);
+
 		// 1. Copy project to temp directory
 		console.log(
-			`[Iteration ${context.iteration}] Copying ${config.projectDir} to ${tempDir}...`,
+			`[Iteration ${context.iteration}] Copying ${projectDir} to ${tempDir}...`,
 		);
-		await fs.copy(config.projectDir, tempDir, {
+		await fs.copy(projectDir, tempDir, {
 			filter: (src) => !src.includes("node_modules"),
 		});
 
-		// 2. Initialize git if needed
+		// 2. Initialize git if needed. In an existing repository, commit any
+		// uncommitted changes, so HEAD is the project as the agent found it: the
+		// diff and the baseline scorers' pristine worktree both start from it.
 		const isGitRepo = await fs.pathExists(path.join(tempDir, ".git"));
 		if (!isGitRepo) {
 			await execa("git", ["init"], { cwd: tempDir });
 			await execa("git", ["add", "."], { cwd: tempDir });
 			await execa("git", ["commit", "-m", "Initial commit"], { cwd: tempDir });
+		} else {
+			const { stdout: status } = await execa("git", ["status", "--porcelain"], {
+				cwd: tempDir,
+			});
+			if (status) {
+				await execa("git", ["add", "-A"], { cwd: tempDir });
+				await execa(
+					"git",
+					["commit", "--no-verify", "-m", "Uncommitted changes"],
+					{ cwd: tempDir },
+				);
+			}
 		}
 
 		// 2.5. Install dependencies (unless explicitly disabled)
@@ -392,134 +683,172 @@ async function runSingleIteration(
 			await fs.writeFile(path.join(tempDir, ".env"), envFileContent, "utf-8");
 		}
 
-		// 4. Run Claude Code Agent SDK with user's prompt
-		// Note: query() doesn't have env option, so we set process.env temporarily
+		// 4. Run the agent with user's prompt, then any follow-up turns
+		// Note: the SDK's query() has no env option, so we set process.env temporarily
 		const originalEnv = { ...process.env };
 		Object.assign(process.env, envVars);
 
 		try {
-			console.log(
-				`[Iteration ${context.iteration}] Running prompt: "${prompt}" in ${tempDir}...`,
-			);
+			// Collect every turn's messages; follow-ups continue the same session
+			const allMessages: AgentMessage[] = [];
+			const scores: Record<string, ScorerResult> = {};
+			const execCommand = buildExecCommand(tempDir);
+			let previousTurn: AgentMessage[] = [];
+			const { userSimulator } = run;
+			let exchanges = 0;
+
+			/** Run one agent exchange in this session and fold it into the transcript. */
+			const send = async (message: string, turn: number) => {
+				if (budgetExceeded) throw new Error(budgetExceeded);
+				const turnResult = await runAgentTurn(
+					run,
+					{
+						prompt: message,
+						cwd: tempDir,
+						signal: abortController.signal,
+						environmentVariables: envVars,
+						iteration: context.iteration,
+						turn,
+						history: [...allMessages],
+						allowQuestions: userSimulator !== undefined,
+					},
+					(usage, steps) => {
+						turnUsage = usage;
+						recordSpend(addTokenUsage(tokenUsage, usage), modelTurns + steps);
+					},
+				);
+				allMessages.push(...turnResult.messages);
+				previousTurn = turnResult.messages;
+				// An aborted turn may end before reporting usage; keep the estimate
+				tokenUsage = addTokenUsage(
+					tokenUsage,
+					turnResult.tokenUsage ?? turnUsage,
+				);
+				turnUsage = undefined;
+				modelTurns += turnResult.steps;
+
+				// Aborting the agent may end the stream without throwing; surface the
+				// timeout or budget explicitly so the iteration is marked failed with a
+				// clear error.
+				if (budgetExceeded) throw new Error(budgetExceeded);
+				if (timedOut) {
+					throw new Error(`Iteration timed out after ${timeoutMs}ms`);
+				}
+			};
 
-			// Base system prompt with automation and isolation rules
-			const baseSystemPrompt = `You are running in automated evaluation mode in an isolated sandbox environment.
-
-CRITICAL ISOLATION RULES:
-- Your current working directory (cwd) is: ${tempDir}
-- ALL file operations MUST use relative paths ONLY
-- NEVER use absolute paths for project files
-- NEVER navigate outside your current working directory
-- If tools provide absolute paths to external directories (like plugin base directories), those are ONLY for reading tool metadata - NOT for writing project files
-- Project files (CLAUDE.md, AGENTS.md, .cursor files, etc.) MUST be written using relative paths from cwd
-
-AUTOMATION RULES:
-- Never ask questions or wait for user confirmation
-- Always proceed with changes automatically
-- Make reasonable decisions independently
-- Complete all tasks without requesting approval or clarification
-
-REMEMBER: You are in a temporary, isolated test directory. All your work stays here.`;
-
-			// Append user's custom system prompt if provided
-			const systemPrompt = config.claudeCodeOptions?.systemPrompt
-				? `${baseSystemPrompt}\n\n${config.claudeCodeOptions.systemPrompt}`
-				: baseSystemPrompt;
-
-			const result = query({
-				prompt: prompt,
-				options: {
-					cwd: tempDir,
-					settingSources: ["project"],
-					// SDK requires allowDangerouslySkipPermissions alongside bypass mode.
-					permissionMode: "bypassPermissions",
-					allowDangerouslySkipPermissions: true,
-					...config.claudeCodeOptions,
-					// systemPrompt must come after spread to ensure concatenation works
-					systemPrompt,
-					// abortController must come after spread so our timeout is never
-					// clobbered by a user-supplied controller.
-					abortController,
-				},
-			});
+			for (let turn = 0; turn <= turns.length; turn++) {
+				const followUp = turns[turn - 1]; // undefined for the opening prompt
+				let turnPrompt = prompt;
+				if (followUp) {
+					turnPrompt =
+						typeof followUp.prompt === "string"
+							? followUp.prompt
+							: await followUp.prompt({
+									turn,
+									promptId,
+									previousOutput: finalTextFrom(previousTurn),
+									agentOutput: JSON.stringify(allMessages),
+									diff: await captureDiff(tempDir),
+									workingDir: tempDir,
+								});
+				}
 
-			// Collect all output from the async generator
-			const allMessages: SDKMessage[] = [];
-			const pendingToolUses = new Map<
-				string,
-				{ name: string; input: unknown }
-			>();
-			let tokenUsage: TokenUsage | undefined;
-
-			for await (const message of result) {
-				allMessages.push(message);
-
-				// Extract token usage from result message
-				if (message.type === "result" && message.usage) {
-					tokenUsage = {
-						inputTokens: message.usage.input_tokens || 0,
-						outputTokens: message.usage.output_tokens || 0,
-						cacheCreationInputTokens: message.usage.cache_creation_input_tokens,
-						cacheReadInputTokens: message.usage.cache_read_input_tokens,
+				console.log(
+					turn === 0
+						? `[Iteration ${context.iteration}] Running prompt: "${turnPrompt}" in ${tempDir}...`
+						: `[Iteration ${context.iteration}] Turn ${turn}: "${turnPrompt}"`,
+				);
+				await send(turnPrompt, turn);
+
+				// 4.5. Let the simulated user answer the agent's clarifying questions
+				while (userSimulator && exchanges < userSimulator.maxExchanges) {
+					const questions = extractQuestions(finalReplyFrom(previousTurn));
+					if (questions.length === 0) break;
+					const answer = await userSimulator.answer(turnPrompt, questions, {
+						signal: abortController.signal,
+						// The persona's spend counts toward the budget like the agent's
+						onUsage: (usage) => {
+							userSimulatorUsage = addTokenUsage(userSimulatorUsage, usage);
+							recordSpend(tokenUsage, modelTurns);
+						},
+					});
+					exchanges++;
+					const exchange: SimulatedUserMessage = {
+						type: "simulated_user",
+						turn,
+						questions,
+						answer,
 					};
+					allMessages.push(exchange);
+					console.log(
+						`[Iteration ${context.iteration}] Simulated user: "${answer}"`,
+					);
+					await send(answer, turn);
 				}
 
-				// Log messages based on verbose setting
-				if (config.verbose) {
+				const turnScorers = followUp
+					? followUp.scorers
+					: promptConfig.turnScorers;
+				if (turnScorers?.length) {
 					console.log(
-						`\n[Iteration ${context.iteration}] [Claude Code]`,
-						message.type,
-						":",
-						JSON.stringify(message, null, 2),
+						`[Iteration ${context.iteration}] Running turn ${turn} scorers...`,
 					);
-				} else {
-					const formatted = formatMessage(
-						message,
-						pendingToolUses,
+					await runScorers(
+						turnScorers,
+						{
+							workingDir: tempDir,
+							diff: await captureDiff(tempDir),
+							agentOutput: JSON.stringify(allMessages),
+							promptId,
+							prompt: turnPrompt,
+							turn,
+							expected,
+							environmentVariables: envVars,
+							execCommand,
+						},
+						scores,
 						context.iteration,
+						`turn${turn}:`,
 					);
-					if (formatted) {
-						console.log(formatted);
-					}
 				}
 			}
-
-			// Aborting the SDK may end the generator without throwing; surface the
-			// timeout explicitly so the iteration is marked failed with a clear error.
-			if (timedOut) {
-				throw new Error(`Iteration timed out after ${timeoutMs}ms`);
-			}
 			const agentOutput = JSON.stringify(allMessages);
+			// The agent is done; a budget running out from here on can't stop it
+			run.budget?.finish(context.iteration);
 
-			// 5. Capture git diff. -AN stages new files so the diff includes them.
+			// 5. Capture git diff
 			console.log(`[Iteration ${context.iteration}] Capturing changes...`);
-			await execa("git", ["add", "-AN"], { cwd: tempDir });
-			const { stdout: diff } = await execa("git", ["diff", "HEAD"], {
-				cwd: tempDir,
-			});
+			const diff = await captureDiff(tempDir);
+
+			// 5.5. Persist the change so it outlives the temp dir
+			const artifacts = run.artifactsDir
+				? await saveIterationArtifacts(
+						run.artifactsDir,
+						config.snapshot === true,
+						tempDir,
+						diff,
+						{ promptId, iterationId: context.iteration },
+					)
+				: undefined;
 
 			// 6. Run scorers with environment variables and execCommand utility in context
 			console.log(`[Iteration ${context.iteration}] Running scorers...`);
-			const scores: Record<string, ScorerResult> = {};
-			const execCommand = buildExecCommand(tempDir);
-
-			for (const scorer of config.scorers || []) {
-				const result = await scorer.evaluate({
+			await runScorers(
+				[...(config.scorers ?? []), ...(promptConfig.scorers ?? [])],
+				{
 					workingDir: tempDir,
 					diff,
 					agentOutput,
 					promptId,
 					prompt,
+					turn: turns.length,
+					expected,
 					environmentVariables: envVars,
 					execCommand,
-				});
-				scores[scorer.name] = result;
-				console.log(
-					`[Iteration ${context.iteration}]   ${
-						scorer.name
-					}: ${result.score.toFixed(2)} - ${result.reason}`,
-				);
-			}
+				},
+				scores,
+				context.iteration,
+			);
 
 			const duration = Date.now() - startTime;
 			const success = Object.values(scores).every(isScorePassing);
@@ -537,8 +866,12 @@ REMEMBER: You are in a temporary, isolated test directory. All your work stays h
 				duration,
 				scores,
 				agentOutput,
+				diff: diff || undefined,
 				tokenUsage,
+				userSimulatorUsage,
+				costUsd: iterationCost(tokenUsage),
 				workingDir: shouldKeepTempDir ? tempDir : undefined,
+				artifacts,
 				environmentVariables: envVars,
 			};
 		} finally {
@@ -546,11 +879,14 @@ REMEMBER: You are in a temporary, isolated test directory. All your work stays h
 			process.env = originalEnv;
 		}
 	} catch (error) {
-		const message = timedOut
-			? `Iteration timed out after ${timeoutMs}ms`
-			: error instanceof Error
-				? error.message
-				: String(error);
+		const spent = addTokenUsage(tokenUsage, turnUsage);
+		const message =
+			budgetExceeded ??
+			(timedOut
+				? `Iteration timed out after ${timeoutMs}ms`
+				: error instanceof Error
+					? error.message
+					: String(error));
 		return {
 			iterationId: context.iteration,
 			promptId,
@@ -558,11 +894,15 @@ REMEMBER: You are in a temporary, isolated test directory. All your work stays h
 			duration: Date.now() - startTime,
 			scores: {},
 			agentOutput: "", // No agent output available in error case
+			tokenUsage: spent,
+			userSimulatorUsage,
+			costUsd: iterationCost(spent),
 			error: message,
 			environmentVariables: envVars,
 		};
 	} finally {
 		clearTimeout(timeoutTimer);
+		run.budget?.finish(context.iteration);
 
 		// 7. Cleanup based on tempDirCleanup mode
 		const cleanupMode = config.tempDirCleanup || "always";
@@ -594,10 +934,53 @@ export function isScorePassing(result: ScorerResult): boolean {
 }
 
 /**
- * Calculate aggregate statistics across iterations
+ * pass@k and pass^k for each of `kValues`, estimated per prompt from its run
+ * outcomes and averaged over the prompts with at least k runs. A k no prompt
+ * reached is left out; without any, so are both fields.
+ */
+function reliability(
+	outcomes: { promptId: string; passed: boolean }[],
+	kValues: number[],
+): Pick<AggregateScore, "passAtK" | "passHatK"> {
+	const byPrompt = new Map<string, { passes: number; runs: number }>();
+	for (const { promptId, passed } of outcomes) {
+		const counts = byPrompt.get(promptId) ?? { passes: 0, runs: 0 };
+		counts.runs++;
+		if (passed) counts.passes++;
+		byPrompt.set(promptId, counts);
+	}
+
+	const average = (
+		estimate: (passes: number, runs: number, k: number) => number | undefined,
+		k: number,
+	) => {
+		const values = [...byPrompt.values()]
+			.map(({ passes, runs }) => estimate(passes, runs, k))
+			.filter((v): v is number => v !== undefined);
+		return values.length === 0
+			? undefined
+			: values.reduce((a, b) => a + b, 0) / values.length;
+	};
+
+	const atK: Record<number, number> = {};
+	const hatK: Record<number, number> = {};
+	for (const k of kValues) {
+		const at = average(passAtK, k);
+		const hat = average(passHatK, k);
+		if (at === undefined || hat === undefined) continue;
+		atK[k] = at;
+		hatK[k] = hat;
+	}
+	return Object.keys(atK).length === 0 ? {} : { passAtK: atK, passHatK: hatK };
+}
+
+/**
+ * Calculate aggregate statistics across iterations, with pass@k / pass^k for
+ * each of `kValues`
  */
 export function calculateAggregateScores(
 	results: IterationResult[],
+	kValues: number[] = [],
 ): Record<string, AggregateScore> {
 	const aggregates: Record<string, AggregateScore> = {};
 
@@ -628,7 +1011,22 @@ export function calculateAggregateScores(
 		const passRate =
 			scorerResults.filter(isScorePassing).length / scorerResults.length;
 
-		aggregates[scorerName] = { mean, min, max, stdDev, passRate };
+		aggregates[scorerName] = {
+			mean,
+			min,
+			max,
+			stdDev,
+			passRate,
+			...reliability(
+				results
+					.filter((r) => r.scores[scorerName]?.score !== undefined)
+					.map((r) => ({
+						promptId: r.promptId,
+						passed: isScorePassing(r.scores[scorerName]),
+					})),
+				kValues,
+			),
+		};
 	}
 
 	// Overall pass rate (all scorers passed)
@@ -642,116 +1040,265 @@ export function calculateAggregateScores(
 		max: overallPassRate,
 		stdDev: 0,
 		passRate: overallPassRate,
+		...reliability(
+			results.map((r) => ({ promptId: r.promptId, passed: r.success })),
+			kValues,
+		),
 	};
 
 	return aggregates;
 }
 
+/** How one run fared under a scorer, or under `_overall` (no score). */
+interface Outcome {
+	passed: boolean;
+	score?: number;
+}
+
 /**
- * Run iterations sequentially (one after another)
+ * `runs`' outcomes under `scorer`: iteration success for `_overall`, else
+ * each run the scorer scored.
  */
-async function runSequential(
-	config: EvalConfig,
-	iterations: number,
-): Promise<IterationResult[]> {
-	const results: IterationResult[] = [];
+function outcomesOf(runs: IterationResult[], scorer: string): Outcome[] {
+	if (scorer === "_overall") return runs.map((r) => ({ passed: r.success }));
+	return runs
+		.map((r) => r.scores[scorer])
+		.filter((s): s is ScorerResult => s?.score !== undefined)
+		.map((s) => ({ passed: isScorePassing(s), score: s.score }));
+}
 
-	// Generate all combinations: prompts × iterations
-	const combinations: Array<{
-		promptId: string;
-		prompt: string;
-		iteration: number;
-	}> = [];
-	for (const promptConfig of config.prompts) {
-		for (let i = 0; i < iterations; i++) {
-			combinations.push({
-				promptId: promptConfig.id,
-				prompt: promptConfig.prompt,
-				iteration: results.length + combinations.length,
+/**
+ * `b` against `a`: pass rates with Fisher's exact test and, unless
+ * `_overall`, scores with the Mann-Whitney U test.
+ */
+function compareOutcomes(
+	scorer: string,
+	a: Outcome[],
+	b: Outcome[],
+): { passRate: ComparisonStat; score?: ComparisonStat } {
+	const passes = (runs: Outcome[]) => runs.map((r) => (r.passed ? 1 : 0));
+	const aPass = a.filter((r) => r.passed).length;
+	const bPass = b.filter((r) => r.passed).length;
+	const passRate = compareSamples(
+		passes(a),
+		passes(b),
+		fisherExactTest(aPass, a.length - aPass, bPass, b.length - bPass),
+	);
+	if (scorer === "_overall") return { passRate };
+	const scores = (runs: Outcome[]) => runs.map((r) => r.score ?? 0);
+	return {
+		passRate,
+		score: compareSamples(
+			scores(a),
+			scores(b),
+			mannWhitneyU(scores(a), scores(b)).pValue,
+		),
+	};
+}
+
+/** Every scorer `results` ran, preceded by `_overall`. */
+const comparedScorers = (results: IterationResult[]) => [
+	"_overall",
+	...new Set(results.flatMap((r) => Object.keys(r.scores))),
+];
+
+/**
+ * Compare every prompt variant against the first, per scorer and for
+ * `_overall` iteration success: pass rates with Fisher's exact test, scores
+ * with the Mann-Whitney U test, both differences with bootstrap 95%
+ * confidence intervals. Scorers a variant never ran are skipped.
+ */
+export function comparePrompts(
+	results: IterationResult[],
+	promptIds: string[],
+): PromptComparison[] {
+	const [baseline, ...candidates] = promptIds;
+	const runsOf = (promptId: string) =>
+		results.filter((r) => r.promptId === promptId);
+
+	const comparisons: PromptComparison[] = [];
+	for (const candidate of candidates) {
+		const a = runsOf(baseline);
+		const b = runsOf(candidate);
+		if (a.length === 0 || b.length === 0) continue;
+		for (const scorer of comparedScorers(results)) {
+			const aOutcomes = outcomesOf(a, scorer);
+			const bOutcomes = outcomesOf(b, scorer);
+			if (aOutcomes.length === 0 || bOutcomes.length === 0) continue;
+			comparisons.push({
+				scorer,
+				baseline,
+				candidate,
+				runs: { baseline: aOutcomes.length, candidate: bOutcomes.length },
+				...compareOutcomes(scorer, aOutcomes, bOutcomes),
 			});
 		}
 	}
+	return comparisons;
+}
 
-	// Run each combination sequentially
-	for (const combo of combinations) {
-		const context: EnvGeneratorContext = {
-			iteration: combo.iteration,
-			promptId: combo.promptId,
-			evalName: config.name,
-			totalIterations: combinations.length,
-		};
+/**
+ * Compare a run against a baseline run of the same eval, per scorer and
+ * `_overall`: across all prompts, then per prompt both runs have. Uses the
+ * same tests as comparePrompts; a significant drop in pass rate or mean
+ * score is a regression.
+ */
+export function compareResults(
+	baseline: Pick<EvalResult, "iterations">,
+	current: Pick<EvalResult, "iterations">,
+): BaselineComparison[] {
+	const comparisons: BaselineComparison[] = [];
+	const compare = (
+		promptId: string | undefined,
+		a: IterationResult[],
+		b: IterationResult[],
+	) => {
+		for (const scorer of comparedScorers(b)) {
+			const aOutcomes = outcomesOf(a, scorer);
+			const bOutcomes = outcomesOf(b, scorer);
+			if (aOutcomes.length === 0 || bOutcomes.length === 0) continue;
+			const { passRate, score } = compareOutcomes(scorer, aOutcomes, bOutcomes);
+			const dropped = (stat?: ComparisonStat) =>
+				stat?.significant === true && stat.diff < 0;
+			comparisons.push({
+				scorer,
+				...(promptId !== undefined && { promptId }),
+				runs: { baseline: aOutcomes.length, current: bOutcomes.length },
+				passRate,
+				...(score && { score }),
+				regression: dropped(passRate) || dropped(score),
+			});
+		}
+	};
 
-		const result = await runSingleIteration(
-			config,
-			context,
-			combo.promptId,
-			combo.prompt,
-		);
-		results.push(result);
+	compare(undefined, baseline.iterations, current.iterations);
+	const promptIds = [...new Set(current.iterations.map((r) => r.promptId))];
+	if (promptIds.length > 1) {
+		for (const promptId of promptIds) {
+			const ofPrompt = (r: IterationResult) => r.promptId === promptId;
+			compare(
+				promptId,
+				baseline.iterations.filter(ofPrompt),
+				current.iterations.filter(ofPrompt),
+			);
+		}
+	}
+	return comparisons;
+}
 
-		// Print iteration summary
-		console.log(
-			`\n[Prompt: ${combo.promptId}] [Iteration ${combo.iteration}] ${
-				result.success ? "✓ PASSED" : "✗ FAILED"
-			} in ${(result.duration / 1000).toFixed(2)}s`,
+/** Read a baseline results.json written by writeResultsAsJson. */
+async function loadBaseline(resultsPath: string): Promise<EvalResult> {
+	const resolved = path.resolve(resultsPath);
+	let baseline: EvalResult;
+	try {
+		baseline = JSON.parse(await readFile(resolved, "utf8"));
+	} catch (err) {
+		throw new Error(
+			`Cannot read baseline results ${resolved}: ${err instanceof Error ? err.message : String(err)}`,
 		);
 	}
+	if (!Array.isArray(baseline?.iterations)) {
+		throw new Error(
+			`Baseline results ${resolved} has no iterations array (expected writeResultsAsJson output)`,
+		);
+	}
+	return baseline;
+}
 
-	return results;
+/** One scheduled run: a prompt variant at its eval-wide iteration index. */
+interface Combination {
+	promptConfig: PromptConfig;
+	iteration: number;
 }
 
 /**
- * Run iterations in parallel (all at once)
- * Auto-detects optimal concurrency based on system CPU count
+ * Generate all combinations: prompts × iterations, numbered with a single
+ * eval-wide iteration index (the `iterationId` recorded in results)
  */
-async function runParallel(
+function buildCombinations(
 	config: EvalConfig,
 	iterations: number,
-): Promise<IterationResult[]> {
-	// Generate all combinations: prompts × iterations
-	const combinations: Array<{
-		promptId: string;
-		prompt: string;
-		iteration: number;
-	}> = [];
-	let iterationCounter = 0;
+): Combination[] {
+	const combinations: Combination[] = [];
 	for (const promptConfig of config.prompts) {
 		for (let i = 0; i < iterations; i++) {
-			combinations.push({
-				promptId: promptConfig.id,
-				prompt: promptConfig.prompt,
-				iteration: iterationCounter++,
-			});
+			combinations.push({ promptConfig, iteration: combinations.length });
+		}
+	}
+	return combinations;
+}
+
+/**
+ * Run one combination, checkpoint its result into the run directory (when
+ * there is one) and print its summary
+ */
+async function runCombination(
+	run: EvalRun,
+	combo: Combination,
+	totalIterations: number,
+): Promise<IterationResult> {
+	const context: EnvGeneratorContext = {
+		iteration: combo.iteration,
+		promptId: combo.promptConfig.id,
+		evalName: run.config.name,
+		totalIterations,
+	};
+
+	const result = await runSingleIteration(run, context, combo.promptConfig);
+	if (run.artifactsDir) {
+		try {
+			await appendCheckpoint(run.artifactsDir, result);
+		} catch (error) {
+			console.error(
+				`[Iteration ${combo.iteration}] Failed to checkpoint:`,
+				error instanceof Error ? error.message : String(error),
+			);
 		}
 	}
 
 	console.log(
-		`Running ${combinations.length} total runs (${config.prompts.length} prompts × ${iterations} iterations) in parallel (unbounded)...`,
+		`\n[Prompt: ${combo.promptConfig.id}] [Iteration ${combo.iteration}] ${
+			result.success ? "✓ PASSED" : "✗ FAILED"
+		} in ${(result.duration / 1000).toFixed(2)}s`,
 	);
+	return result;
+}
 
-	// Create all promises and run in parallel
-	const promises = combinations.map((combo) => {
-		const context: EnvGeneratorContext = {
-			iteration: combo.iteration,
-			promptId: combo.promptId,
-			evalName: config.name,
-			totalIterations: combinations.length,
-		};
+/**
+ * Run iterations sequentially (one after another)
+ */
+async function runSequential(
+	run: EvalRun,
+	combinations: Combination[],
+	totalIterations: number,
+): Promise<IterationResult[]> {
+	const results: IterationResult[] = [];
 
-		return runSingleIteration(
-			config,
-			context,
-			combo.promptId,
-			combo.prompt,
-		).then((result) => {
-			console.log(
-				`\n[Prompt: ${combo.promptId}] [Iteration ${combo.iteration}] ${
-					result.success ? "✓ PASSED" : "✗ FAILED"
-				} in ${(result.duration / 1000).toFixed(2)}s`,
-			);
-			return result;
-		});
-	});
+	// Run each combination sequentially
+	for (const combo of combinations) {
+		results.push(await runCombination(run, combo, totalIterations));
+	}
+
+	return results;
+}
+
+/**
+ * Run iterations in parallel (all at once)
+ * Auto-detects optimal concurrency based on system CPU count
+ */
+async function runParallel(
+	run: EvalRun,
+	combinations: Combination[],
+	totalIterations: number,
+): Promise<IterationResult[]> {
+	console.log(
+		`Running ${combinations.length} total runs in parallel (unbounded)...`,
+	);
+
+	// Create all promises and run in parallel
+	const promises = combinations.map((combo) =>
+		runCombination(run, combo, totalIterations),
+	);
 
 	const results = await Promise.all(promises);
 	return results.sort((a, b) => a.iterationId - b.iterationId);
@@ -788,62 +1335,110 @@ async function pLimit<T>(
  * Run iterations in parallel with concurrency limit
  */
 async function runParallelWithLimit(
-	config: EvalConfig,
-	iterations: number,
+	run: EvalRun,
+	combinations: Combination[],
+	totalIterations: number,
 	concurrency: number,
 ): Promise<IterationResult[]> {
-	// Generate all combinations
-	const combinations: Array<{
-		promptId: string;
-		prompt: string;
-		iteration: number;
-	}> = [];
-	let iterationCounter = 0;
-	for (const promptConfig of config.prompts) {
-		for (let i = 0; i < iterations; i++) {
-			combinations.push({
-				promptId: promptConfig.id,
-				prompt: promptConfig.prompt,
-				iteration: iterationCounter++,
-			});
-		}
-	}
-
 	console.log(
-		`Running ${combinations.length} total runs (${config.prompts.length} prompts × ${iterations} iterations) in parallel (concurrency: ${concurrency})...`,
+		`Running ${combinations.length} total runs in parallel (concurrency: ${concurrency})...`,
 	);
 
 	// Create task functions
-	const tasks = combinations.map((combo) => {
-		return async () => {
-			const context: EnvGeneratorContext = {
-				iteration: combo.iteration,
-				promptId: combo.promptId,
-				evalName: config.name,
-				totalIterations: combinations.length,
-			};
-
-			const result = await runSingleIteration(
-				config,
-				context,
-				combo.promptId,
-				combo.prompt,
-			);
-			console.log(
-				`\n[Prompt: ${combo.promptId}] [Iteration ${combo.iteration}] ${
-					result.success ? "✓ PASSED" : "✗ FAILED"
-				} in ${(result.duration / 1000).toFixed(2)}s`,
-			);
-			return result;
-		};
-	});
+	const tasks = combinations.map(
+		(combo) => () => runCombination(run, combo, totalIterations),
+	);
 
 	const results = await pLimit(tasks, concurrency);
 	return results.sort((a, b) => a.iterationId - b.iterationId);
 }
 
 /**
- * Main entry point: Runs evaluation with multiple iterations using Claude Code agent
+ * Run `combinations` in the configured execution mode; results are ordered by
+ * iteration id. `totalIterations` is what env generators see.
+ */
+async function runCombinations(
+	run: EvalRun,
+	combinations: Combination[],
+	totalIterations: number,
+): Promise<IterationResult[]> {
+	const execution = run.config.execution || { mode: "sequential" as const };
+	switch (execution.mode) {
+		case "sequential":
+			return runSequential(run, combinations, totalIterations);
+		case "parallel":
+			return runParallel(run, combinations, totalIterations);
+		case "parallel-limit":
+			if (!execution.concurrency) {
+				throw new Error(
+					'concurrency is required when mode is "parallel-limit"',
+				);
+			}
+			return runParallelWithLimit(
+				run,
+				combinations,
+				totalIterations,
+				execution.concurrency,
+			);
+	}
+}
+
+/**
+ * Schedule iterations in rounds until `adaptiveStatus` has stopped every
+ * prompt (or the budget runs out). Each round runs in the configured
+ * execution mode; iteration ids continue across rounds (and after those of
+ * `completed`, the runs a resumed eval already has), and env generators see
+ * the most iterations the eval could run as `totalIterations`.
+ */
+async function runAdaptive(
+	run: EvalRun,
+	adaptive: AdaptiveIterations,
+	completed: IterationResult[] = [],
+): Promise<{
+	results: IterationResult[];
+	status: Record<string, AdaptiveStatus>;
+}> {
+	const { config } = run;
+	const execution = config.execution || { mode: "sequential" as const };
+	const promptIds = config.prompts.map((p) => p.id);
+	const totalIterations = promptIds.length * adaptive.maxIterations;
+	const results: IterationResult[] = [...completed];
+	// An interrupted round may have finished out of order; never reuse an id
+	let nextId = Math.max(-1, ...results.map((r) => r.iterationId)) + 1;
+
+	for (let round = 1; ; round++) {
+		const status = adaptiveStatus(results, promptIds, adaptive);
+		const next = nextAdaptiveRound(status, execution, adaptive);
+		if (Object.keys(next).length === 0 || run.budget?.exhausted) {
+			console.log("\nAdaptive iterations:");
+			for (const [promptId, s] of Object.entries(status)) {
+				console.log(
+					`  ${promptId}: ${s.runs} run(s), pass rate 95% CI [${s.interval[0].toFixed(2)}, ${s.interval[1].toFixed(2)}]${s.stopped ? ` (${s.stopped})` : ""}`,
+				);
+			}
+			return { results, status };
+		}
+
+		const combinations: Combination[] = [];
+		for (const promptConfig of config.prompts) {
+			for (let i = 0; i < (next[promptConfig.id] ?? 0); i++) {
+				combinations.push({ promptConfig, iteration: nextId++ });
+			}
+		}
+		console.log(
+			`\n[Adaptive] Round ${round}: ${Object.entries(next)
+				.map(([promptId, count]) => `${count} × ${promptId}`)
+				.join(", ")}`,
+		);
+		results.push(
+			...(await runCombinations(run, combinations, totalIterations)),
+		);
+	}
+}
+
+/**
+ * Main entry point: Runs evaluation with multiple iterations using the
+ * configured agent (Claude Code unless `config.agent` selects another)
  */
 export async function runClaudeCodeEval(
 	config: EvalConfig,
@@ -859,37 +1454,170 @@ export async function runClaudeCodeEval(
 	if (execution.mode === "parallel-limit" && !execution.concurrency) {
 		throw new Error('concurrency is required when mode is "parallel-limit"');
 	}
-
-	const totalRuns = config.prompts.length * iterations;
-	console.log(
-		`\nStarting evaluation "${config.name}" with ${config.prompts.length} prompt(s) × ${iterations} iteration(s) = ${totalRuns} total runs (${execution.mode})...\n`,
+	const replay = config.replay
+		? await ReplayAgent.load(config.replay)
+		: undefined;
+	const baselineResult = config.baseline
+		? await loadBaseline(config.baseline)
+		: undefined;
+	const agent = replay ?? resolveAgent(config);
+
+	// A resumed run keeps its start time, so it writes back into its own run dir
+	const resumeDir = config.resume ? path.resolve(config.resume) : undefined;
+	const checkpoint = resumeDir ? await readCheckpoint(resumeDir) : undefined;
+	const timestamp = checkpoint?.timestamp ?? new Date(startTime).toISOString();
+	const resultsDir = resumeDir ? path.dirname(resumeDir) : config.resultsDir;
+	const hash = configHash(config);
+	if (resumeDir && checkpoint) {
+		if (checkpoint.evalName !== config.name) {
+			throw new Error(
+				`Cannot resume ${resumeDir}: it is a run of "${checkpoint.evalName}", not "${config.name}"`,
+			);
+		}
+		const expected = resultsRunDir(
+			{ evalName: config.name, timestamp },
+			path.dirname(resumeDir),
+		);
+		if (expected !== resumeDir) {
+			throw new Error(
+				`Cannot resume ${resumeDir}: expected the run directory to be named ${path.basename(expected)}`,
+			);
+		}
+		if (checkpoint.configHash !== hash) {
+			console.warn(
+				`Warning: ${config.resume} ran with a different config (${checkpoint.configHash}, now ${hash}); its results are kept as they are`,
+			);
+		}
+	}
+	// Iterations the budget stopped didn't finish; a resume runs them again
+	const completed = (checkpoint?.iterations ?? []).filter(
+		(r) => !r.error?.startsWith(BUDGET_EXCEEDED),
+	);
+	const done = new Set(
+		completed.map((r) => `${r.promptId}\u0000${r.iterationId}`),
 	);
 
-	let results: IterationResult[];
-
-	switch (execution.mode) {
-		case "sequential":
-			results = await runSequential(config, iterations);
-			break;
-		case "parallel":
-			results = await runParallel(config, iterations);
-			break;
-		case "parallel-limit":
-			if (!execution.concurrency) {
+	let combinations: Combination[];
+	if (replay) {
+		// Re-score exactly the recorded runs, under their recorded iteration ids.
+		combinations = replay.recorded.iterations.map((recorded) => {
+			const promptConfig = config.prompts.find(
+				(p) => p.id === recorded.promptId,
+			);
+			if (!promptConfig) {
 				throw new Error(
-					'concurrency is required when mode is "parallel-limit"',
+					`Replay: recorded prompt '${recorded.promptId}' not found in config.prompts`,
 				);
 			}
-			results = await runParallelWithLimit(
-				config,
-				iterations,
-				execution.concurrency,
+			// Follow-ups already happened in the recording; only final scorers rerun
+			return {
+				promptConfig: {
+					...promptConfig,
+					turns: undefined,
+					turnScorers: undefined,
+				},
+				iteration: recorded.iterationId,
+			};
+		});
+		console.log(
+			`\nReplaying ${combinations.length} recorded runs of "${config.name}" from ${config.replay?.results} (${execution.mode})...\n`,
+		);
+	} else {
+		combinations = buildCombinations(config, iterations);
+		console.log(
+			execution.adaptive
+				? `\nStarting evaluation "${config.name}" with ${config.prompts.length} prompt(s) × up to ${execution.adaptive.maxIterations} adaptive iteration(s) (${execution.mode})...\n`
+				: `\nStarting evaluation "${config.name}" with ${config.prompts.length} prompt(s) × ${iterations} iteration(s) = ${combinations.length} total runs (${execution.mode})...\n`,
+		);
+	}
+	const totalIterations = combinations.length;
+	if (checkpoint) {
+		combinations = combinations.filter(
+			(c) => !done.has(`${c.promptConfig.id}\u0000${c.iteration}`),
+		);
+		console.log(
+			`Resuming ${resumeDir}: keeping ${completed.length} completed run(s)${execution.adaptive && !replay ? "" : `, ${combinations.length} left to run`}\n`,
+		);
+	}
+
+	const run: EvalRun = {
+		config,
+		agent,
+		// A replay re-emits the recorded questions, but they were answered then
+		userSimulator:
+			config.userSimulator && !replay
+				? new UserSimulator(config.userSimulator)
+				: undefined,
+		budget: config.budget ? new BudgetTracker(config.budget) : undefined,
+		artifactsDir: resultsDir
+			? resultsRunDir({ evalName: config.name, timestamp }, resultsDir)
+			: undefined,
+	};
+	// What the checkpointed runs spent counts toward the total budget (their
+	// turn counts aren't recorded)
+	for (const r of checkpoint?.iterations ?? []) {
+		run.budget?.record(r.iterationId, {
+			tokens: usageTokens(r.tokenUsage) + usageTokens(r.userSimulatorUsage),
+			usd: r.costUsd,
+			turns: 0,
+		});
+	}
+	if (run.artifactsDir) {
+		try {
+			await writeCheckpoint(
+				run.artifactsDir,
+				checkpoint ?? {
+					evalName: config.name,
+					timestamp,
+					configHash: hash,
+					iterations: [],
+				},
+			);
+			if (!checkpoint) {
+				console.log(
+					`Checkpointing to ${path.join(run.artifactsDir, CHECKPOINT_FILE)}; if interrupted, continue with --resume ${run.artifactsDir}\n`,
+				);
+			}
+		} catch (error) {
+			console.error(
+				"Failed to write the checkpoint:",
+				error instanceof Error ? error.message : String(error),
 			);
-			break;
+		}
 	}
 
-	// Calculate aggregate scores
-	const aggregateScores = calculateAggregateScores(results);
+	let results: IterationResult[];
+	let adaptive: Record<string, AdaptiveStatus> | undefined;
+	if (execution.adaptive && !replay) {
+		({ results, status: adaptive } = await runAdaptive(
+			run,
+			execution.adaptive,
+			completed,
+		));
+	} else {
+		results = [
+			...completed,
+			...(await runCombinations(run, combinations, totalIterations)),
+		].sort((a, b) => a.iterationId - b.iterationId);
+	}
+
+	// Calculate aggregate scores, and compare prompt variants when there are several
+	const aggregateScores = calculateAggregateScores(results, config.passAtK);
+	const comparisons =
+		config.compare !== false && config.prompts.length > 1
+			? comparePrompts(
+					results,
+					config.prompts.map((p) => p.id),
+				)
+			: undefined;
+	const baseline: BaselineReport | undefined =
+		config.baseline && baselineResult
+			? {
+					results: config.baseline,
+					timestamp: baselineResult.timestamp,
+					comparisons: compareResults(baselineResult, { iterations: results }),
+				}
+			: undefined;
 
 	// Print comprehensive summary
 	const duration = Date.now() - startTime;
@@ -901,11 +1629,29 @@ export async function runClaudeCodeEval(
 	console.log(`Eval Name: ${config.name}`);
 	console.log(`Total Duration: ${(duration / 1000).toFixed(2)}s`);
 	console.log(`Prompts: ${config.prompts.length}`);
-	console.log(`Iterations per prompt: ${iterations}`);
+	console.log(
+		`Iterations per prompt: ${
+			adaptive
+				? Object.entries(adaptive)
+						.map(([promptId, s]) => `${promptId} ${s.runs}`)
+						.join(", ")
+				: iterations
+		}`,
+	);
 	console.log(`Total runs: ${results.length}`);
 	console.log(
 		`Pass Rate: ${(aggregateScores._overall.passRate * 100).toFixed(1)}%`,
 	);
+	const reliabilityLine = (agg: AggregateScore) =>
+		Object.entries(agg.passAtK ?? {})
+			.map(
+				([k, at]) =>
+					`pass@${k}: ${(at * 100).toFixed(1)}% | pass^${k}: ${((agg.passHatK?.[Number(k)] ?? 0) * 100).toFixed(1)}%`,
+			)
+			.join(" | ");
+	if (aggregateScores._overall.passAtK) {
+		console.log(`Reliability: ${reliabilityLine(aggregateScores._overall)}`);
+	}
 	console.log(`Status: ${overallSuccess ? "✓ ALL PASSED" : "✗ SOME FAILED"}`);
 
 	// Show per-prompt pass rates
@@ -927,6 +1673,26 @@ export async function runClaudeCodeEval(
 		}
 	}
 
+	// Display prompt comparisons against the first prompt
+	if (comparisons?.length) {
+		console.log("\nPrompt Comparison (vs first prompt):");
+		for (const c of comparisons) {
+			const { passRate } = c;
+			console.log(
+				`  ${c.candidate} vs ${c.baseline} [${c.scorer}]: pass rate ${(passRate.baseline * 100).toFixed(1)}% → ${(passRate.candidate * 100).toFixed(1)}% (p=${passRate.pValue.toFixed(3)}${passRate.significant ? ", significant" : ""})`,
+			);
+		}
+	}
+
+	// Display regressions against the baseline run
+	if (baseline) {
+		const regressions = baseline.comparisons.filter((c) => c.regression);
+		console.log(
+			`\nBaseline Comparison (vs ${baseline.results}): ${regressions.length} regression(s)`,
+		);
+		for (const c of regressions) console.log(`  ${formatRegression(c)}`);
+	}
+
 	// Display aggregate scores
 	if (Object.keys(aggregateScores).length > 1) {
 		console.log("\nAggregate Scores:");
@@ -939,6 +1705,7 @@ export async function runClaudeCodeEval(
 				)} | Max: ${agg.max.toFixed(2)} | StdDev: ${agg.stdDev.toFixed(2)}`,
 			);
 			console.log(`    Pass Rate: ${(agg.passRate * 100).toFixed(1)}%`);
+			if (agg.passAtK) console.log(`    ${reliabilityLine(agg)}`);
 		}
 	}
 
@@ -979,6 +1746,20 @@ export async function runClaudeCodeEval(
 		);
 	}
 
+	const costUsd = sumCosts(results.map((r) => r.costUsd));
+	if (costUsd !== undefined) {
+		console.log(`\nTotal Cost: ${formatUsd(costUsd)}`);
+	}
+
+	const overBudget = results.filter((r) =>
+		r.error?.startsWith(BUDGET_EXCEEDED),
+	);
+	if (overBudget.length > 0) {
+		console.log(
+			`\nBudget Exceeded: ${overBudget.length} run(s) stopped (${run.budget?.exhausted ?? overBudget[0].error})`,
+		);
+	}
+
 	// Display preserved temp directories
 	const preservedDirs = results
 		.map((r) => r.workingDir)
@@ -995,23 +1776,39 @@ export async function runClaudeCodeEval(
 	// Create the result object
 	const evalResult: EvalResult = {
 		evalName: config.name,
-		agentId: config.agentId || "claude-code",
-		timestamp: new Date().toISOString(),
+		agentId: config.agentId || agent.id,
+		timestamp,
 		success: overallSuccess,
 		duration,
 		iterations: results,
 		aggregateScores,
+		adaptive,
+		comparisons,
+		baseline,
 		tokenUsage: totalTokenUsage.inputTokens > 0 ? totalTokenUsage : undefined,
+		costUsd,
+		budgetExceeded: overBudget.length > 0 || undefined,
 	};
 
 	// Write results to directory if resultsDir is specified
-	if (config.resultsDir) {
+	if (resultsDir) {
 		try {
-			const resultDir = await writeResults(evalResult, config.resultsDir);
+			const resultDir = await writeResults(evalResult, resultsDir);
+			await appendHistory(
+				resultsDir,
+				historyEntry(evalResult, {
+					configHash: hash,
+					gitCommit: await gitCommit(path.resolve(config.projectDir)),
+					resultsPath: path.relative(resultsDir, resultDir),
+				}),
+			);
 			console.log(`\nResults written to: ${resultDir}/`);
 			console.log(`  - Aggregate results: results.md`);
 			console.log(`  - JSON export: results.json`);
-			console.log(`  - Iteration logs: iteration-*.log\n`);
+			console.log(`  - Iteration logs: iteration-*.log`);
+			console.log(`  - Iteration patches: iteration-*.patch`);
+			console.log(`  - Checkpoint: ${CHECKPOINT_FILE}`);
+			console.log(`  - Run history: ${path.join(resultsDir, HISTORY_FILE)}\n`);
 		} catch (error) {
 			console.error(
 				"Failed to write results:",
@@ -1,5 +1,7 @@
 import type { ScorerContext, ScorerResult } from "../types";
+import { simulatedExchanges } from "../user-simulator";
 import { BaseScorer } from "./base";
+import type { QuestionsScorerSpec, ToolUsageScorerSpec } from "./schema";
 
 interface ToolUseBlock {
 	type: "tool_use";
@@ -70,3 +72,186 @@ export class SkillPickedUpScorer extends BaseScorer {
 			: { score: 0.0, reason: `Skill '${this.skillName}' was not invoked` };
 	}
 }
+
+/**
+ * Scorer that counts the clarifying questions the agent asked the simulated
+ * user (see `EvalConfig.userSimulator`). Passes when the count is within
+ * `min` (default 1) and `max` (default unbounded).
+ *
+ * Scorer name defaults to `questions-asked`.
+ */
+export class QuestionsAskedScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(private readonly spec: Omit<QuestionsScorerSpec, "type"> = {}) {
+		super();
+		this.name = spec.name ?? "questions-asked";
+	}
+
+	async evaluate({ agentOutput }: ScorerContext): Promise<ScorerResult> {
+		const questions = simulatedExchanges(agentOutput).flatMap(
+			(exchange) => exchange.questions,
+		);
+		const min = this.spec.min ?? 1;
+		const max = this.spec.max ?? Number.POSITIVE_INFINITY;
+		const count = questions.length;
+		const range = Number.isFinite(max) ? `${min}..${max}` : `>= ${min}`;
+		const ok = count >= min && count <= max;
+		return {
+			score: ok ? 1.0 : 0.0,
+			reason: `Asked ${count} question(s) (expected ${range})`,
+			metadata: { count, questions },
+		};
+	}
+}
+
+/** A tool call from the agent's trajectory, in call order. */
+interface ToolCall {
+	name: string;
+	input: Record<string, unknown>;
+}
+
+function toolCalls(agentOutput: string): ToolCall[] {
+	let messages: unknown;
+	try {
+		messages = JSON.parse(agentOutput);
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(messages)) return [];
+	return messages
+		.filter(isAgentMessage)
+		.filter((msg) => msg.type === "assistant")
+		.flatMap((msg): unknown[] => msg.message?.content ?? [])
+		.filter(isToolUseBlock)
+		.map(({ name, input }) => ({ name, input: input ?? {} }));
+}
+
+/** The file a call touches — `file_path` for Read/Edit/Write, `notebook_path`, or `path`. */
+function callFile(call: ToolCall): string | undefined {
+	const file =
+		call.input.file_path ?? call.input.notebook_path ?? call.input.path;
+	return typeof file === "string" ? file : undefined;
+}
+
+function inputText(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Scorer that checks the agent's tool calls with ANDed sub-checks:
+ * - `tool` + `input` select calls (input fields matched by regex), bounded
+ *   by `called` / `min` / `max`;
+ * - `order` requires each `after` call to follow a `before` call (on the
+ *   same file with `sameFile`), e.g. Read before Edit;
+ * - `forbiddenCommands` fails on any Bash command matching one of the regexes.
+ *
+ * Scorer name defaults to `tool-usage:<tool>`, `tool-usage:<before>-before-<after>`
+ * or `tool-usage:forbidden-commands`.
+ */
+export class ToolUsageScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<ToolUsageScorerSpec, "type">) {
+		super();
+		this.name =
+			spec.name ??
+			`tool-usage:${
+				spec.tool ??
+				(spec.order
+					? `${spec.order.before}-before-${spec.order.after}`
+					: "forbidden-commands")
+			}`;
+	}
+
+	async evaluate({ agentOutput }: ScorerContext): Promise<ScorerResult> {
+		const { spec } = this;
+		let inputPatterns: (readonly [string, RegExp])[];
+		let commandPatterns: RegExp[];
+		try {
+			inputPatterns = Object.entries(spec.input ?? {}).map(
+				([key, pattern]) => [key, new RegExp(pattern)] as const,
+			);
+			commandPatterns = (spec.forbiddenCommands ?? []).map(
+				(pattern) => new RegExp(pattern),
+			);
+		} catch (err) {
+			return {
+				score: 0,
+				reason: `invalid regex: ${err instanceof Error ? err.message : String(err)}`,
+			};
+		}
+
+		const calls = toolCalls(agentOutput);
+		const fails: string[] = [];
+		const metadata: Record<string, unknown> = { calls: calls.length };
+
+		if (spec.tool !== undefined) {
+			const patterns = inputPatterns;
+			const matching = calls.filter(
+				(call) =>
+					call.name === spec.tool &&
+					patterns.every(
+						([key, re]) =>
+							call.input[key] !== undefined &&
+							re.test(inputText(call.input[key])),
+					),
+			).length;
+			metadata.matching = matching;
+			const label = `${spec.tool}${patterns.length ? ` (${patterns.map(([key, re]) => `${key} ${re}`).join(", ")})` : ""}`;
+			// Without `called`/`min`/`max`, `tool` alone asks for at least one call
+			const bounded =
+				spec.called !== undefined ||
+				spec.min !== undefined ||
+				spec.max !== undefined;
+			const min = spec.min ?? (spec.called === true || !bounded ? 1 : 0);
+			const max = spec.max ?? (spec.called === false ? 0 : Infinity);
+			if (matching < min)
+				fails.push(
+					`${label} called ${matching} time(s), expected at least ${min}`,
+				);
+			if (matching > max)
+				fails.push(
+					`${label} called ${matching} time(s), expected at most ${max}`,
+				);
+		}
+
+		if (spec.order) {
+			const { before, after, sameFile } = spec.order;
+			const seen = new Set<string | undefined>();
+			let seenAny = false;
+			for (const call of calls) {
+				const file = callFile(call);
+				if (call.name === after) {
+					const ok = sameFile ? seen.has(file) : seenAny;
+					if (!ok)
+						fails.push(
+							`${after}${sameFile && file ? ` of ${file}` : ""} without a prior ${before}`,
+						);
+				}
+				if (call.name === before) {
+					seen.add(file);
+					seenAny = true;
+				}
+			}
+		}
+
+		if (spec.forbiddenCommands) {
+			const forbidden = calls
+				.filter((call) => call.name === "Bash")
+				.map((call) => inputText(call.input.command ?? ""))
+				.filter((command) => commandPatterns.some((re) => re.test(command)));
+			if (forbidden.length > 0) metadata.forbidden = forbidden;
+			for (const command of forbidden)
+				fails.push(`forbidden command \`${command}\``);
+		}
+
+		return fails.length === 0
+			? { score: 1, reason: "Tool usage: all checks passed", metadata }
+			: {
+					score: 0,
+					reason: `Tool usage: ${fails.join("; ")}`,
+					metadata: { ...metadata, failures: fails },
+				};
+	}
+}
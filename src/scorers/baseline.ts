@@ -0,0 +1,91 @@
+import { mkdtemp, rm, symlink } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import fs from "fs-extra";
+
+/** One lint or compiler finding, with `file` relative to the checked root. */
+export interface Diagnostic {
+	file: string;
+	line?: number;
+	rule: string; // lint rule ID, or the compiler's error code (e.g. TS2322)
+	severity: "error" | "warning";
+	message: string;
+}
+
+/** Path relative to `cwd` with forward slashes, so both runs compare equal. */
+export function relativeFile(cwd: string, file: string): string {
+	return path.relative(cwd, path.resolve(cwd, file)).split(path.sep).join("/");
+}
+
+/**
+ * Diagnostics in `current` beyond those in `baseline`. Findings are matched
+ * on file, rule and message — not line — so code shifting around an existing
+ * warning doesn't make it new.
+ */
+export function newDiagnostics(
+	baseline: Diagnostic[],
+	current: Diagnostic[],
+): Diagnostic[] {
+	const key = (d: Diagnostic) => `${d.file}\0${d.rule}\0${d.message}`;
+	const remaining = new Map<string, number>();
+	for (const d of baseline)
+		remaining.set(key(d), (remaining.get(key(d)) ?? 0) + 1);
+	return current.filter((d) => {
+		const left = remaining.get(key(d)) ?? 0;
+		if (left === 0) return true;
+		remaining.set(key(d), left - 1);
+		return false;
+	});
+}
+
+/**
+ * Check out the working dir's HEAD — the project before the agent ran, since
+ * the runner commits any uncommitted changes it copied — as a detached
+ * worktree sharing its node_modules, run `fn` in it, then remove it.
+ */
+export async function withPristineCopy<T>(
+	workingDir: string,
+	fn: (dir: string) => Promise<T>,
+): Promise<T> {
+	const dir = await mkdtemp(path.join(os.tmpdir(), "pristine-"));
+	try {
+		await execa("git", ["worktree", "add", "--detach", dir, "HEAD"], {
+			cwd: workingDir,
+		});
+		const modules = path.join(workingDir, "node_modules");
+		if (
+			(await fs.pathExists(modules)) &&
+			!(await fs.pathExists(path.join(dir, "node_modules")))
+		)
+			await symlink(modules, path.join(dir, "node_modules"), "dir");
+		return await fn(dir);
+	} finally {
+		await execa("git", ["worktree", "remove", "--force", dir], {
+			cwd: workingDir,
+			reject: false,
+		});
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Copy the working dir as it is now — the agent's changes included — sharing
+ * its node_modules, run `fn` in the copy, then remove it. For scorers that add
+ * files the agent and later scorers must not see.
+ */
+export async function withScratchCopy<T>(
+	workingDir: string,
+	fn: (dir: string) => Promise<T>,
+): Promise<T> {
+	const dir = await mkdtemp(path.join(os.tmpdir(), "scratch-"));
+	const modules = path.join(workingDir, "node_modules");
+	try {
+		await fs.copy(workingDir, dir, { filter: (src) => src !== modules });
+		if (await fs.pathExists(modules))
+			await symlink(modules, path.join(dir, "node_modules"), "dir");
+		return await fn(dir);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
@@ -83,3 +83,58 @@ export const Security: ClassifierSpec = {
 	],
 	passThreshold: 0.5, // a minor concern still passes; only a serious vuln fails
 };
+
+/** Whether the agent asked the clarifying questions the task called for. */
+export const ClarifyingQuestions: ClassifierSpec = {
+	name: "llm:clarifying-questions",
+	instructions:
+		"Did the agent ask the right clarifying questions before doing the task — the ones whose answers it needed and could not infer — and nothing it could have decided itself?\nTask:\n{{prompt}}\n\nQuestions asked and the user's answers (empty if none):\n{{questions}}",
+	choices: [
+		{
+			label: "A",
+			description:
+				"Right questions — asked what it needed (or nothing, if nothing was unclear), no noise",
+			score: 1,
+		},
+		{
+			label: "B",
+			description:
+				"Partly — missed a needed question, or asked something it could have decided",
+			score: 0.5,
+		},
+		{
+			label: "C",
+			description:
+				"Wrong — asked none of what mattered, or flooded the user with needless questions",
+			score: 0,
+		},
+	],
+	passThreshold: 0.5, // a partial miss still passes; only wrong questioning fails
+};
+
+/** Whether the change achieves what a known-good reference solution does. */
+export const MatchesReference: ClassifierSpec = {
+	name: "llm:matches-reference",
+	instructions:
+		"Does the agent's change achieve what the reference solution to the same task achieves? A different approach with the same behavior counts as a match.\nTask:\n{{prompt}}\n\nReference solution:\n{{expected}}\n\nAgent's diff:\n{{diff}}",
+	choices: [
+		{
+			label: "A",
+			description:
+				"Equivalent — same behavior as the reference, however written",
+			score: 1,
+		},
+		{
+			label: "B",
+			description:
+				"Partial — covers the reference's main change but misses or breaks part of it",
+			score: 0.5,
+		},
+		{
+			label: "C",
+			description: "Different — does not achieve what the reference does",
+			score: 0,
+		},
+	],
+	passThreshold: 1, // grading against a known answer: only equivalence passes
+};
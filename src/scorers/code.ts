@@ -1,5 +1,6 @@
 import type { ScorerContext, ScorerResult } from "../types";
 import { BaseScorer } from "./base";
+import { detectTestReport, scoreTestCases } from "./test-report";
 
 /**
  * Scorer that runs `npm run build` and scores 1.0 if successful, 0.0 if it fails.
@@ -18,18 +19,40 @@ export class BuildSuccessScorer extends BaseScorer {
 }
 
 /**
- * Scorer that runs `npm run test` and scores 1.0 if successful, 0.0 if it fails.
+ * Scorer that runs `npm run test` and scores the fraction of passing test
+ * cases when the output holds a Jest/Vitest JSON, JUnit XML or TAP report
+ * (counts, and failing names with durations and first error lines, go in
+ * `metadata`).
+ * Otherwise scores 1.0 if successful, 0.0 if it fails — as it does when the
+ * command fails without any failing test case (e.g. a coverage threshold).
  * Uses a 5-minute timeout.
  */
 export class TestSuccessScorer extends BaseScorer {
 	readonly name = "test";
 	async evaluate({ execCommand }: ScorerContext): Promise<ScorerResult> {
-		return execCommand({
+		const run = await execCommand({
 			command: "npm",
 			args: ["run", "test"],
 			timeout: 300000, // 5 minutes
 			successMessage: "Tests passed",
+			includeOutput: true,
 		});
+		const stdout = run.metadata?.stdout;
+		// A `{"score": ...}` line on stdout was already used as the result
+		if (typeof stdout !== "string") return run;
+
+		const tests = detectTestReport(stdout);
+		const { score, summary, metadata } = scoreTestCases(tests);
+		if (tests.length === 0 || (run.score === 0 && metadata.failed === 0)) {
+			// Output can be large; keep results lean like the other exit-code scorers
+			return { score: run.score, reason: run.reason };
+		}
+		return {
+			// Every case skipped: nothing failed, so the exit code decides
+			score: score ?? run.score,
+			reason: `Tests: ${summary}`,
+			metadata,
+		};
 	}
 }
 
@@ -0,0 +1,169 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import fs from "fs-extra";
+import type { ScorerContext, ScorerResult } from "../types";
+import { BaseScorer } from "./base";
+import { relativeFile, withPristineCopy } from "./baseline";
+import type { CoverageScorerSpec } from "./schema";
+
+type CoverageMetric = NonNullable<CoverageScorerSpec["metrics"]>[number];
+
+/** Percent covered per metric, for the whole run or one file. */
+type CoveragePcts = Partial<Record<CoverageMetric, number>>;
+
+/** A `coverage-summary.json` reduced to percentages: `total` plus one entry per file. */
+interface CoverageSummary {
+	total: CoveragePcts;
+	files: Record<string, CoveragePcts>;
+}
+
+const DEFAULT_SUMMARY = "coverage/coverage-summary.json";
+
+function pcts(entry: Record<string, { pct?: unknown }>): CoveragePcts {
+	const result: CoveragePcts = {};
+	for (const metric of [
+		"lines",
+		"branches",
+		"statements",
+		"functions",
+	] as const) {
+		// Reporters write "Unknown" when a file has nothing to cover
+		const pct = entry[metric]?.pct;
+		if (typeof pct === "number") result[metric] = pct;
+	}
+	return result;
+}
+
+/**
+ * Parse an istanbul / v8 `json-summary` report (what `--coverage` writes as
+ * `coverage/coverage-summary.json` with the json-summary reporter). File
+ * keys are made relative to `cwd`.
+ */
+export function parseCoverageSummary(
+	json: string,
+	cwd: string,
+): CoverageSummary {
+	const report = JSON.parse(json) as Record<
+		string,
+		Record<string, { pct?: unknown }>
+	>;
+	if (!report.total) throw new Error("no `total` entry");
+	const files: Record<string, CoveragePcts> = {};
+	for (const [file, entry] of Object.entries(report)) {
+		if (file !== "total") files[relativeFile(cwd, file)] = pcts(entry);
+	}
+	return { total: pcts(report.total), files };
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Scorer that runs the test command with coverage on the pristine project
+ * (the working dir's HEAD) and on the agent's changes, reads both
+ * `coverage-summary.json` files, and scores the percentage-point gain per
+ * metric (`lines` and `branches` by default) against `minDelta`: a gain of
+ * `minDelta` or more scores 1, smaller gains score proportionally, and with
+ * the default `minDelta` of 0 any drop fails. Score = mean over metrics.
+ *
+ * `metadata` has each metric's baseline / current / delta, the `minDelta`
+ * threshold, and per-file deltas for files whose coverage changed. A
+ * baseline without a report (e.g. no tests yet) counts as 0% covered.
+ * Scorer name defaults to `coverage`.
+ */
+export class CoverageScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<CoverageScorerSpec, "type">) {
+		super();
+		this.name = spec.name ?? "coverage";
+	}
+
+	/** Run the tests with coverage in `cwd`; `undefined` when no summary was written. */
+	private async measure(cwd: string): Promise<CoverageSummary | undefined> {
+		const { spec } = this;
+		const summary = path.join(cwd, spec.summary ?? DEFAULT_SUMMARY);
+		await fs.remove(summary); // never read a stale report
+		// Failing tests still write coverage; the test scorer judges pass/fail
+		await execa(spec.command, spec.args ?? [], {
+			cwd,
+			timeout: spec.timeout ?? 300000, // 5 minutes
+			reject: false,
+		});
+		if (!(await fs.pathExists(summary))) return undefined;
+		try {
+			return parseCoverageSummary(await readFile(summary, "utf8"), cwd);
+		} catch (err) {
+			throw new Error(
+				`invalid coverage summary ${spec.summary ?? DEFAULT_SUMMARY}: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+	}
+
+	async evaluate({ workingDir }: ScorerContext): Promise<ScorerResult> {
+		const { spec } = this;
+		const metrics = spec.metrics ?? ["lines", "branches"];
+		const minDelta = spec.minDelta ?? 0;
+
+		let baseline: CoverageSummary | undefined;
+		let current: CoverageSummary | undefined;
+		try {
+			baseline = await withPristineCopy(workingDir, (dir) => this.measure(dir));
+			current = await this.measure(workingDir);
+		} catch (err) {
+			return {
+				score: 0,
+				reason: err instanceof Error ? err.message : String(err),
+			};
+		}
+		if (!current) {
+			return {
+				score: 0,
+				reason: `no coverage summary at ${spec.summary ?? DEFAULT_SUMMARY} after ${spec.command} ${(spec.args ?? []).join(" ")}`,
+			};
+		}
+
+		const totals: Record<
+			string,
+			{ baseline: number; current: number; delta: number }
+		> = {};
+		const scores: number[] = [];
+		for (const metric of metrics) {
+			const before = baseline?.total[metric] ?? 0;
+			const after = current.total[metric] ?? 0;
+			const delta = round(after - before);
+			totals[metric] = { baseline: before, current: after, delta };
+			scores.push(
+				minDelta > 0
+					? Math.max(0, Math.min(1, delta / minDelta))
+					: delta >= 0
+						? 1
+						: 0,
+			);
+		}
+
+		const files: Record<string, CoveragePcts> = {};
+		for (const [file, after] of Object.entries(current.files)) {
+			const deltas: CoveragePcts = {};
+			for (const metric of metrics) {
+				const delta = round(
+					(after[metric] ?? 0) - (baseline?.files[file]?.[metric] ?? 0),
+				);
+				if (delta !== 0) deltas[metric] = delta;
+			}
+			if (Object.keys(deltas).length > 0) files[file] = deltas;
+		}
+
+		const summary = metrics
+			.map((m) => {
+				const { baseline: before, current: after, delta } = totals[m];
+				return `${m} ${before}% → ${after}% (${delta >= 0 ? "+" : ""}${delta})`;
+			})
+			.join(", ");
+		return {
+			score: scores.reduce((a, b) => a + b, 0) / scores.length,
+			reason: `Coverage: ${summary}${baseline ? "" : " (no baseline coverage report)"}`,
+			metadata: { minDelta, ...totals, files },
+		};
+	}
+}
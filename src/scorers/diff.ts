@@ -1,6 +1,59 @@
+import { readFile } from "node:fs/promises";
 import type { ScorerContext, ScorerResult } from "../types";
 import { BaseScorer } from "./base";
-import type { DiffScorerSpec } from "./schema";
+import type { DiffScorerSpec, DiffSimilarityScorerSpec } from "./schema";
+
+/** One `@@` hunk: its header and its changed (`+`/`-`) lines. */
+interface DiffHunk {
+	header: string;
+	changes: string[];
+}
+
+/** One file's section of a unified diff. */
+export interface DiffFile {
+	path: string; // New path (old path for deletions)
+	patch: string; // The file's raw section, newline-terminated (git apply-able)
+	hunks: DiffHunk[];
+}
+
+/** Split a unified diff (git or plain `---`/`+++`) into per-file sections. */
+export function parseDiff(diff: string): DiffFile[] {
+	const files: DiffFile[] = [];
+	const sections = diff
+		.split(/^(?=diff --git )/m)
+		.flatMap((section) =>
+			section.startsWith("diff --git ")
+				? [section]
+				: section.split(/^(?=--- .*\n\+\+\+ )/m),
+		);
+	for (const section of sections) {
+		const git = section.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+		const plus = section.match(/^\+\+\+ (?:b\/)?(.+)$/m);
+		const minus = section.match(/^--- (?:a\/)?(.+)$/m);
+		const path =
+			git?.[2] ??
+			(plus && plus[1] !== "/dev/null" ? plus[1] : minus?.[1]?.trim());
+		if (!path) continue;
+
+		const hunks: DiffHunk[] = [];
+		for (const line of section.split("\n")) {
+			if (line.startsWith("@@")) {
+				hunks.push({
+					header: line.match(/^@@[^@]*@@/)?.[0] ?? line,
+					changes: [],
+				});
+			} else if (hunks.length > 0 && /^[+-]/.test(line)) {
+				hunks[hunks.length - 1].changes.push(line);
+			}
+		}
+		files.push({
+			path: path.trim(),
+			patch: section.endsWith("\n") ? section : `${section}\n`,
+			hunks,
+		});
+	}
+	return files;
+}
 
 /** Scorer that regex-matches `ctx.diff`; passes when the pattern is present/absent per `expect`. */
 export class DiffContainsScorer extends BaseScorer {
@@ -33,3 +86,128 @@ export class DiffContainsScorer extends BaseScorer {
 				};
 	}
 }
+
+/** Changed lines compared by sign and content, ignoring indentation and blank lines. */
+function changeKeys(hunk: DiffHunk): string[] {
+	return hunk.changes
+		.map((line) => `${line[0]}${line.slice(1).trim()}`)
+		.filter((key) => key.length > 1);
+}
+
+/** Dice coefficient of two multisets of changed lines: 2|A∩B| / (|A|+|B|). */
+function hunkSimilarity(a: DiffHunk, b: DiffHunk): number {
+	const left = changeKeys(a);
+	const right = changeKeys(b);
+	if (left.length + right.length === 0) return 1;
+	const counts = new Map<string, number>();
+	for (const key of left) counts.set(key, (counts.get(key) ?? 0) + 1);
+	let shared = 0;
+	for (const key of right) {
+		const n = counts.get(key) ?? 0;
+		if (n > 0) {
+			shared++;
+			counts.set(key, n - 1);
+		}
+	}
+	return (2 * shared) / (left.length + right.length);
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Scorer that compares `ctx.diff` with a reference patch: file-level overlap
+ * (precision/recall of touched files) and hunk-level similarity (each reference
+ * hunk's best Dice match among the agent's hunks in the same file). Score is
+ * the mean of the file F1 and the mean hunk similarity, so "solved it
+ * differently" keeps file credit while "solved half of it" loses both.
+ *
+ * The reference is `spec.reference` (a patch file, resolved against the eval
+ * file by the loader) or else the prompt's `expected` diff. Scorer name
+ * defaults to `diff-similarity`; passes at `passThreshold` (default 0.5).
+ */
+export class DiffSimilarityScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<DiffSimilarityScorerSpec, "type"> = {}) {
+		super();
+		this.name = spec.name ?? "diff-similarity";
+	}
+
+	async evaluate({ diff, expected }: ScorerContext): Promise<ScorerResult> {
+		const { spec } = this;
+		const passThreshold = spec.passThreshold ?? 0.5;
+		let reference: string;
+		if (spec.reference) {
+			try {
+				reference = await readFile(spec.reference, "utf8");
+			} catch (err) {
+				return {
+					score: 0,
+					reason: `cannot read reference patch ${spec.reference}: ${err instanceof Error ? err.message : String(err)}`,
+					passThreshold,
+				};
+			}
+		} else if (expected?.type === "diff") {
+			reference = expected.diff;
+		} else {
+			return {
+				score: 0,
+				reason: "no reference patch (set `reference` or a diff `expected`)",
+				passThreshold,
+			};
+		}
+
+		// The runner writes .env itself before the agent runs; it's not the agent's
+		const agentFiles = parseDiff(diff).filter((f) => f.path !== ".env");
+		const referenceFiles = parseDiff(reference);
+		const touched = new Set(agentFiles.map((f) => f.path));
+		const expectedPaths = new Set(referenceFiles.map((f) => f.path));
+		const shared = [...expectedPaths].filter((p) => touched.has(p));
+		const precision = touched.size === 0 ? 0 : shared.length / touched.size;
+		const recall =
+			expectedPaths.size === 0 ? 0 : shared.length / expectedPaths.size;
+		const f1 =
+			precision + recall === 0
+				? 0
+				: (2 * precision * recall) / (precision + recall);
+
+		const hunkThreshold = spec.hunkThreshold ?? 0.5;
+		const matched: Array<{ file: string; hunk: string; similarity: number }> =
+			[];
+		const missed: Array<{ file: string; hunk: string; similarity: number }> =
+			[];
+		for (const file of referenceFiles) {
+			const candidates =
+				agentFiles.find((f) => f.path === file.path)?.hunks ?? [];
+			for (const hunk of file.hunks) {
+				const similarity = round(
+					Math.max(0, ...candidates.map((c) => hunkSimilarity(hunk, c))),
+				);
+				const entry = { file: file.path, hunk: hunk.header, similarity };
+				(similarity >= hunkThreshold ? matched : missed).push(entry);
+			}
+		}
+		const hunks = [...matched, ...missed];
+		const hunkScore =
+			hunks.length === 0
+				? f1
+				: hunks.reduce((sum, h) => sum + h.similarity, 0) / hunks.length;
+
+		const score = round((f1 + hunkScore) / 2);
+		return {
+			score,
+			reason: `files P=${round(precision)} R=${round(recall)}; ${matched.length}/${hunks.length} reference hunk(s) matched (similarity ${round(hunkScore)})`,
+			metadata: {
+				files: {
+					precision: round(precision),
+					recall: round(recall),
+					matched: shared,
+					missed: [...expectedPaths].filter((p) => !touched.has(p)),
+					extra: [...touched].filter((p) => !expectedPaths.has(p)),
+				},
+				hunks: { similarity: round(hunkScore), matched, missed },
+			},
+			passThreshold,
+		};
+	}
+}
@@ -39,10 +39,11 @@ export function buildExecCommand(workingDir: string) {
 			timeout = 120000, // Default 2 minutes
 			successMessage,
 			failureMessage,
+			includeOutput = false,
 		} = options;
 
 		try {
-			const { stdout } = await execa(command, args, {
+			const { stdout, stderr } = await execa(command, args, {
 				cwd: workingDir,
 				timeout,
 			});
@@ -51,15 +52,24 @@ export function buildExecCommand(workingDir: string) {
 			return {
 				score: 1.0,
 				reason: successMessage || `${command} ${args.join(" ")} passed`,
+				...(includeOutput && { metadata: { stdout, stderr } }),
 			};
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
+			// ExecaError carries the output of a command that exited non-zero
+			const output = error as { stdout?: unknown; stderr?: unknown };
 			return {
 				score: 0.0,
 				reason: failureMessage
 					? `${failureMessage}: ${errorMessage}`
 					: `${command} ${args.join(" ")} failed: ${errorMessage}`,
+				...(includeOutput && {
+					metadata: {
+						stdout: typeof output.stdout === "string" ? output.stdout : "",
+						stderr: typeof output.stderr === "string" ? output.stderr : "",
+					},
+				}),
 			};
 		}
 	};
@@ -0,0 +1,92 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import fs from "fs-extra";
+import type { ScorerContext, ScorerResult } from "../types";
+import { BaseScorer } from "./base";
+import { withScratchCopy } from "./baseline";
+import { buildExecCommand } from "./factories";
+import type { HiddenTestsScorerSpec } from "./schema";
+import { parseTestReport, scoreTestCases } from "./test-report";
+
+/**
+ * Scorer that copies a held-out test directory into a scratch copy of the
+ * working dir after the agent finishes — so neither the agent, in later turns,
+ * nor later scorers ever see those tests — runs them there, and scores the
+ * fraction of test cases that passed, parsed from the runner's JUnit XML, TAP
+ * or Jest/Vitest JSON report (`report` file, else stdout).
+ *
+ * `dir` is resolved against the eval file by the loader. Scorer name defaults
+ * to `hidden-tests`; passes only when every hidden test passes unless
+ * `passThreshold` is lowered.
+ */
+export class HiddenTestScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<HiddenTestsScorerSpec, "type">) {
+		super();
+		this.name = spec.name ?? "hidden-tests";
+	}
+
+	async evaluate({ workingDir }: ScorerContext): Promise<ScorerResult> {
+		return withScratchCopy(workingDir, (dir) => this.run(dir));
+	}
+
+	private async run(workingDir: string): Promise<ScorerResult> {
+		const { spec } = this;
+		const threshold =
+			spec.passThreshold !== undefined
+				? { passThreshold: spec.passThreshold }
+				: {};
+
+		const dest = path.join(workingDir, spec.into ?? ".");
+		try {
+			await fs.copy(spec.dir, dest, { overwrite: true });
+		} catch (err) {
+			return {
+				score: 0,
+				reason: `could not copy hidden tests from ${spec.dir}: ${err instanceof Error ? err.message : String(err)}`,
+				...threshold,
+			};
+		}
+
+		const run = await buildExecCommand(workingDir)({
+			command: spec.command,
+			args: spec.args ?? [],
+			timeout: spec.timeout ?? 300000, // 5 minutes, like TestSuccessScorer
+			includeOutput: true,
+		});
+		const stdout = String(run.metadata?.stdout ?? "");
+
+		let report = stdout;
+		if (spec.report) {
+			try {
+				report = await readFile(path.join(workingDir, spec.report), "utf8");
+			} catch {
+				return {
+					score: 0,
+					reason: `no test report at ${spec.report} (${run.reason})`,
+					metadata: { stdout, stderr: run.metadata?.stderr },
+					...threshold,
+				};
+			}
+		}
+
+		const tests = parseTestReport(report, spec.format);
+		if (tests.length === 0) {
+			return {
+				score: 0,
+				reason: `no ${spec.format} test results found (${run.reason})`,
+				metadata: { stdout, stderr: run.metadata?.stderr },
+				...threshold,
+			};
+		}
+		const { score, summary, metadata } = scoreTestCases(tests);
+		return {
+			// Every case skipped: nothing failed, so the exit code decides
+			score: score ?? run.score,
+			reason: `Hidden tests: ${summary}`,
+			metadata,
+			...threshold,
+		};
+	}
+}
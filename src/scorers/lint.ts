@@ -0,0 +1,165 @@
+import { execa } from "execa";
+import type { ScorerContext, ScorerResult } from "../types";
+import { BaseScorer } from "./base";
+import {
+	type Diagnostic,
+	newDiagnostics,
+	relativeFile,
+	withPristineCopy,
+} from "./baseline";
+import type { LintBaselineScorerSpec } from "./schema";
+
+type LintTool = LintBaselineScorerSpec["tool"];
+
+/** JSON-reporter invocations, run through `npx` unless `command` is set. */
+const DEFAULT_ARGS: Record<LintTool, string[]> = {
+	eslint: ["eslint", "--format", "json", "."],
+	biome: ["biome", "lint", "--reporter=json", "."],
+};
+
+/** Number of new diagnostics quoted in the reason; the rest are in metadata. */
+const REASON_LIMIT = 5;
+
+interface ESLintFileResult {
+	filePath: string;
+	messages: {
+		ruleId: string | null;
+		severity: number;
+		message: string;
+		line?: number;
+	}[];
+}
+
+interface BiomeDiagnostic {
+	category?: string;
+	severity: string;
+	message?: string;
+	description?: string;
+	// Biome 2 reports `path` as a string with line/column; 1.x as `{ file }`
+	location?: {
+		path?: string | { file?: string };
+		start?: { line?: number };
+	};
+}
+
+/**
+ * Parse an ESLint (`--format json`) or Biome (`--reporter=json`) report into
+ * diagnostics. Informational findings are dropped. Throws when `output` is
+ * not the tool's JSON report.
+ */
+export function parseLintReport(
+	output: string,
+	tool: LintTool,
+	cwd: string,
+): Diagnostic[] {
+	const start = output.indexOf(tool === "eslint" ? "[" : "{");
+	if (start === -1) throw new Error(`no ${tool} JSON report in output`);
+	const report = JSON.parse(output.slice(start));
+
+	if (tool === "eslint") {
+		return (report as ESLintFileResult[]).flatMap((file) =>
+			file.messages.map((m) => ({
+				file: relativeFile(cwd, file.filePath),
+				...(m.line !== undefined && { line: m.line }),
+				rule: m.ruleId ?? "fatal", // parse errors carry no rule
+				severity: m.severity === 2 ? "error" : "warning",
+				message: m.message,
+			})),
+		);
+	}
+
+	const diagnostics: Diagnostic[] = [];
+	for (const d of (report.diagnostics ?? []) as BiomeDiagnostic[]) {
+		if (d.severity !== "error" && d.severity !== "warning") continue;
+		const where = d.location?.path;
+		const file = typeof where === "string" ? where : where?.file;
+		const line = d.location?.start?.line;
+		diagnostics.push({
+			file: file ? relativeFile(cwd, file) : "",
+			...(line !== undefined && { line }),
+			rule: d.category ?? "unknown",
+			severity: d.severity,
+			message: d.message ?? d.description ?? "",
+		});
+	}
+	return diagnostics;
+}
+
+/**
+ * Scorer that lints both the pristine project (the working dir's HEAD) and
+ * the agent's changes with ESLint or Biome in JSON mode, and passes only when
+ * the change introduces no new diagnostics — so a repo that already had 200
+ * warnings isn't failed for them. New findings (rule, file, line) are listed
+ * in `metadata.new`; `severity: "error"` ignores warnings.
+ *
+ * Scorer name defaults to `lint-baseline`.
+ */
+export class LintBaselineScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<LintBaselineScorerSpec, "type">) {
+		super();
+		this.name = spec.name ?? "lint-baseline";
+	}
+
+	private async lint(cwd: string): Promise<Diagnostic[]> {
+		const { spec } = this;
+		const command = spec.command ?? "npx";
+		const args = spec.args ?? DEFAULT_ARGS[spec.tool];
+		// Linters exit non-zero when they find errors; the report is still on stdout
+		const { stdout, stderr } = await execa(command, args, {
+			cwd,
+			timeout: spec.timeout ?? 120000,
+			reject: false,
+		});
+		try {
+			const diagnostics = parseLintReport(stdout, spec.tool, cwd);
+			return spec.severity === "error"
+				? diagnostics.filter((d) => d.severity === "error")
+				: diagnostics;
+		} catch (err) {
+			const detail = stderr.trim().split("\n")[0] || stdout.slice(0, 200);
+			throw new Error(
+				`${command} ${args.join(" ")}: could not parse ${spec.tool} report (${err instanceof Error ? err.message : String(err)})${detail ? `: ${detail}` : ""}`,
+			);
+		}
+	}
+
+	async evaluate({ workingDir }: ScorerContext): Promise<ScorerResult> {
+		let baseline: Diagnostic[];
+		let current: Diagnostic[];
+		try {
+			baseline = await withPristineCopy(workingDir, (dir) => this.lint(dir));
+			current = await this.lint(workingDir);
+		} catch (err) {
+			return {
+				score: 0,
+				reason: err instanceof Error ? err.message : String(err),
+			};
+		}
+
+		const added = newDiagnostics(baseline, current);
+		const metadata = {
+			baseline: baseline.length,
+			current: current.length,
+			new: added,
+		};
+		if (added.length === 0) {
+			return {
+				score: 1,
+				reason: `No new lint diagnostics (${baseline.length} in baseline)`,
+				metadata,
+			};
+		}
+		const listed = added
+			.slice(0, REASON_LIMIT)
+			.map((d) => `${d.file}${d.line ? `:${d.line}` : ""} ${d.rule}`);
+		if (added.length > REASON_LIMIT)
+			listed.push(`${added.length - REASON_LIMIT} more`);
+		return {
+			score: 0,
+			reason: `${added.length} new lint diagnostic(s): ${listed.join(", ")}`,
+			metadata,
+		};
+	}
+}
@@ -1,22 +1,26 @@
 import { query } from "@anthropic-ai/claude-agent-sdk";
+import { renderExpected } from "../expected";
 import type {
 	Choice,
 	ClassifierSpec,
 	ScorerContext,
 	ScorerResult,
 } from "../types";
+import { simulatedExchanges } from "../user-simulator";
 import { BaseScorer } from "./base";
 
 /**
- * Template vars an author may reference in `instructions`. `expected` is reserved
- * in the contract but not populated in v1 — referencing it renders to an empty
- * string (a future reference-answer channel fills it without a breaking change).
+ * Template vars an author may reference in `instructions`. `questions` lists
+ * the simulated-user exchanges (empty without a user simulator). `expected` is
+ * the prompt's reference answer (see {@link renderExpected}); it renders to an
+ * empty string when the prompt has none.
  */
 const KNOWN_VARS = [
 	"prompt",
 	"diff",
 	"finalText",
 	"agentOutput",
+	"questions",
 	"expected",
 ] as const;
 
@@ -33,7 +37,8 @@ function renderInstructions(
 	);
 }
 
-function parseMessages(agentOutput: string): unknown[] {
+/** `agentOutput` as a message array; [] when it isn't one. */
+export function parseMessages(agentOutput: string): unknown[] {
 	try {
 		const parsed = JSON.parse(agentOutput);
 		return Array.isArray(parsed) ? parsed : [];
@@ -43,7 +48,7 @@ function parseMessages(agentOutput: string): unknown[] {
 }
 
 /** Concatenate the assistant text blocks across `agentOutput` messages. */
-function finalTextFrom(messages: unknown[]): string {
+export function finalTextFrom(messages: unknown[]): string {
 	const texts: string[] = [];
 	for (const msg of messages) {
 		const m = msg as { type?: string; message?: { content?: unknown } };
@@ -66,7 +71,13 @@ function varsFrom(ctx: ScorerContext): Record<string, string> {
 		diff: ctx.diff,
 		finalText: finalTextFrom(messages),
 		agentOutput: ctx.agentOutput,
-		expected: "",
+		questions: simulatedExchanges(ctx.agentOutput)
+			.map(
+				(e) =>
+					`${e.questions.map((q) => `Q: ${q}`).join("\n")}\nA: ${e.answer}`,
+			)
+			.join("\n\n"),
+		expected: renderExpected(ctx.expected),
 	};
 }
 
@@ -0,0 +1,123 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import type { ScorerContext, ScorerResult } from "../types";
+import { BaseScorer } from "./base";
+import { parseDiff } from "./diff";
+import { finalTextFrom, parseMessages } from "./llm-classifier";
+import type { ReferenceScorerSpec } from "./schema";
+
+/** Collapse whitespace and case so formatting differences don't count. */
+function normalizeText(text: string): string {
+	return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** Ignore trailing whitespace on each line and at the end of the file. */
+function normalizeFile(content: string): string {
+	return content
+		.split(/\r?\n/)
+		.map((line) => line.trimEnd())
+		.join("\n")
+		.trimEnd();
+}
+
+/** The reference items the working dir did (`matched`) and did not (`missed`) reproduce. */
+type Comparison = { matched: string[]; missed: string[] };
+
+/** A reference patch is reproduced when it reverse-applies cleanly to the working dir. */
+async function compareDiff(
+	workingDir: string,
+	diff: string,
+): Promise<Comparison> {
+	const result: Comparison = { matched: [], missed: [] };
+	for (const { path: file, patch } of parseDiff(diff)) {
+		const check = await execa("git", ["apply", "--check", "-R", "-"], {
+			cwd: workingDir,
+			input: patch,
+			reject: false,
+		});
+		result[check.exitCode === 0 ? "matched" : "missed"].push(file);
+	}
+	return result;
+}
+
+async function compareFiles(
+	workingDir: string,
+	files: Record<string, string>,
+): Promise<Comparison> {
+	const result: Comparison = { matched: [], missed: [] };
+	for (const [file, expected] of Object.entries(files)) {
+		let actual: string | null;
+		try {
+			actual = await readFile(path.join(workingDir, file), "utf8");
+		} catch {
+			actual = null;
+		}
+		const same =
+			actual !== null && normalizeFile(actual) === normalizeFile(expected);
+		result[same ? "matched" : "missed"].push(file);
+	}
+	return result;
+}
+
+/**
+ * Compares the iteration against the prompt's reference answer
+ * (`ScorerContext.expected`): a reference `diff` must reverse-apply to the
+ * working dir file by file, a reference `files` tree must match file contents
+ * (ignoring trailing whitespace), and reference `text` must appear in the
+ * agent's final reply (ignoring case and whitespace). Scores the fraction of
+ * files reproduced; fails without a reference.
+ *
+ * Scorer name defaults to `reference-match`.
+ */
+export class ReferenceMatchScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(spec: Omit<ReferenceScorerSpec, "type"> = {}) {
+		super();
+		this.name = spec.name ?? "reference-match";
+	}
+
+	async evaluate(ctx: ScorerContext): Promise<ScorerResult> {
+		const { expected } = ctx;
+		if (!expected) {
+			return {
+				score: 0,
+				reason: `No expected value for prompt '${ctx.promptId}'`,
+			};
+		}
+		if (expected.type === "text") {
+			const found = normalizeText(
+				finalTextFrom(parseMessages(ctx.agentOutput)),
+			).includes(normalizeText(expected.text));
+			return {
+				score: found ? 1 : 0,
+				reason: found
+					? "Final reply contains the expected text"
+					: "Final reply does not contain the expected text",
+				metadata: { type: expected.type },
+			};
+		}
+
+		const { matched, missed } =
+			expected.type === "diff"
+				? await compareDiff(ctx.workingDir, expected.diff)
+				: await compareFiles(ctx.workingDir, expected.files);
+		const total = matched.length + missed.length;
+		if (total === 0) {
+			return {
+				score: 0,
+				reason: `Expected ${expected.type} has no files to compare`,
+				metadata: { type: expected.type, matched, missed },
+			};
+		}
+		return {
+			score: matched.length / total,
+			reason:
+				missed.length === 0
+					? `All ${total} reference file(s) reproduced`
+					: `${matched.length}/${total} reference file(s) reproduced; missed ${missed.join(", ")}`,
+			metadata: { type: expected.type, matched, missed },
+		};
+	}
+}
@@ -5,24 +5,41 @@ import type {
 	ScorerContext,
 	ScorerResult,
 } from "../types";
-import { SkillPickedUpScorer } from "./agent";
-import { CodeQuality, InstructionFollowing, Security } from "./classifiers";
+import {
+	QuestionsAskedScorer,
+	SkillPickedUpScorer,
+	ToolUsageScorer,
+} from "./agent";
+import {
+	ClarifyingQuestions,
+	CodeQuality,
+	InstructionFollowing,
+	MatchesReference,
+	Security,
+} from "./classifiers";
 import {
 	BuildSuccessScorer,
 	LintSuccessScorer,
 	TestSuccessScorer,
 } from "./code";
-import { DiffContainsScorer } from "./diff";
+import { CoverageScorer } from "./coverage";
+import { DiffContainsScorer, DiffSimilarityScorer } from "./diff";
 import { clampScore } from "./factories";
 import { FileScorer } from "./file";
+import { HiddenTestScorer } from "./hidden-tests";
+import { LintBaselineScorer } from "./lint";
 import { LLMClassifierScorer } from "./llm-classifier";
+import { ReferenceMatchScorer } from "./reference";
 import type { ScorerSpec, ScriptScorerSpec } from "./schema";
+import { TypecheckScorer } from "./typecheck";
 
 /** Built-in classifier specs, selectable by name in an `llm-classifier` spec. */
 export const BUILTINS: Record<string, ClassifierSpec> = {
 	InstructionFollowing,
 	CodeQuality,
 	Security,
+	ClarifyingQuestions,
+	MatchesReference,
 };
 
 async function importScriptDefault(scriptPath: string): Promise<unknown> {
@@ -61,6 +78,8 @@ export function compileScorer(spec: ScorerSpec): Scorer {
 			return new TestSuccessScorer();
 		case "lint":
 			return new LintSuccessScorer();
+		case "coverage":
+			return new CoverageScorer(spec);
 		case "command":
 			return {
 				name: spec.name,
@@ -75,10 +94,24 @@ export function compileScorer(spec: ScorerSpec): Scorer {
 			};
 		case "skill-picked-up":
 			return new SkillPickedUpScorer(spec.skill);
+		case "questions-asked":
+			return new QuestionsAskedScorer(spec);
+		case "tool-usage":
+			return new ToolUsageScorer(spec);
+		case "reference-match":
+			return new ReferenceMatchScorer(spec);
 		case "file":
 			return new FileScorer(spec);
 		case "diff-contains":
 			return new DiffContainsScorer(spec);
+		case "diff-similarity":
+			return new DiffSimilarityScorer(spec);
+		case "hidden-tests":
+			return new HiddenTestScorer(spec);
+		case "lint-baseline":
+			return new LintBaselineScorer(spec);
+		case "typecheck":
+			return new TypecheckScorer(spec);
 		case "all":
 		case "any": {
 			const children = spec.of.map(compileScorer);
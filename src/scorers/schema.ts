@@ -1,18 +1,34 @@
 import { z } from "zod";
-import type { ClassifierSpec } from "../types";
+import type { ClassifierSpec, ExpectedSpec } from "../types";
+
+/** One scope of `EvalConfig.budget` (see BudgetLimits). */
+const budgetLimitsSchema = z
+	.object({
+		maxTokens: z.number().int().positive().optional(),
+		maxUsd: z.number().positive().optional(),
+		maxTurns: z.number().int().positive().optional(),
+	})
+	.strict();
 
 /** All scalar EvalConfig fields — shared by the TS and JSON config schemas. */
 const baseConfigShape = {
 	name: z.string(),
-	prompts: z
-		.array(z.object({ id: z.string(), prompt: z.string() }).strict())
-		.nonempty(),
 	projectDir: z.string(),
 	iterations: z.number().int().positive().optional(),
 	execution: z
 		.object({
 			mode: z.enum(["sequential", "parallel", "parallel-limit"]),
 			concurrency: z.number().int().positive().optional(),
+			// Iterations per prompt until the pass rate is known (see AdaptiveIterations)
+			adaptive: z
+				.object({
+					maxIterations: z.number().int().positive(),
+					minIterations: z.number().int().positive().optional(),
+					ciWidth: z.number().positive().max(1).optional(),
+					stopWhenSeparated: z.boolean().optional(),
+				})
+				.strict()
+				.optional(),
 		})
 		.strict()
 		.optional(),
@@ -20,8 +36,78 @@ const baseConfigShape = {
 	verbose: z.boolean().optional(),
 	tempDirCleanup: z.enum(["always", "on-failure", "never"]).optional(),
 	resultsDir: z.string().optional(),
+	snapshot: z.boolean().optional(),
 	passThreshold: z.number().min(0).max(1).optional(),
 	installDependencies: z.boolean().optional(),
+	replay: z
+		.object({ results: z.string(), diffsDir: z.string().optional() })
+		.strict()
+		.optional(),
+	// A previous results.json; significant score drops against it fail the run
+	baseline: z.string().optional(),
+	// A run directory to finish from its checkpoint.jsonl
+	resume: z.string().optional(),
+	userSimulator: z
+		.object({
+			rules: z
+				.array(
+					z
+						.object({
+							match: z.string(),
+							flags: z.string().optional(),
+							reply: z.string(),
+						})
+						.strict(),
+				)
+				.optional(),
+			persona: z
+				.object({ instructions: z.string(), model: z.string().optional() })
+				.strict()
+				.optional(),
+			fallback: z.string().optional(),
+			maxExchanges: z.number().int().nonnegative().optional(),
+		})
+		.strict()
+		.optional(),
+	// USD per million tokens, keyed by model or agentId (see ModelPricing)
+	pricing: z
+		.record(
+			z.string(),
+			z
+				.object({
+					input: z.number().nonnegative(),
+					output: z.number().nonnegative(),
+					cacheWrite: z.number().nonnegative().optional(),
+					cacheRead: z.number().nonnegative().optional(),
+				})
+				.strict(),
+		)
+		.optional(),
+	// Compare each prompt against the first; defaults to false with a dataset
+	compare: z.boolean().optional(),
+	// k values for the pass@k / pass^k reliability metrics
+	passAtK: z.array(z.number().int().positive()).optional(),
+	// Token / USD / turn limits per iteration and for the whole eval (see EvalBudget)
+	budget: z
+		.object({
+			iteration: budgetLimitsSchema.optional(),
+			total: budgetLimitsSchema.optional(),
+		})
+		.strict()
+		.optional(),
+	// A dataset file of tasks (see DatasetConfig); its rows are appended to `prompts`
+	dataset: z
+		.union([
+			z.string(),
+			z
+				.object({
+					path: z.string(),
+					format: z.enum(["jsonl", "json", "yaml", "csv"]).optional(),
+					fixturesDir: z.string().optional(),
+				})
+				.strict(),
+		])
+		.optional(),
 	agentId: z.string().optional(),
 	claudeCodeOptions: z.record(z.string(), z.unknown()).optional(),
 } as const;
@@ -41,6 +127,19 @@ export type ScorerSpec =
 			failureMessage?: string;
 	  }
 	| { type: "skill-picked-up"; skill: string; name?: string }
+	| { type: "questions-asked"; name?: string; min?: number; max?: number }
+	| {
+			type: "tool-usage";
+			name?: string;
+			tool?: string; // tool whose calls `input` / `called` / `min` / `max` check
+			input?: Record<string, string>; // input field -> regex the call must match
+			called?: boolean;
+			min?: number;
+			max?: number;
+			order?: { before: string; after: string; sameFile?: boolean };
+			forbiddenCommands?: string[]; // regexes over Bash commands
+	  }
+	| { type: "reference-match"; name?: string }
 	| {
 			type: "file";
 			name?: string;
@@ -57,6 +156,52 @@ export type ScorerSpec =
 			expect?: "present" | "absent";
 			flags?: string;
 	  }
+	| {
+			type: "diff-similarity";
+			name?: string;
+			reference?: string; // patch file, relative to the eval file; default: the prompt's diff `expected`
+			hunkThreshold?: number;
+			passThreshold?: number;
+	  }
+	| {
+			type: "hidden-tests";
+			name?: string;
+			dir: string; // held-out tests, relative to the eval file
+			into?: string; // destination in the working dir. Default: "."
+			command: string;
+			args?: string[];
+			timeout?: number;
+			format: "junit" | "tap" | "json";
+			report?: string; // report file in the working dir. Default: stdout
+			passThreshold?: number;
+	  }
+	| {
+			type: "lint-baseline";
+			name?: string;
+			tool: "eslint" | "biome";
+			command?: string; // Default: "npx"
+			args?: string[]; // Default: the tool's JSON-reporter invocation over "."
+			severity?: "error" | "warning"; // lowest severity counted. Default: "warning"
+			timeout?: number;
+	  }
+	| {
+			type: "typecheck";
+			name?: string;
+			project?: string; // tsconfig passed as `-p`, relative to the working dir
+			command?: string; // Default: "npx"
+			args?: string[]; // Default: tsc --noEmit --pretty false [-p project]
+			timeout?: number;
+	  }
+	| {
+			type: "coverage";
+			name?: string;
+			command: string; // test command that writes a json-summary coverage report
+			args?: string[];
+			summary?: string; // relative to the working dir. Default: "coverage/coverage-summary.json"
+			metrics?: ("lines" | "branches" | "statements" | "functions")[]; // Default: lines, branches
+			minDelta?: number; // percentage points for a full score. Default: 0 (no drop)
+			timeout?: number;
+	  }
 	| { type: "all"; name?: string; of: ScorerSpec[] }
 	| { type: "any"; name?: string; of: ScorerSpec[] }
 	| { type: "script"; name: string; path: string }
@@ -106,6 +251,53 @@ const scorerSpecSchema: z.ZodType<ScorerSpec> = z.discriminatedUnion("type", [
 			name: z.string().optional(),
 		})
 		.strict(),
+	z
+		.object({
+			type: z.literal("questions-asked"),
+			name: z.string().optional(),
+			min: z.number().int().nonnegative().optional(),
+			max: z.number().int().nonnegative().optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("tool-usage"),
+			name: z.string().optional(),
+			tool: z.string().optional(),
+			input: z.record(z.string(), z.string()).optional(),
+			called: z.boolean().optional(),
+			min: z.number().int().nonnegative().optional(),
+			max: z.number().int().nonnegative().optional(),
+			order: z
+				.object({
+					before: z.string(),
+					after: z.string(),
+					sameFile: z.boolean().optional(),
+				})
+				.strict()
+				.optional(),
+			forbiddenCommands: z.array(z.string()).optional(),
+		})
+		.strict()
+		.refine(
+			(s) => s.tool != null || s.order != null || s.forbiddenCommands != null,
+			{
+				message:
+					"tool-usage scorer requires at least one of tool/order/forbiddenCommands",
+			},
+		)
+		.refine(
+			(s) =>
+				s.tool != null ||
+				(s.input == null && s.called == null && s.min == null && s.max == null),
+			{ message: "tool-usage input/called/min/max require `tool`" },
+		),
+	z
+		.object({
+			type: z.literal("reference-match"),
+			name: z.string().optional(),
+		})
+		.strict(),
 	z
 		.object({
 			type: z.literal("file"),
@@ -140,6 +332,65 @@ const scorerSpecSchema: z.ZodType<ScorerSpec> = z.discriminatedUnion("type", [
 			flags: z.string().optional(),
 		})
 		.strict(),
+	z
+		.object({
+			type: z.literal("diff-similarity"),
+			name: z.string().optional(),
+			reference: z.string().optional(),
+			hunkThreshold: z.number().min(0).max(1).optional(),
+			passThreshold: z.number().min(0).max(1).optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("hidden-tests"),
+			name: z.string().optional(),
+			dir: z.string(),
+			into: z.string().optional(),
+			command: z.string(),
+			args: z.array(z.string()).optional(),
+			timeout: z.number().optional(),
+			format: z.enum(["junit", "tap", "json"]),
+			report: z.string().optional(),
+			passThreshold: z.number().min(0).max(1).optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("lint-baseline"),
+			name: z.string().optional(),
+			tool: z.enum(["eslint", "biome"]),
+			command: z.string().optional(),
+			args: z.array(z.string()).optional(),
+			severity: z.enum(["error", "warning"]).optional(),
+			timeout: z.number().optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("typecheck"),
+			name: z.string().optional(),
+			project: z.string().optional(),
+			command: z.string().optional(),
+			args: z.array(z.string()).optional(),
+			timeout: z.number().optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("coverage"),
+			name: z.string().optional(),
+			command: z.string(),
+			args: z.array(z.string()).optional(),
+			summary: z.string().optional(),
+			metrics: z
+				.array(z.enum(["lines", "branches", "statements", "functions"]))
+				.nonempty()
+				.optional(),
+			minDelta: z.number().min(0).optional(),
+			timeout: z.number().optional(),
+		})
+		.strict(),
 	z
 		.object({
 			type: z.literal("all"),
@@ -167,46 +418,216 @@ const scorerSpecSchema: z.ZodType<ScorerSpec> = z.discriminatedUnion("type", [
 		.strict(),
 ]);
 
+/** Agent spec union for JSON configs (TS configs pass an adapter instance instead). */
+export type AgentSpec = {
+	type: "cli";
+	id?: string;
+	command: string;
+	args: string[];
+	env?: Record<string, string>;
+	parser?: string;
+};
+
+const agentSpecSchema: z.ZodType<AgentSpec> = z.discriminatedUnion("type", [
+	z
+		.object({
+			type: z.literal("cli"),
+			id: z.string().optional(),
+			command: z.string(),
+			// `{{prompt}}` in any arg is replaced with the prompt text
+			args: z.array(z.string()),
+			env: z.record(z.string(), z.string()).optional(),
+			// built-in output parser name: "stream-json" (default) or "text"
+			parser: z.string().optional(),
+		})
+		.strict(),
+]);
+
 export type FileScorerSpec = Extract<ScorerSpec, { type: "file" }>;
 export type DiffScorerSpec = Extract<ScorerSpec, { type: "diff-contains" }>;
+export type DiffSimilarityScorerSpec = Extract<
+	ScorerSpec,
+	{ type: "diff-similarity" }
+>;
+export type HiddenTestsScorerSpec = Extract<
+	ScorerSpec,
+	{ type: "hidden-tests" }
+>;
+export type LintBaselineScorerSpec = Extract<
+	ScorerSpec,
+	{ type: "lint-baseline" }
+>;
+export type CoverageScorerSpec = Extract<ScorerSpec, { type: "coverage" }>;
+export type TypecheckScorerSpec = Extract<ScorerSpec, { type: "typecheck" }>;
 export type ScriptScorerSpec = Extract<ScorerSpec, { type: "script" }>;
+export type ReferenceScorerSpec = Extract<
+	ScorerSpec,
+	{ type: "reference-match" }
+>;
+export type ToolUsageScorerSpec = Extract<ScorerSpec, { type: "tool-usage" }>;
+export type QuestionsScorerSpec = Extract<
+	ScorerSpec,
+	{ type: "questions-asked" }
+>;
 
-/** TS path: scorers are functions. */
-export const evalConfigSchema = z.object({
-	...baseConfigShape,
-	scorers: z
+/** A reference answer: free text, a diff (inline or a patch `path`), or a file tree (inline or a `dir`). */
+const expectedSchema: z.ZodType<ExpectedSpec> = z.union([
+	z.string(),
+	z.object({ type: z.literal("text"), text: z.string() }).strict(),
+	z.object({ type: z.literal("diff"), diff: z.string() }).strict(),
+	z.object({ type: z.literal("diff"), path: z.string() }).strict(),
+	z
+		.object({
+			type: z.literal("files"),
+			files: z.record(z.string(), z.string()),
+		})
+		.strict(),
+	z.object({ type: z.literal("files"), dir: z.string() }).strict(),
+]);
+
+export type DatasetFormat = "jsonl" | "json" | "yaml" | "csv";
+
+/** Where to read a dataset from; a bare string is the `path`. */
+export interface DatasetConfig {
+	path: string; // Relative to the eval config file
+	format?: DatasetFormat; // Default: inferred from the file extension
+	fixturesDir?: string; // Where row `fixture` names resolve. Default: fixtures/ beside the dataset
+}
+
+/** One dataset row: a task with its own codebase, env, expectation and scorers. */
+export const datasetRowSchema = z
+	.object({
+		id: z.union([z.string(), z.number()]).transform(String).optional(),
+		prompt: z.string(),
+		projectDir: z.string().optional(),
+		fixture: z.string().optional(),
+		environmentVariables: z.record(z.string(), z.string()).optional(),
+		expected: expectedSchema.optional(),
+		scorers: z.array(scorerSpecSchema).optional(),
+	})
+	.strict()
+	.refine((row) => !(row.projectDir && row.fixture), {
+		message: "set either projectDir or fixture, not both",
+	});
+
+export type DatasetRow = z.output<typeof datasetRowSchema>;
+
+/**
+ * Prompt variants. `turns` are follow-ups sent in the same agent session, each
+ * with optional scorers run right after it (`turnScorers` do the same for the
+ * opening prompt's turn); the two config paths differ only in
+ * what a turn's prompt and scorers may be. `projectDir`, `environmentVariables`,
+ * `expected` and `scorers` override or extend the eval-wide settings per prompt.
+ */
+function promptsSchema<P extends z.ZodType, S extends z.ZodType>(
+	turnPrompt: P,
+	scorer: S,
+) {
+	return z
 		.array(
-			z.custom<{ name: string; evaluate: (...args: never) => unknown }>(
-				(v) => {
-					const s = v as { name?: unknown; evaluate?: unknown };
-					return (
-						typeof s === "object" &&
-						s !== null &&
-						typeof s.name === "string" &&
-						typeof s.evaluate === "function"
-					);
-				},
-				{
-					message:
-						"Each scorer must have a string `name` and a function `evaluate`",
-				},
-			),
+			z
+				.object({
+					id: z.string(),
+					prompt: z.string(),
+					projectDir: z.string().optional(),
+					environmentVariables: z.record(z.string(), z.string()).optional(),
+					expected: expectedSchema.optional(),
+					scorers: z.array(scorer).optional(),
+					turnScorers: z.array(scorer).optional(),
+					turns: z
+						.array(
+							z
+								.object({
+									prompt: turnPrompt,
+									scorers: z.array(scorer).optional(),
+								})
+								.strict(),
+						)
+						.optional(),
+				})
+				.strict(),
 		)
-		.optional(),
-	environmentVariables: z
-		.union([
-			z.record(z.string(), z.string()),
-			z.custom<(...args: never) => unknown>((v) => typeof v === "function"),
-		])
-		.optional(),
-});
+		.nonempty();
+}
+
+const promptsOrDataset = (config: { prompts?: unknown; dataset?: unknown }) =>
+	config.prompts !== undefined || config.dataset !== undefined;
+const promptsOrDatasetError = { message: "prompts or dataset is required" };
+
+const scorerInstanceSchema = z.custom<{
+	name: string;
+	evaluate: (...args: never) => unknown;
+}>(
+	(v) => {
+		const s = v as { name?: unknown; evaluate?: unknown };
+		return (
+			typeof s === "object" &&
+			s !== null &&
+			typeof s.name === "string" &&
+			typeof s.evaluate === "function"
+		);
+	},
+	{
+		message: "Each scorer must have a string `name` and a function `evaluate`",
+	},
+);
+
+/** TS path: scorers are functions. */
+export const evalConfigSchema = z
+	.object({
+		...baseConfigShape,
+		prompts: promptsSchema(
+			z.union([
+				z.string(),
+				z.custom<(...args: never) => unknown>((v) => typeof v === "function"),
+			]),
+			scorerInstanceSchema,
+		).optional(),
+		scorers: z.array(scorerInstanceSchema).optional(),
+		environmentVariables: z
+			.union([
+				z.record(z.string(), z.string()),
+				z.custom<(...args: never) => unknown>((v) => typeof v === "function"),
+			])
+			.optional(),
+		agent: z
+			.union([
+				z.string(),
+				z.custom<{ id: string; run: (...args: never) => unknown }>(
+					(v) => {
+						const a = v as {
+							id?: unknown;
+							run?: unknown;
+							tokenUsage?: unknown;
+						};
+						return (
+							typeof a === "object" &&
+							a !== null &&
+							typeof a.id === "string" &&
+							typeof a.run === "function" &&
+							typeof a.tokenUsage === "function"
+						);
+					},
+					{
+						message:
+							"agent must be a registered name or an adapter with a string `id` and functions `run` and `tokenUsage`",
+					},
+				),
+			])
+			.optional(),
+	})
+	.refine(promptsOrDataset, promptsOrDatasetError);
 
 /** JSON path: scorers are structural specs; $schema key permitted + ignored. */
 export const jsonConfigSchema = z
 	.object({
 		$schema: z.string().optional(),
 		...baseConfigShape,
+		prompts: promptsSchema(z.string(), scorerSpecSchema).optional(),
 		scorers: z.array(scorerSpecSchema).optional(),
 		environmentVariables: z.record(z.string(), z.string()).optional(),
+		// A registered agent name (see AGENTS) or an inline agent spec.
+		agent: z.union([z.string(), agentSpecSchema]).optional(),
 	})
-	.strict();
+	.strict()
+	.refine(promptsOrDataset, promptsOrDatasetError);
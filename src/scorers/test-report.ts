@@ -0,0 +1,211 @@
+import type { ScorerResult } from "../types";
+
+/** One test case's outcome, as reported by the test runner. */
+export interface TestCaseResult {
+	name: string;
+	suite?: string; // JUnit classname / enclosing suite
+	status: "passed" | "failed" | "skipped";
+	duration?: number; // ms, when the runner reports it
+	message?: string; // First line of the failure message, when the runner gave one
+}
+
+export type TestReportFormat = "junit" | "tap" | "json";
+
+const XML_ENTITIES: Record<string, string> = {
+	lt: "<",
+	gt: ">",
+	amp: "&",
+	quot: '"',
+	apos: "'",
+};
+
+function decodeXml(text: string): string {
+	return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+		if (code.startsWith("#x") || code.startsWith("#X"))
+			return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+		if (code.startsWith("#"))
+			return String.fromCodePoint(Number.parseInt(code.slice(1), 10));
+		return XML_ENTITIES[code] ?? entity;
+	});
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+	const match = attrs.match(
+		new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`),
+	);
+	const value = match?.[2] ?? match?.[3];
+	return value === undefined ? undefined : decodeXml(value);
+}
+
+function firstLine(text: string | undefined): string | undefined {
+	return text
+		?.split("\n")
+		.map((line) => line.trim())
+		.find(Boolean);
+}
+
+/**
+ * Parse `<testcase>` elements from JUnit XML. A case with a `<failure>` or
+ * `<error>` child failed, one with `<skipped>` was skipped, any other passed.
+ */
+export function parseJUnit(xml: string): TestCaseResult[] {
+	const cases: TestCaseResult[] = [];
+	const pattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+	for (const [, attrs, body = ""] of xml.matchAll(pattern)) {
+		const failure = body.match(/<(failure|error)\b([^>]*)/);
+		const status = failure
+			? "failed"
+			: /<skipped\b/.test(body)
+				? "skipped"
+				: "passed";
+		const message = failure
+			? firstLine(xmlAttr(failure[2], "message"))
+			: undefined;
+		const suite = xmlAttr(attrs, "classname");
+		const time = Number.parseFloat(xmlAttr(attrs, "time") ?? "");
+		cases.push({
+			name: xmlAttr(attrs, "name") ?? "(unnamed)",
+			...(suite && { suite }),
+			status,
+			...(Number.isFinite(time) && { duration: Math.round(time * 1000) }),
+			...(message && { message }),
+		});
+	}
+	return cases;
+}
+
+/**
+ * Parse top-level test points from TAP output (`ok` / `not ok`). Indented
+ * subtest points are left to their parent; `# SKIP` and `# TODO` directives
+ * count as skipped.
+ */
+export function parseTap(tap: string): TestCaseResult[] {
+	const cases: TestCaseResult[] = [];
+	const pattern =
+		/^(not )?ok\b(?:\s+\d+)?(?:\s+-)?\s*([^#\n]*?)\s*(?:#\s*(\w+)\b.*)?$/gm;
+	for (const [, notOk, description, directive] of tap.matchAll(pattern)) {
+		const skipped = /^(skip|todo)$/i.test(directive ?? "");
+		cases.push({
+			name: description || "(unnamed)",
+			status: skipped ? "skipped" : notOk ? "failed" : "passed",
+		});
+	}
+	return cases;
+}
+
+interface JestAssertion {
+	title?: string;
+	fullName?: string;
+	status?: string;
+	duration?: number | null;
+	failureMessages?: string[];
+}
+
+/** The JSON object in `output`, skipping any text (e.g. npm's banner) before it. */
+function extractJson(output: string): unknown {
+	const end = output.lastIndexOf("}");
+	for (const match of output.matchAll(/^\{/gm)) {
+		try {
+			return JSON.parse(output.slice(match.index, end + 1));
+		} catch {
+			/* not the report — try the next line starting with "{" */
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Parse the Jest / Vitest JSON reporter (`--json`, `--reporter=json`): one
+ * case per assertion result, `pending` / `todo` / `skipped` counting as
+ * skipped. Returns `[]` when `output` holds no such report.
+ */
+export function parseJestJson(output: string): TestCaseResult[] {
+	const report = extractJson(output) as {
+		testResults?: { name?: string; assertionResults?: JestAssertion[] }[];
+	};
+	if (!Array.isArray(report?.testResults)) return [];
+	const cases: TestCaseResult[] = [];
+	for (const file of report.testResults) {
+		for (const assertion of file.assertionResults ?? []) {
+			const status =
+				assertion.status === "passed"
+					? "passed"
+					: assertion.status === "failed"
+						? "failed"
+						: "skipped";
+			const message = firstLine(assertion.failureMessages?.[0]);
+			cases.push({
+				name: assertion.fullName ?? assertion.title ?? "(unnamed)",
+				...(file.name && { suite: file.name }),
+				status,
+				...(typeof assertion.duration === "number" && {
+					duration: assertion.duration,
+				}),
+				...(message && { message }),
+			});
+		}
+	}
+	return cases;
+}
+
+/** Parse a runner's report in the given format. */
+export function parseTestReport(
+	report: string,
+	format: TestReportFormat,
+): TestCaseResult[] {
+	switch (format) {
+		case "junit":
+			return parseJUnit(report);
+		case "tap":
+			return parseTap(report);
+		case "json":
+			return parseJestJson(report);
+	}
+}
+
+/**
+ * Detect the report format in a test command's output — Jest/Vitest JSON,
+ * then JUnit XML, then TAP — and parse it. TAP needs its `TAP version` or
+ * `1..N` plan line, so log lines starting with `ok` aren't taken for test
+ * points. `[]` when none is recognized.
+ */
+export function detectTestReport(output: string): TestCaseResult[] {
+	const json = parseJestJson(output);
+	if (json.length > 0) return json;
+	if (/<testcase\b/.test(output)) return parseJUnit(output);
+	if (/^(TAP version \d+|1\.\.\d+)/m.test(output)) return parseTap(output);
+	return [];
+}
+
+/**
+ * Score the passed fraction of the non-skipped cases. `score` is undefined
+ * when none ran (every case skipped), leaving the verdict to the exit code.
+ * `metadata` holds the counts and the failing cases (name, duration, first
+ * error line) only, since reports of large suites would bloat every results
+ * file.
+ */
+export function scoreTestCases(tests: TestCaseResult[]): {
+	score: number | undefined;
+	summary: string;
+	metadata: NonNullable<ScorerResult["metadata"]>;
+} {
+	const passed = tests.filter((t) => t.status === "passed").length;
+	const failed = tests.filter((t) => t.status === "failed").length;
+	const skipped = tests.length - passed - failed;
+	const ran = passed + failed;
+	const failures = tests
+		.filter((t) => t.status === "failed")
+		.map(({ name, duration, message }) => ({
+			name,
+			...(duration !== undefined && { duration }),
+			...(message && { message }),
+		}));
+	return {
+		score: ran === 0 ? undefined : passed / ran,
+		summary:
+			ran === 0
+				? `no tests ran, ${skipped} skipped`
+				: `${passed}/${ran} test(s) passed${skipped ? `, ${skipped} skipped` : ""}`,
+		metadata: { passed, failed, skipped, failures },
+	};
+}
@@ -0,0 +1,117 @@
+import { execa } from "execa";
+import type { ScorerContext, ScorerResult } from "../types";
+import { BaseScorer } from "./base";
+import {
+	type Diagnostic,
+	newDiagnostics,
+	relativeFile,
+	withPristineCopy,
+} from "./baseline";
+import type { TypecheckScorerSpec } from "./schema";
+
+/**
+ * Parse `tsc --pretty false` output: `file(line,col): error TSxxxx: message`,
+ * or `error TSxxxx: message` for errors outside any file (`file` is `""`).
+ * Continuation lines of multi-line messages are dropped.
+ */
+export function parseTscOutput(output: string, cwd: string): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const pattern = /^(?:(.+?)\((\d+),\d+\): )?(error|warning) (TS\d+): (.*)$/gm;
+	for (const [, file, line, severity, code, message] of output.matchAll(
+		pattern,
+	)) {
+		diagnostics.push({
+			file: file ? relativeFile(cwd, file) : "",
+			...(line && { line: Number(line) }),
+			rule: code,
+			severity: severity as Diagnostic["severity"],
+			message,
+		});
+	}
+	return diagnostics;
+}
+
+/**
+ * Scorer that type-checks the pristine project (the working dir's HEAD) and
+ * the agent's changes with `npx tsc --noEmit` (`-p project` when set), and
+ * passes only when the change introduces no new compiler errors. Errors that
+ * existed before the agent ran are subtracted; `metadata.files` counts the
+ * new ones per file and `metadata.new` lists them. Needs no build script.
+ *
+ * Scorer name defaults to `typecheck`. Uses a 5-minute timeout.
+ */
+export class TypecheckScorer extends BaseScorer {
+	readonly name: string;
+
+	constructor(readonly spec: Omit<TypecheckScorerSpec, "type"> = {}) {
+		super();
+		this.name = spec.name ?? "typecheck";
+	}
+
+	private async typecheck(cwd: string): Promise<Diagnostic[]> {
+		const { spec } = this;
+		const command = spec.command ?? "npx";
+		const args = spec.args ?? [
+			"tsc",
+			"--noEmit",
+			"--pretty",
+			"false",
+			...(spec.project ? ["-p", spec.project] : []),
+		];
+		const { stdout, stderr, exitCode } = await execa(command, args, {
+			cwd,
+			timeout: spec.timeout ?? 300000, // 5 minutes
+			reject: false,
+		});
+		const diagnostics = parseTscOutput(stdout, cwd);
+		// A failure without diagnostics means tsc itself didn't run
+		if (exitCode !== 0 && diagnostics.length === 0) {
+			const detail = (stderr.trim() || stdout.trim()).split("\n")[0];
+			throw new Error(
+				`${command} ${args.join(" ")} failed without type errors${detail ? `: ${detail}` : ""}`,
+			);
+		}
+		return diagnostics;
+	}
+
+	async evaluate({ workingDir }: ScorerContext): Promise<ScorerResult> {
+		let baseline: Diagnostic[];
+		let current: Diagnostic[];
+		try {
+			baseline = await withPristineCopy(workingDir, (dir) =>
+				this.typecheck(dir),
+			);
+			current = await this.typecheck(workingDir);
+		} catch (err) {
+			return {
+				score: 0,
+				reason: err instanceof Error ? err.message : String(err),
+			};
+		}
+
+		const added = newDiagnostics(baseline, current);
+		const files: Record<string, number> = {};
+		for (const d of added) files[d.file] = (files[d.file] ?? 0) + 1;
+		const metadata = {
+			baseline: baseline.length,
+			current: current.length,
+			new: added,
+			files,
+		};
+		if (added.length === 0) {
+			return {
+				score: 1,
+				reason: `No new type errors (${baseline.length} in baseline)`,
+				metadata,
+			};
+		}
+		const where = Object.entries(files)
+			.map(([file, count]) => `${file || "(global)"} (${count})`)
+			.join(", ");
+		return {
+			score: 0,
+			reason: `${added.length} new type error(s) in ${where}`,
+			metadata,
+		};
+	}
+}
@@ -0,0 +1,484 @@
+import { createServer, type Server } from "node:http";
+import path from "node:path";
+import fs from "fs-extra";
+import { formatUsd } from "./cost";
+import {
+	escapeXml,
+	formatResultsAsHtml,
+	formatResultsAsJson,
+	htmlCell,
+	htmlDocument,
+	htmlTable,
+} from "./results-writer";
+import { comparePrompts, compareResults } from "./runner";
+import type { ComparisonStat, EvalResult, RunSummary } from "./types";
+
+/** What `writeResults` saves in each run directory, and the dashboard reads. */
+const RESULTS_FILE = "results.json";
+
+/** A run directory's id with its parsed results. */
+interface SavedRun {
+	id: string;
+	result: EvalResult;
+}
+
+/** A comparison table row, from two runs or two prompts of one run. */
+interface ComparisonRow {
+	scorer: string;
+	promptId?: string;
+	runs: [number, number];
+	passRate: ComparisonStat;
+	score?: ComparisonStat;
+}
+
+/** A response the dashboard sends. */
+interface Page {
+	status: number;
+	type: string;
+	body: string;
+}
+
+/**
+ * The results of run `id` under `resultsDir`, or undefined when it has no
+ * readable results.json. `id` must be a single directory name, so a request
+ * can't read outside `resultsDir`.
+ */
+export async function loadRun(
+	resultsDir: string,
+	id: string,
+): Promise<EvalResult | undefined> {
+	if (id !== path.basename(id) || id === "." || id === "..") return undefined;
+	try {
+		const text = await fs.readFile(
+			path.join(resultsDir, id, RESULTS_FILE),
+			"utf-8",
+		);
+		const result = JSON.parse(text);
+		return Array.isArray(result?.iterations) ? result : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function runSummary({ id, result }: SavedRun): RunSummary {
+	return {
+		id,
+		evalName: result.evalName,
+		agentId: result.agentId,
+		timestamp: result.timestamp,
+		success: result.success,
+		runs: result.iterations.length,
+		passRate: result.aggregateScores?._overall?.passRate ?? 0,
+		promptIds: [...new Set(result.iterations.map((i) => i.promptId))],
+		duration: result.duration,
+		costUsd: result.costUsd,
+	};
+}
+
+/**
+ * The runs saved under `resultsDir` — each directory holding a results.json,
+ * as `writeResults` lays them out — newest first. Empty when there are none.
+ */
+export async function listRuns(resultsDir: string): Promise<RunSummary[]> {
+	let names: string[];
+	try {
+		names = await fs.readdir(resultsDir);
+	} catch {
+		return [];
+	}
+	const runs: RunSummary[] = [];
+	for (const id of names) {
+		const result = await loadRun(resultsDir, id);
+		if (result) runs.push(runSummary({ id, result }));
+	}
+	return runs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+const runHref = (id: string) => `/runs/${encodeURIComponent(id)}`;
+const status = (passed: boolean) =>
+	passed
+		? '<span class="pass">✓ PASS</span>'
+		: '<span class="fail">✗ FAIL</span>';
+const NAV = '<nav><a href="/">← All runs</a></nav>';
+
+/** `<option>`s for a `<select>`, with `selected` preselected. */
+function options(values: string[], selected: string | undefined): string {
+	return values
+		.map(
+			(value) =>
+				`<option value="${escapeXml(value)}"${value === selected ? " selected" : ""}>${escapeXml(value)}</option>`,
+		)
+		.join("");
+}
+
+/** The index: every run, and a form picking two of them to compare. */
+function formatRunListHtml(resultsDir: string, runs: RunSummary[]): string {
+	const body = [`<h1>Runs in ${escapeXml(resultsDir)}</h1>`];
+	if (runs.length === 0) {
+		body.push(
+			'<p class="muted">No runs found. Runs with a <code>resultsDir</code> save a results.json here.</p>',
+		);
+		return htmlDocument("Runs", body);
+	}
+	if (runs.length >= 2) {
+		const ids = runs.map((r) => r.id);
+		body.push(
+			"<h2>Compare Runs</h2>",
+			`<form action="/compare" method="get"><label>Baseline <select name="a">${options(ids, ids[1])}</select></label> <label>Current <select name="b">${options(ids, ids[0])}</select></label> <button type="submit">Compare</button></form>`,
+		);
+	}
+	body.push(
+		"<h2>Runs</h2>",
+		htmlTable(
+			[
+				"Run",
+				"Eval",
+				"Agent",
+				"Date",
+				"Runs",
+				"Pass Rate",
+				"Duration",
+				"Cost",
+				"Status",
+				"Prompts",
+			],
+			runs.map((run) => [
+				htmlCell(`<a href="${runHref(run.id)}">${escapeXml(run.id)}</a>`),
+				htmlCell(escapeXml(run.evalName)),
+				htmlCell(escapeXml(run.agentId)),
+				htmlCell(
+					escapeXml(new Date(run.timestamp).toLocaleString()),
+					Date.parse(run.timestamp),
+				),
+				htmlCell(String(run.runs), run.runs),
+				htmlCell(pct(run.passRate), run.passRate),
+				htmlCell(seconds(run.duration), run.duration),
+				run.costUsd === undefined
+					? htmlCell("—", -1)
+					: htmlCell(formatUsd(run.costUsd), run.costUsd),
+				htmlCell(status(run.success), run.success ? 1 : 0),
+				htmlCell(
+					`${escapeXml(run.promptIds.join(", "))}${run.promptIds.length >= 2 ? ` (<a href="${runHref(run.id)}/compare">compare</a>)` : ""}`,
+				),
+			]),
+		),
+	);
+	return htmlDocument("Runs", body);
+}
+
+/** Before → after, the difference with its CI, and the p-value (bold when significant). */
+function statCells(
+	stat: ComparisonStat | undefined,
+	kind: "passRate" | "score",
+): string[] {
+	if (!stat) return [htmlCell("—"), htmlCell("—", 0), htmlCell("—", 1)];
+	const [scale, digits] = kind === "passRate" ? [100, 1] : [1, 3];
+	const value = (v: number) =>
+		kind === "passRate" ? pct(v) : v.toFixed(digits);
+	const signed = (v: number) => {
+		const magnitude = Math.abs(v * scale).toFixed(digits);
+		return `${v < 0 && Number(magnitude) !== 0 ? "-" : "+"}${magnitude}`;
+	};
+	const p = stat.pValue.toFixed(3);
+	return [
+		htmlCell(`${value(stat.baseline)} → ${value(stat.candidate)}`),
+		htmlCell(
+			`${signed(stat.diff)} [${signed(stat.ci[0])}, ${signed(stat.ci[1])}]`,
+			stat.diff,
+		),
+		htmlCell(stat.significant ? `<strong>${p}</strong>` : p, stat.pValue),
+	];
+}
+
+/**
+ * Comparison rows with a status: significantly worse, better, or neither.
+ * The Prompt column only shows when rows are per prompt.
+ */
+function comparisonTableHtml(rows: ComparisonRow[], labels: string): string {
+	if (rows.length === 0) {
+		return '<p class="muted">Nothing to compare: no scorer ran in both.</p>';
+	}
+	const significant = (stat: ComparisonStat | undefined, sign: number) =>
+		stat?.significant === true && Math.sign(stat.diff) === sign;
+	const byPrompt = rows.some((row) => row.promptId !== undefined);
+	return htmlTable(
+		[
+			"Scorer",
+			...(byPrompt ? ["Prompt"] : []),
+			`Runs (${labels})`,
+			"Pass Rate",
+			"Δ Pass Rate",
+			"p",
+			"Mean Score",
+			"Δ Score",
+			"p",
+			"Status",
+		],
+		rows.map((row) => {
+			const worse = significant(row.passRate, -1) || significant(row.score, -1);
+			const better = significant(row.passRate, 1) || significant(row.score, 1);
+			return [
+				htmlCell(escapeXml(row.scorer)),
+				...(byPrompt ? [htmlCell(escapeXml(row.promptId ?? "all"))] : []),
+				htmlCell(`${row.runs[0]} / ${row.runs[1]}`, row.runs[1]),
+				...statCells(row.passRate, "passRate"),
+				...statCells(row.score, "score"),
+				worse
+					? htmlCell('<span class="fail">❌ worse</span>', -1)
+					: better
+						? htmlCell('<span class="pass">✅ better</span>', 1)
+						: htmlCell("—", 0),
+			];
+		}),
+	);
+}
+
+/** A run's iterations (optionally one prompt's), linking to their drill-downs. */
+function iterationListHtml(run: SavedRun, promptId?: string): string {
+	const iterations = run.result.iterations.filter(
+		(i) => promptId === undefined || i.promptId === promptId,
+	);
+	return htmlTable(
+		["Iteration", "Prompt", "Status", "Duration"],
+		iterations.map((i) => [
+			htmlCell(
+				`<a href="${runHref(run.id)}#iteration-${i.iterationId}">${i.iterationId}</a>`,
+				i.iterationId,
+			),
+			htmlCell(escapeXml(i.promptId)),
+			htmlCell(status(i.success), i.success ? 1 : 0),
+			htmlCell(seconds(i.duration), i.duration),
+		]),
+	);
+}
+
+/** Two runs side by side, compared scorer by scorer as `--baseline` does. */
+function formatRunComparisonHtml(
+	baseline: SavedRun,
+	current: SavedRun,
+): string {
+	const [a, b] = [runSummary(baseline), runSummary(current)];
+	const row = (label: string, cell: (run: RunSummary) => string) => [
+		htmlCell(label),
+		htmlCell(cell(a)),
+		htmlCell(cell(b)),
+	];
+	const rows = compareResults(baseline.result, current.result).map((c) => ({
+		...c,
+		runs: [c.runs.baseline, c.runs.current] as [number, number],
+	}));
+	return htmlDocument(`Compare ${a.id} and ${b.id}`, [
+		NAV,
+		"<h1>Compare Runs</h1>",
+		htmlTable(
+			["", "Baseline", "Current"],
+			[
+				row(
+					"Run",
+					(run) => `<a href="${runHref(run.id)}">${escapeXml(run.id)}</a>`,
+				),
+				row("Eval", (run) => escapeXml(run.evalName)),
+				row("Agent", (run) => escapeXml(run.agentId)),
+				row("Date", (run) =>
+					escapeXml(new Date(run.timestamp).toLocaleString()),
+				),
+				row("Runs", (run) => String(run.runs)),
+				row("Pass Rate", (run) => pct(run.passRate)),
+				row("Duration", (run) => seconds(run.duration)),
+				row("Cost", (run) =>
+					run.costUsd === undefined ? "—" : formatUsd(run.costUsd),
+				),
+				row("Status", (run) => status(run.success)),
+			],
+			false,
+		),
+		"<h2>Scorers</h2>",
+		'<p class="muted">Differences are current − baseline: pass rates by Fisher\'s exact test, mean scores by the Mann-Whitney U test, with bootstrap 95% CIs.</p>',
+		comparisonTableHtml(rows, "baseline / current"),
+		"<h2>Iterations</h2>",
+		'<div class="columns">',
+		`<div><h3>Baseline: ${escapeXml(a.id)}</h3>${iterationListHtml(baseline)}</div>`,
+		`<div><h3>Current: ${escapeXml(b.id)}</h3>${iterationListHtml(current)}</div>`,
+		"</div>",
+	]);
+}
+
+/** Two prompt variants of one run side by side, compared as `comparePrompts` does. */
+function formatPromptComparisonHtml(
+	run: SavedRun,
+	promptIds: string[],
+	a: string,
+	b: string,
+): string {
+	const rows = comparePrompts(run.result.iterations, [a, b]).map((c) => ({
+		...c,
+		runs: [c.runs.baseline, c.runs.candidate] as [number, number],
+	}));
+	return htmlDocument(`Compare ${a} and ${b}`, [
+		NAV,
+		`<h1>Compare Prompts in <a href="${runHref(run.id)}">${escapeXml(run.id)}</a></h1>`,
+		`<form method="get"><label>Baseline <select name="a">${options(promptIds, a)}</select></label> <label>Candidate <select name="b">${options(promptIds, b)}</select></label> <button type="submit">Compare</button></form>`,
+		"<h2>Scorers</h2>",
+		`<p class="muted">Differences are ${escapeXml(b)} − ${escapeXml(a)}: pass rates by Fisher's exact test, mean scores by the Mann-Whitney U test, with bootstrap 95% CIs.</p>`,
+		comparisonTableHtml(rows, `${a} / ${b}`),
+		"<h2>Iterations</h2>",
+		'<div class="columns">',
+		`<div><h3>${escapeXml(a)}</h3>${iterationListHtml(run, a)}</div>`,
+		`<div><h3>${escapeXml(b)}</h3>${iterationListHtml(run, b)}</div>`,
+		"</div>",
+	]);
+}
+
+const html = (body: string, status = 200): Page => ({
+	status,
+	type: "text/html; charset=utf-8",
+	body,
+});
+
+const json = (data: unknown, status = 200): Page => ({
+	status,
+	type: "application/json; charset=utf-8",
+	body: typeof data === "string" ? data : `${JSON.stringify(data, null, 2)}\n`,
+});
+
+const errorPage = (status: number, title: string, message: string) =>
+	html(
+		htmlDocument(title, [
+			NAV,
+			`<h1>${escapeXml(title)}</h1>`,
+			`<p>${escapeXml(message)}</p>`,
+		]),
+		status,
+	);
+
+/** The page for `url`: the dashboard's HTML views and its JSON API. */
+async function route(resultsDir: string, url: URL): Promise<Page> {
+	let segments: string[];
+	try {
+		segments = url.pathname
+			.split("/")
+			.filter(Boolean)
+			.map((s) => decodeURIComponent(s));
+	} catch {
+		return errorPage(400, "Bad request", `Malformed path: ${url.pathname}`);
+	}
+	const query = (name: string) => url.searchParams.get(name) ?? undefined;
+	const [first, second, third, ...rest] = segments;
+
+	if (segments.length === 0) {
+		return html(formatRunListHtml(resultsDir, await listRuns(resultsDir)));
+	}
+
+	if (first === "api" && second === "runs" && rest.length === 0) {
+		if (third === undefined) return json(await listRuns(resultsDir));
+		const result = await loadRun(resultsDir, third);
+		return result
+			? json(formatResultsAsJson(result))
+			: json({ error: `No run "${third}"` }, 404);
+	}
+
+	if (first === "runs" && second !== undefined && rest.length === 0) {
+		const result = await loadRun(resultsDir, second);
+		if (!result) {
+			return errorPage(404, "Not found", `No run "${second}" in ${resultsDir}`);
+		}
+		if (third === undefined) {
+			return html(
+				formatResultsAsHtml(result).replace("<body>\n", `<body>\n${NAV}\n`),
+			);
+		}
+		if (third === "compare") {
+			const promptIds = runSummary({ id: second, result }).promptIds;
+			if (promptIds.length < 2) {
+				return errorPage(
+					400,
+					"Bad request",
+					`Run "${second}" has only one prompt`,
+				);
+			}
+			const a = query("a") ?? promptIds[0];
+			const b = query("b") ?? promptIds[1];
+			const unknown = [a, b].find((p) => !promptIds.includes(p));
+			if (unknown !== undefined) {
+				return errorPage(
+					400,
+					"Bad request",
+					`Run "${second}" has no prompt "${unknown}"`,
+				);
+			}
+			return html(
+				formatPromptComparisonHtml({ id: second, result }, promptIds, a, b),
+			);
+		}
+	}
+
+	if (first === "compare" && second === undefined) {
+		const [a, b] = [query("a"), query("b")];
+		if (!a || !b) {
+			return errorPage(
+				400,
+				"Bad request",
+				"Pick two runs to compare (?a=…&b=…)",
+			);
+		}
+		const [baseline, current] = await Promise.all([
+			loadRun(resultsDir, a),
+			loadRun(resultsDir, b),
+		]);
+		if (!baseline || !current) {
+			return errorPage(
+				404,
+				"Not found",
+				`No run "${baseline ? b : a}" in ${resultsDir}`,
+			);
+		}
+		return html(
+			formatRunComparisonHtml(
+				{ id: a, result: baseline },
+				{ id: b, result: current },
+			),
+		);
+	}
+
+	return errorPage(404, "Not found", `No page at ${url.pathname}`);
+}
+
+/**
+ * The local dashboard over the runs saved under `resultsDir`, read afresh on
+ * every request so new runs show up without a restart:
+ *
+ * - `/`: every run, and a form to compare two of them
+ * - `/runs/<id>`: the run's HTML report, with transcripts and diffs
+ * - `/runs/<id>/compare?a=<prompt>&b=<prompt>`: two prompt variants side by side
+ * - `/compare?a=<id>&b=<id>`: two runs side by side
+ * - `/api/runs`, `/api/runs/<id>`: the same data as JSON
+ *
+ * Not yet listening; call `listen()` on it.
+ */
+export function createDashboardServer(resultsDir: string): Server {
+	return createServer((req, res) => {
+		const respond = (page: Page) => {
+			res.writeHead(page.status, { "content-type": page.type });
+			res.end(req.method === "HEAD" ? undefined : page.body);
+		};
+		if (req.method !== "GET" && req.method !== "HEAD") {
+			respond({
+				status: 405,
+				type: "text/plain; charset=utf-8",
+				body: "Method not allowed\n",
+			});
+			return;
+		}
+		route(resultsDir, new URL(req.url ?? "/", "http://localhost")).then(
+			respond,
+			(err) =>
+				respond({
+					status: 500,
+					type: "text/plain; charset=utf-8",
+					body: `${err instanceof Error ? err.message : String(err)}\n`,
+				}),
+		);
+	});
+}
@@ -0,0 +1,218 @@
+import type { ComparisonStat } from "./types";
+
+/** Natural log of n!, summed directly; the samples here are small. */
+function logFactorial(n: number): number {
+	let sum = 0;
+	for (let i = 2; i <= n; i++) sum += Math.log(i);
+	return sum;
+}
+
+/**
+ * Two-sided p-value of Fisher's exact test on the 2×2 table
+ * `[[aPass, aFail], [bPass, bFail]]`: the probability, with the margins fixed,
+ * of a table at most as likely as the observed one.
+ */
+export function fisherExactTest(
+	aPass: number,
+	aFail: number,
+	bPass: number,
+	bFail: number,
+): number {
+	const aRuns = aPass + aFail;
+	const passes = aPass + bPass;
+	const total = aRuns + bPass + bFail;
+	const logTable = (x: number) =>
+		logFactorial(aRuns) +
+		logFactorial(total - aRuns) +
+		logFactorial(passes) +
+		logFactorial(total - passes) -
+		logFactorial(total) -
+		logFactorial(x) -
+		logFactorial(aRuns - x) -
+		logFactorial(passes - x) -
+		logFactorial(total - aRuns - passes + x);
+	const observed = logTable(aPass);
+	let p = 0;
+	for (
+		let x = Math.max(0, passes - (total - aRuns));
+		x <= Math.min(aRuns, passes);
+		x++
+	) {
+		const logP = logTable(x);
+		// Tolerance keeps tables as likely as the observed one despite rounding
+		if (logP <= observed + 1e-7) p += Math.exp(logP);
+	}
+	return Math.min(1, p);
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+	const x = Math.abs(z) / Math.SQRT2;
+	const t = 1 / (1 + 0.3275911 * x);
+	const erf =
+		1 -
+		((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+			t +
+			0.254829592) *
+			t *
+			Math.exp(-x * x);
+	return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mann-Whitney U test of `b` against `a`: `u` counts the pairs where `b`
+ * scores higher (ties count half). The two-sided p-value uses the normal
+ * approximation with tie and continuity correction; 1 when every value ties.
+ */
+export function mannWhitneyU(
+	a: number[],
+	b: number[],
+): { u: number; pValue: number } {
+	const values = [
+		...a.map((value) => ({ value, group: 0 })),
+		...b.map((value) => ({ value, group: 1 })),
+	].sort((x, y) => x.value - y.value);
+	const n = values.length;
+
+	// Average ranks over ties, collecting the tie correction as we go
+	let bRankSum = 0;
+	let ties = 0;
+	for (let i = 0; i < n; ) {
+		let j = i;
+		while (j < n && values[j].value === values[i].value) j++;
+		const rank = (i + j + 1) / 2;
+		for (let k = i; k < j; k++) {
+			if (values[k].group === 1) bRankSum += rank;
+		}
+		const t = j - i;
+		ties += t ** 3 - t;
+		i = j;
+	}
+
+	const u = bRankSum - (b.length * (b.length + 1)) / 2;
+	const expected = (a.length * b.length) / 2;
+	const variance =
+		((a.length * b.length) / 12) * (n + 1 - ties / (n * (n - 1)));
+	if (!(variance > 0)) return { u, pValue: 1 };
+	const z = Math.max(0, Math.abs(u - expected) - 0.5) / Math.sqrt(variance);
+	return { u, pValue: Math.min(1, 2 * (1 - normalCdf(z))) };
+}
+
+/** mulberry32: a small seeded PRNG, so bootstrap intervals are reproducible. */
+function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+const mean = (values: number[]) =>
+	values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Percentile bootstrap confidence interval (default 95%) for the difference
+ * in means `mean(b) - mean(a)`: both samples are resampled with replacement
+ * `resamples` times from a fixed seed, so the same data gives the same interval.
+ */
+export function bootstrapMeanDiffCI(
+	a: number[],
+	b: number[],
+	{ confidence = 0.95, resamples = 2000, seed = 1 } = {},
+): [number, number] {
+	const random = seededRandom(seed);
+	const resample = (values: number[]) => {
+		let sum = 0;
+		for (let i = 0; i < values.length; i++) {
+			sum += values[Math.floor(random() * values.length)];
+		}
+		return sum / values.length;
+	};
+	const diffs: number[] = [];
+	for (let i = 0; i < resamples; i++) diffs.push(resample(b) - resample(a));
+	diffs.sort((x, y) => x - y);
+	const tail = (1 - confidence) / 2;
+	return [
+		diffs[Math.floor(tail * (resamples - 1))],
+		diffs[Math.ceil((1 - tail) * (resamples - 1))],
+	];
+}
+
+/**
+ * `b` against `a`: their means, the difference with its bootstrap 95% CI, and
+ * the two-sided `pValue` of whichever test suits the data; significant below 0.05.
+ */
+export function compareSamples(
+	a: number[],
+	b: number[],
+	pValue: number,
+): ComparisonStat {
+	const baseline = mean(a);
+	const candidate = mean(b);
+	return {
+		baseline,
+		candidate,
+		diff: candidate - baseline,
+		ci: bootstrapMeanDiffCI(a, b),
+		pValue,
+		significant: pValue < 0.05,
+	};
+}
+
+/**
+ * Wilson score interval (95% by default) for a pass rate of `passes` out of
+ * `runs`; unlike the normal approximation it stays inside [0, 1] and is
+ * meaningful at 0 or `runs` passes. `[0, 1]` without runs.
+ */
+export function wilsonInterval(
+	passes: number,
+	runs: number,
+	z = 1.959964,
+): [number, number] {
+	if (runs === 0) return [0, 1];
+	const p = passes / runs;
+	const z2 = z * z;
+	const denominator = 1 + z2 / runs;
+	const center = (p + z2 / (2 * runs)) / denominator;
+	const half =
+		(z / denominator) *
+		Math.sqrt((p * (1 - p)) / runs + z2 / (4 * runs * runs));
+	return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+/**
+ * Unbiased estimate of pass@k — the chance that at least one of `k` runs
+ * drawn without replacement from `runs` (with `passes` passing) succeeds:
+ * `1 - C(runs - passes, k) / C(runs, k)`, as a product to stay finite.
+ * Undefined when `k` exceeds `runs`.
+ */
+export function passAtK(
+	passes: number,
+	runs: number,
+	k: number,
+): number | undefined {
+	if (k < 1 || k > runs) return undefined;
+	if (runs - passes < k) return 1;
+	let allFail = 1;
+	for (let i = runs - passes + 1; i <= runs; i++) allFail *= 1 - k / i;
+	return 1 - allFail;
+}
+
+/**
+ * Unbiased estimate of pass^k — the chance that all `k` runs drawn without
+ * replacement succeed: `C(passes, k) / C(runs, k)`. Undefined when `k`
+ * exceeds `runs`.
+ */
+export function passHatK(
+	passes: number,
+	runs: number,
+	k: number,
+): number | undefined {
+	if (k < 1 || k > runs) return undefined;
+	let allPass = 1;
+	for (let i = 0; i < k; i++) allPass *= Math.max(0, passes - i) / (runs - i);
+	return allPass;
+}
@@ -3,6 +3,20 @@ export type ExecutionMode = "sequential" | "parallel" | "parallel-limit";
 export interface ExecutionConfig {
 	mode: ExecutionMode;
 	concurrency?: number; // Required when mode = 'parallel-limit'
+	adaptive?: AdaptiveIterations; // Optional: schedule iterations until the pass rates are known well enough
+}
+
+/**
+ * Adaptive iteration count, replacing the fixed `iterations`: every prompt
+ * runs `minIterations`, then more are scheduled in rounds until its pass-rate
+ * 95% confidence interval is at most `ciWidth` wide, it is clearly separated
+ * from the first prompt, or it reaches `maxIterations`.
+ */
+export interface AdaptiveIterations {
+	maxIterations: number; // Per prompt
+	minIterations?: number; // Per prompt. Default: 3
+	ciWidth?: number; // Target width of the pass rate's 95% Wilson interval. Default: 0.3
+	stopWhenSeparated?: boolean; // Stop once a prompt's interval and the first prompt's don't overlap. Default: true
 }
 
 /**
@@ -32,14 +46,38 @@ export interface ExecCommandOptions {
 	successMessage?: string;
 	/** Custom failure message prefix (default: "{command} failed") */
 	failureMessage?: string;
+	/** Attach the command's `stdout` / `stderr` to the result's metadata (default: false) */
+	includeOutput?: boolean;
 }
 
+/**
+ * A known-good answer to grade against: free text, a reference diff, or a
+ * reference file tree (path relative to the project root -> contents).
+ */
+export type Expected =
+	| { type: "text"; text: string }
+	| { type: "diff"; diff: string }
+	| { type: "files"; files: Record<string, string> };
+
+/**
+ * How a prompt declares its reference answer. A bare string is free text;
+ * `path` (a patch file) and `dir` (a solution tree) are read when the
+ * iteration is scored.
+ */
+export type ExpectedSpec =
+	| string
+	| Expected
+	| { type: "diff"; path: string }
+	| { type: "files"; dir: string };
+
 export interface ScorerContext {
 	workingDir: string; // Temp directory where changes were made
 	diff: string; // Git diff output
 	agentOutput: string; // Raw agent response
 	promptId: string; // Which prompt variant is being evaluated
 	prompt: string; // The prompt text given to the agent
+	turn?: number; // Conversation turn just completed (0 = the opening prompt)
+	expected?: Expected; // Reference answer for this prompt, loaded from PromptConfig.expected
 	environmentVariables?: Record<string, string>; // Env vars used in this iteration
 	/** Utility function to execute shell commands and return scored results */
 	execCommand: (options: ExecCommandOptions) => Promise<ScorerResult>;
@@ -67,8 +105,8 @@ export interface Choice {
  * the judge prompt is generated from `instructions` + `choices`.
  *
  * `instructions` is the QUESTION only and may reference the context vars
- * `{{prompt}}`, `{{diff}}`, `{{finalText}}`, `{{agentOutput}}` (and the
- * reserved-but-unpopulated `{{expected}}`).
+ * `{{prompt}}`, `{{diff}}`, `{{finalText}}`, `{{agentOutput}}`, `{{questions}}`
+ * and `{{expected}}` (the prompt's reference answer; empty when it has none).
  */
 export interface ClassifierSpec {
 	name: string; // -> scorer name, e.g. 'llm:instruction-following'
@@ -84,6 +122,139 @@ export interface TokenUsage {
 	outputTokens: number;
 	cacheCreationInputTokens?: number;
 	cacheReadInputTokens?: number;
+	model?: string; // Model the usage was billed to, when the agent reports it
+	costUsd?: number; // Cost the agent reported (SDK `total_cost_usd`)
+}
+
+/**
+ * USD per million tokens for one model, used to price usage when the agent
+ * reports no cost. Cache writes / reads default to the `input` price.
+ */
+export interface ModelPricing {
+	input: number;
+	output: number;
+	cacheWrite?: number;
+	cacheRead?: number;
+}
+
+/** Spending limits for one iteration or the whole eval; omitted limits are unbounded. */
+export interface BudgetLimits {
+	maxTokens?: number; // Input + output + cache tokens
+	maxUsd?: number; // Reported cost, else priced from EvalConfig.pricing
+	maxTurns?: number; // Model calls, for agents that stream SDK-shaped assistant messages
+}
+
+/**
+ * `EvalConfig.budget`: an iteration over its `iteration` limits is aborted;
+ * once the eval as a whole is over its `total` limits, every in-flight
+ * iteration is aborted and the rest are not started.
+ */
+export interface EvalBudget {
+	iteration?: BudgetLimits;
+	total?: BudgetLimits;
+}
+
+/**
+ * One streamed agent message, normalized to the Claude Agent SDK message shape
+ * (`assistant` / `user` / `result` …) so scorers can parse any agent's
+ * `agentOutput` the same way.
+ */
+export interface AgentMessage {
+	type: string;
+	[key: string]: unknown;
+}
+
+export interface AgentRunContext {
+	prompt: string; // The prompt text for this run
+	cwd: string; // Temp working directory the agent must stay inside
+	signal: AbortSignal; // Fires on iteration timeout; adapters must stop promptly
+	environmentVariables: Record<string, string>; // Env vars for this iteration
+	iteration: number; // 0-based iteration index
+	turn: number; // 0 = the opening prompt; follow-up turns count up from 1 (simulated-user answers stay in their turn)
+	history: AgentMessage[]; // Messages from earlier turns of this iteration; continue their session
+	allowQuestions?: boolean; // A simulated user answers questions, so the agent may ask them
+}
+
+/**
+ * A coding agent the runner can evaluate. `run` streams normalized messages
+ * until the agent finishes; `tokenUsage` reports the usage a message carries
+ * (the runner keeps the last report).
+ */
+export interface AgentAdapter {
+	readonly id: string; // Default `agentId` in results, e.g. 'claude-code'
+	run(context: AgentRunContext): AsyncIterable<AgentMessage>;
+	tokenUsage(message: AgentMessage): TokenUsage | undefined;
+	/**
+	 * Usage of the model call behind a streamed message, so budgets are enforced
+	 * mid-turn; `id` names the call, which may stream several messages. Without
+	 * it, budgets are checked as each turn reports its usage.
+	 */
+	stepUsage?(
+		message: AgentMessage,
+	): { id: string; usage: TokenUsage } | undefined;
+}
+
+/** A scripted simulated-user reply, used when a question matches `match`. */
+export interface UserSimulatorRule {
+	match: string; // Regex tested against each question the agent asked
+	flags?: string; // Regex flags. Default: 'i'
+	reply: string;
+}
+
+/**
+ * Declarative spec for a simulated user who answers the agent's clarifying
+ * questions mid-run. Rules answer first; an LLM `persona` answers whatever no
+ * rule matched; `fallback` covers the rest.
+ */
+export interface UserSimulatorSpec {
+	rules?: UserSimulatorRule[];
+	persona?: {
+		instructions: string; // Who the user is and what they want (the LLM answers in character)
+		model?: string; // default: SDK default
+	};
+	fallback?: string; // Default: "I don't have a preference; use your best judgement."
+	maxExchanges?: number; // Answers per iteration before the agent is left to proceed. Default: 3
+}
+
+/**
+ * Transcript entry the runner records in `agentOutput` each time the
+ * simulated user answers (`type: 'simulated_user'`).
+ */
+export interface SimulatedUserMessage extends AgentMessage {
+	type: "simulated_user";
+	turn: number; // Turn the questions were asked in
+	questions: string[];
+	answer: string;
+}
+
+/** What a follow-up function sees when building the next turn's message. */
+export interface TurnContext {
+	turn: number; // 1-based index of the follow-up being built
+	promptId: string; // Which prompt variant is being run
+	previousOutput: string; // Assistant text from the previous turn
+	agentOutput: string; // All messages so far (JSON array)
+	diff: string; // Git diff of the working dir so far
+	workingDir: string; // Temp directory the agent is working in
+}
+
+/**
+ * A follow-up message sent in the same agent session after the opening prompt.
+ * `scorers` run on the state right after this turn, before the next one.
+ */
+export interface ConversationTurn {
+	prompt: string | ((context: TurnContext) => string | Promise<string>);
+	scorers?: Scorer[]; // Reported as `turn<N>:<scorer name>`
+}
+
+export interface PromptConfig {
+	id: string; // Unique identifier for this prompt variant
+	prompt: string; // The actual prompt text
+	turnScorers?: Scorer[]; // Optional: run right after `prompt`'s turn, before any follow-up; reported as `turn0:<scorer name>`
+	turns?: ConversationTurn[]; // Optional: follow-ups sent after `prompt`, in order
+	projectDir?: string; // Optional: codebase for this prompt, overriding EvalConfig.projectDir
+	environmentVariables?: Record<string, string>; // Optional: layered over the eval's env vars
+	expected?: ExpectedSpec; // Optional: reference answer, passed to scorers as ScorerContext.expected
+	scorers?: Scorer[]; // Optional: run after the eval's scorers, for this prompt only
 }
 
 export interface EnvGeneratorContext {
@@ -93,6 +264,15 @@ export interface EnvGeneratorContext {
 	totalIterations?: number; // Total number of iterations
 }
 
+/**
+ * Files saved for one iteration under the results run dir (names are relative
+ * to it), so the agent's change outlives the temp dir.
+ */
+export interface IterationArtifacts {
+	patch: string; // `git diff HEAD` of the agent's change; re-apply with `git apply`
+	snapshot?: string; // .tar.gz of the changed files, when `snapshot` is enabled
+}
+
 export interface IterationResult {
 	iterationId: number;
 	promptId: string; // Which prompt variant was used
@@ -100,10 +280,14 @@ export interface IterationResult {
 	duration: number;
 	scores: Record<string, ScorerResult>;
 	agentOutput: string; // Full agent conversation/messages
-	tokenUsage?: TokenUsage;
+	diff?: string; // The agent's change (`git diff HEAD` of the working dir), when it made one
+	tokenUsage?: TokenUsage; // The agent's usage
+	userSimulatorUsage?: TokenUsage; // The simulated user's persona calls, kept apart from the agent's
+	costUsd?: number; // Agent (plus persona) cost: as reported, else priced from EvalConfig.pricing
 	workingDir?: string;
+	artifacts?: IterationArtifacts; // Set when resultsDir is configured
 	environmentVariables: Record<string, string>;
-	error?: string;
+	error?: string; // `BUDGET_EXCEEDED: …` when EvalConfig.budget stopped the iteration
 }
 
 export interface AggregateScore {
@@ -112,6 +296,88 @@ export interface AggregateScore {
 	max: number;
 	stdDev: number;
 	passRate: number;
+	// Keyed by k (EvalConfig.passAtK): estimated per prompt, averaged over the prompts with at least k runs
+	passAtK?: Record<number, number>; // At least one of k runs passes
+	passHatK?: Record<number, number>; // All k runs pass
+}
+
+/** Where one prompt stands under adaptive iterations (see AdaptiveIterations). */
+export interface AdaptiveStatus {
+	runs: number;
+	interval: [number, number]; // 95% Wilson interval of the pass rate
+	stopped?: string; // Why it needs no more iterations, once it doesn't
+}
+
+/** One statistic of two prompt variants side by side (see PromptComparison). */
+export interface ComparisonStat {
+	baseline: number;
+	candidate: number;
+	diff: number; // candidate − baseline
+	ci: [number, number]; // 95% bootstrap confidence interval of `diff`
+	pValue: number; // Two-sided
+	significant: boolean; // pValue < 0.05
+}
+
+/**
+ * A scorer compared between the first prompt variant and another one: pass
+ * rates by Fisher's exact test, scores by the Mann-Whitney U test.
+ */
+export interface PromptComparison {
+	scorer: string; // Scorer name, or '_overall' for whole-iteration success
+	baseline: string; // promptId of the first prompt
+	candidate: string; // promptId compared against it
+	runs: { baseline: number; candidate: number }; // Iterations with a result for this scorer
+	passRate: ComparisonStat;
+	score?: ComparisonStat; // Omitted for '_overall'
+}
+
+/**
+ * A scorer compared between a baseline run and this one (the stats'
+ * `candidate`), across all prompts or for one of them.
+ */
+export interface BaselineComparison {
+	scorer: string; // Scorer name, or '_overall' for whole-iteration success
+	promptId?: string; // Omitted for all prompts together
+	runs: { baseline: number; current: number }; // Iterations with a result for this scorer
+	passRate: ComparisonStat;
+	score?: ComparisonStat; // Omitted for '_overall'
+	regression: boolean; // Pass rate or mean score dropped significantly
+}
+
+/** This run against the baseline given by EvalConfig.baseline. */
+export interface BaselineReport {
+	results: string; // Path of the baseline results.json
+	timestamp: string; // When the baseline ran
+	comparisons: BaselineComparison[];
+}
+
+/** One run in the results history index (see EvalConfig.resultsDir). */
+export interface HistoryEntry {
+	evalName: string;
+	agentId: string;
+	timestamp: string;
+	gitCommit?: string; // HEAD of projectDir, when it is a git repository
+	configHash: string; // Runs with the same hash measured the same thing
+	resultsPath?: string; // The run's results directory, relative to resultsDir
+	runs: number;
+	passRate: number; // _overall
+	duration: number; // milliseconds
+	costUsd?: number;
+	scorers: Record<string, { mean: number; passRate: number }>;
+}
+
+/** A saved run as the `serve` dashboard lists it. */
+export interface RunSummary {
+	id: string; // The run's directory under resultsDir
+	evalName: string;
+	agentId: string;
+	timestamp: string;
+	success: boolean;
+	runs: number;
+	passRate: number; // _overall
+	promptIds: string[];
+	duration: number; // milliseconds
+	costUsd?: number;
 }
 
 export interface EvalResult {
@@ -122,7 +388,12 @@ export interface EvalResult {
 	duration: number; // milliseconds
 	iterations: IterationResult[];
 	aggregateScores: Record<string, AggregateScore>;
+	adaptive?: Record<string, AdaptiveStatus>; // Per promptId, when execution.adaptive is set
+	comparisons?: PromptComparison[]; // Each prompt vs the first, per scorer (set with 2+ prompts)
+	baseline?: BaselineReport; // Set when EvalConfig.baseline is
 	tokenUsage?: TokenUsage; // Token usage from Claude API
+	costUsd?: number; // Sum of the iterations' costs, when any was known
+	budgetExceeded?: boolean; // Set when EvalConfig.budget stopped any iteration
 	workingDir?: string; // Only set if temp dir is preserved (see tempDirCleanup config)
 	error?: string;
 }
@@ -0,0 +1,166 @@
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { sdkTokenUsage } from "./agents/claude-code";
+import type {
+	AgentMessage,
+	SimulatedUserMessage,
+	TokenUsage,
+	UserSimulatorSpec,
+} from "./types";
+
+const DEFAULT_FALLBACK = "I don't have a preference; use your best judgement.";
+const DEFAULT_MAX_EXCHANGES = 3;
+
+/** How the runner bounds and accounts for a persona reply. */
+interface AnswerOptions {
+	signal?: AbortSignal; // Interrupts the persona call (iteration timeout, budget stop)
+	onUsage?: (usage: TokenUsage) => void; // Called with the persona call's usage
+}
+
+/**
+ * Questions the agent put to the user in `text`: every sentence ending in `?`,
+ * outside fenced code (where `?` is usually an operator).
+ */
+export function extractQuestions(text: string): string[] {
+	const prose = text.replace(/```[\s\S]*?```/g, "");
+	return (prose.match(/[^.!?\n]*\?/g) ?? [])
+		.map((q) => q.replace(/^[\s\-*\d.)]+/, "").trim())
+		.filter((q) => q.length > 1);
+}
+
+/**
+ * Where the agent stopped in a turn's `messages`: the `result` message's
+ * text, else the last assistant message's text. Narration earlier in the
+ * turn ("Should I check the config first?") isn't put to the user.
+ */
+export function finalReplyFrom(messages: AgentMessage[]): string {
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const m = messages[i];
+		if (m.type === "result" && typeof m.result === "string") return m.result;
+		if (m.type !== "assistant") continue;
+		const content = (m.message as { content?: unknown } | undefined)?.content;
+		if (!Array.isArray(content)) continue;
+		const text = content
+			.filter(
+				(block) => block?.type === "text" && typeof block.text === "string",
+			)
+			.map((block) => block.text)
+			.join("\n");
+		if (text) return text;
+	}
+	return "";
+}
+
+/** The simulated-user exchanges recorded in an iteration's `agentOutput`. */
+export function simulatedExchanges(
+	agentOutput: string,
+): SimulatedUserMessage[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(agentOutput);
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(parsed)) return [];
+	return parsed.filter(
+		(m: AgentMessage | null): m is SimulatedUserMessage =>
+			m?.type === "simulated_user",
+	);
+}
+
+/**
+ * Answers an agent's clarifying questions on the user's behalf, so evals can
+ * measure whether the agent asks the right ones. Scripted rules answer first;
+ * an LLM persona answers what they don't match; `fallback` covers the rest.
+ */
+export class UserSimulator {
+	readonly maxExchanges: number;
+	private readonly rules: Array<{ match: RegExp; reply: string }>;
+
+	constructor(private readonly spec: UserSimulatorSpec) {
+		this.maxExchanges = spec.maxExchanges ?? DEFAULT_MAX_EXCHANGES;
+		this.rules = (spec.rules ?? []).map((rule, i) => {
+			try {
+				return {
+					match: new RegExp(rule.match, rule.flags ?? "i"),
+					reply: rule.reply,
+				};
+			} catch (err) {
+				throw new Error(
+					`Invalid userSimulator.rules[${i}].match: ${err instanceof Error ? err.message : String(err)}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * One reply covering every question, in the order they were asked. `task`
+	 * is what the agent was last asked to do.
+	 */
+	async answer(
+		task: string,
+		questions: string[],
+		options: AnswerOptions = {},
+	): Promise<string> {
+		const replies: string[] = [];
+		const unmatched: string[] = [];
+		for (const question of questions) {
+			const rule = this.rules.find((r) => r.match.test(question));
+			if (rule) {
+				if (!replies.includes(rule.reply)) replies.push(rule.reply);
+			} else {
+				unmatched.push(question);
+			}
+		}
+
+		if (unmatched.length > 0) {
+			const personaReply = this.spec.persona
+				? await this.askPersona(task, unmatched, options)
+				: undefined;
+			replies.push(personaReply ?? this.spec.fallback ?? DEFAULT_FALLBACK);
+		}
+		return replies.join("\n");
+	}
+
+	/** Single-turn, tool-less persona call; undefined if it doesn't complete. */
+	private async askPersona(
+		task: string,
+		questions: string[],
+		{ signal, onUsage }: AnswerOptions,
+	): Promise<string | undefined> {
+		const persona = this.spec.persona;
+		if (!persona) return undefined;
+
+		// The SDK takes a controller, not a signal; bridge the runner's deadline.
+		const abortController = new AbortController();
+		if (signal?.aborted) abortController.abort();
+		else
+			signal?.addEventListener("abort", () => abortController.abort(), {
+				once: true,
+			});
+
+		const result = query({
+			prompt: [
+				`You asked a coding agent to do this task:\n${task}`,
+				`It asks you:\n${questions.map((q) => `- ${q}`).join("\n")}`,
+				"Reply to the agent as the user, briefly and in character. Reply with the message only.",
+			].join("\n\n"),
+			options: {
+				systemPrompt: persona.instructions,
+				maxTurns: 1,
+				allowedTools: [],
+				...(persona.model ? { model: persona.model } : {}),
+				abortController,
+			},
+		});
+
+		let reply: string | undefined;
+		for await (const message of result) {
+			const usage = sdkTokenUsage(message as AgentMessage);
+			if (usage) onUsage?.(usage);
+			if (message.type === "result" && message.subtype === "success") {
+				reply = message.result?.trim() || undefined;
+			}
+		}
+		return reply;
+	}
+}
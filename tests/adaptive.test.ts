@@ -0,0 +1,193 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+import { adaptiveStatus, nextAdaptiveRound } from "../src/adaptive";
+import { type EvalConfig, runClaudeCodeEval } from "../src/runner";
+import { wilsonInterval } from "../src/stats";
+import type { AgentAdapter, IterationResult } from "../src/types";
+
+const runs = (promptId: string, outcomes: boolean[]): IterationResult[] =>
+	outcomes.map((success, i) => ({
+		iterationId: i,
+		promptId,
+		success,
+		duration: 0,
+		scores: {},
+		agentOutput: "",
+		environmentVariables: {},
+	}));
+
+const agent: AgentAdapter = {
+	id: "noop",
+	async *run() {
+		yield { type: "result", subtype: "success" };
+	},
+	tokenUsage: () => undefined,
+};
+
+const baseConfig: EvalConfig = {
+	name: "adaptive-test",
+	prompts: [
+		{ id: "good", prompt: "pass" },
+		{ id: "bad", prompt: "fail" },
+	],
+	projectDir: ".",
+	installDependencies: false,
+	agent,
+	// The "good" prompt always passes, the "bad" one never does
+	scorers: [
+		{
+			name: "outcome",
+			evaluate: async ({ promptId }) => ({
+				score: promptId === "good" ? 1 : 0,
+				reason: "",
+			}),
+		},
+	],
+};
+
+describe("wilsonInterval", () => {
+	it("matches reference 95% intervals", () => {
+		const [low, high] = wilsonInterval(5, 10);
+		expect(low).toBeCloseTo(0.2366, 4);
+		expect(high).toBeCloseTo(0.7634, 4);
+		expect(wilsonInterval(3, 3)[0]).toBeCloseTo(0.4385, 4);
+		expect(wilsonInterval(3, 3)[1]).toBe(1);
+		expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+	});
+});
+
+describe("adaptiveStatus", () => {
+	const adaptive = { maxIterations: 20, ciWidth: 0.3 };
+
+	it("keeps going until the interval is narrow enough", () => {
+		const status = adaptiveStatus(
+			runs("a", Array(8).fill(true)),
+			["a"],
+			adaptive,
+		);
+		expect(status.a.stopped).toBeUndefined(); // 8/8: [0.68, 1]
+		const settled = adaptiveStatus(
+			runs("a", Array(10).fill(true)),
+			["a"],
+			adaptive,
+		);
+		expect(settled.a.stopped).toBe("pass-rate CI width 0.28 <= 0.3");
+	});
+
+	it("stops prompts whose intervals separate from the first", () => {
+		const results = [
+			...runs("a", [true, true, true, true, true]),
+			...runs("b", [false, false, false, false, false]),
+			...runs("c", [true, false, true, true, false]),
+		];
+		const status = adaptiveStatus(results, ["a", "b", "c"], adaptive);
+		expect(status.b.stopped).toBe("separated from a");
+		expect(status.c.stopped).toBeUndefined();
+		expect(status.a.stopped).toBeUndefined(); // c still overlaps it
+
+		const without = adaptiveStatus(results, ["a", "b"], {
+			...adaptive,
+			stopWhenSeparated: false,
+		});
+		expect(without.b.stopped).toBeUndefined();
+	});
+
+	it("never stops before minIterations and always at maxIterations", () => {
+		const results = runs("a", [true, true]);
+		expect(
+			adaptiveStatus(results, ["a"], { maxIterations: 5, ciWidth: 1 }).a
+				.stopped,
+		).toBeUndefined();
+		expect(adaptiveStatus(results, ["a"], { maxIterations: 2 }).a.stopped).toBe(
+			"reached maxIterations (2)",
+		);
+	});
+});
+
+describe("nextAdaptiveRound", () => {
+	it("fills up to minIterations, then shares the concurrency", () => {
+		const adaptive = { maxIterations: 10, minIterations: 4 };
+		const fresh = adaptiveStatus([], ["a", "b"], adaptive);
+		expect(nextAdaptiveRound(fresh, { mode: "sequential" }, adaptive)).toEqual({
+			a: 4,
+			b: 4,
+		});
+
+		const status = adaptiveStatus(
+			[
+				...runs("a", [true, false, true, false]),
+				...runs("b", [
+					true,
+					false,
+					true,
+					false,
+					true,
+					false,
+					true,
+					false,
+					true,
+				]),
+			],
+			["a", "b"],
+			adaptive,
+		);
+		expect(
+			nextAdaptiveRound(
+				status,
+				{ mode: "parallel-limit", concurrency: 6 },
+				adaptive,
+			),
+		).toEqual({ a: 3, b: 1 }); // b is one short of maxIterations
+	});
+});
+
+describe("adaptive execution", () => {
+	it("schedules rounds until the prompts are separated", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			execution: { mode: "sequential", adaptive: { maxIterations: 10 } },
+		});
+
+		// 3/3 vs 0/3 don't separate yet: [0.44, 1] and [0, 0.56] overlap, so one
+		// more round each: 4/4 [0.51, 1] vs 0/4 [0, 0.49]
+		expect(result.adaptive).toMatchObject({
+			good: { runs: 4, stopped: "separated from every other prompt" },
+			bad: { runs: 4, stopped: "separated from good" },
+		});
+		expect(result.iterations).toHaveLength(8);
+		expect(result.iterations.map((i) => i.iterationId)).toEqual([
+			0, 1, 2, 3, 4, 5, 6, 7,
+		]);
+		expect(result.comparisons?.[0].passRate.diff).toBe(-1);
+	});
+
+	it("stops at maxIterations in parallel-limit rounds", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			prompts: [{ id: "good", prompt: "pass" }],
+			execution: {
+				mode: "parallel-limit",
+				concurrency: 2,
+				adaptive: { maxIterations: 5, ciWidth: 0.01 },
+			},
+		});
+		expect(result.adaptive?.good).toMatchObject({
+			runs: 5,
+			stopped: "reached maxIterations (5)",
+		});
+	});
+});
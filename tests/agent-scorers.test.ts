@@ -1,6 +1,8 @@
 import { describe, expect, test } from "vitest";
 import type { ScorerContext } from "../src";
-import { SkillPickedUpScorer } from "../src";
+import { SkillPickedUpScorer, ToolUsageScorer } from "../src";
+import { compileScorer } from "../src/scorers/registry";
+import { jsonConfigSchema } from "../src/scorers/schema";
 
 const mockAgentOutput = (
 	toolUses: Array<{ name: string; input: Record<string, unknown>; id: string }>,
@@ -119,3 +121,98 @@ describe("SkillPickedUpScorer", () => {
 		expect(scorer.name).toBe("skill-picked-up:commit");
 	});
 });
+
+describe("ToolUsageScorer", () => {
+	const trajectory = mockAgentOutput([
+		{ name: "Read", input: { file_path: "src/a.ts" }, id: "1" },
+		{ name: "Edit", input: { file_path: "src/a.ts" }, id: "2" },
+		{ name: "Bash", input: { command: "npm test" }, id: "3" },
+		{ name: "Edit", input: { file_path: "src/b.ts" }, id: "4" },
+		{ name: "Bash", input: { command: "rm -rf dist" }, id: "5" },
+	]);
+
+	test("bounds the calls matching a tool and input regexes", async () => {
+		const bash = new ToolUsageScorer({ tool: "Bash", max: 1 });
+		const result = await bash.evaluate(dummyContext(trajectory));
+		expect(bash.name).toBe("tool-usage:Bash");
+		expect(result).toMatchObject({
+			score: 0,
+			reason: "Tool usage: Bash called 2 time(s), expected at most 1",
+			metadata: { calls: 5, matching: 2 },
+		});
+
+		const ranTests = compileScorer({
+			type: "tool-usage",
+			tool: "Bash",
+			input: { command: "^npm (run )?test" },
+			called: true,
+		});
+		expect((await ranTests.evaluate(dummyContext(trajectory))).score).toBe(1);
+
+		const noWrite = new ToolUsageScorer({ tool: "Write", called: false });
+		expect((await noWrite.evaluate(dummyContext(trajectory))).score).toBe(1);
+	});
+
+	test("asks for at least one call when `tool` has no bounds", async () => {
+		const write = compileScorer({ type: "tool-usage", tool: "Write" });
+		expect(await write.evaluate(dummyContext(trajectory))).toMatchObject({
+			score: 0,
+			reason: "Tool usage: Write called 0 time(s), expected at least 1",
+		});
+		const bash = new ToolUsageScorer({ tool: "Bash" });
+		expect((await bash.evaluate(dummyContext(trajectory))).score).toBe(1);
+		const fewBash = new ToolUsageScorer({ tool: "Write", max: 3 });
+		expect((await fewBash.evaluate(dummyContext(trajectory))).score).toBe(1);
+	});
+
+	test("requires a prior call on the same file for ordering", async () => {
+		const scorer = new ToolUsageScorer({
+			order: { before: "Read", after: "Edit", sameFile: true },
+		});
+		const result = await scorer.evaluate(dummyContext(trajectory));
+		expect(scorer.name).toBe("tool-usage:Read-before-Edit");
+		expect(result.score).toBe(0);
+		expect(result.reason).toBe(
+			"Tool usage: Edit of src/b.ts without a prior Read",
+		);
+
+		const anyFile = new ToolUsageScorer({
+			order: { before: "Read", after: "Edit" },
+		});
+		expect((await anyFile.evaluate(dummyContext(trajectory))).score).toBe(1);
+	});
+
+	test("fails on forbidden Bash commands", async () => {
+		const scorer = new ToolUsageScorer({
+			forbiddenCommands: ["rm -rf", "git push"],
+		});
+		const result = await scorer.evaluate(dummyContext(trajectory));
+		expect(scorer.name).toBe("tool-usage:forbidden-commands");
+		expect(result).toMatchObject({
+			score: 0,
+			reason: "Tool usage: forbidden command `rm -rf dist`",
+			metadata: { forbidden: ["rm -rf dist"] },
+		});
+	});
+
+	test("reports an invalid regex", async () => {
+		const result = await new ToolUsageScorer({
+			forbiddenCommands: ["("],
+		}).evaluate(dummyContext(trajectory));
+		expect(result.score).toBe(0);
+		expect(result.reason).toMatch(/^invalid regex: /);
+	});
+
+	test("schema requires a check, and `tool` for call bounds", () => {
+		const parse = (scorer: object) =>
+			jsonConfigSchema.safeParse({
+				name: "x",
+				prompts: [{ id: "v1", prompt: "p" }],
+				projectDir: ".",
+				scorers: [{ type: "tool-usage", ...scorer }],
+			}).success;
+		expect(parse({})).toBe(false);
+		expect(parse({ max: 3 })).toBe(false);
+		expect(parse({ tool: "Bash", max: 3 })).toBe(true);
+	});
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+import { ClaudeCodeAgent, sdkTokenUsage } from "../src/agents/claude-code";
+import { AGENTS, resolveAgent } from "../src/agents/registry";
+import { type EvalConfig, runClaudeCodeEval } from "../src/runner";
+import type { AgentAdapter, AgentRunContext } from "../src/types";
+
+const baseConfig: EvalConfig = {
+	name: "agents-test",
+	prompts: [{ id: "default", prompt: "say hi" }],
+	projectDir: ".",
+	installDependencies: false,
+};
+
+/** A scripted stand-in: one assistant message, then an SDK-shaped result. */
+function scriptedAgent(seen: AgentRunContext[] = []): AgentAdapter {
+	return {
+		id: "scripted",
+		async *run(context) {
+			seen.push(context);
+			yield {
+				type: "assistant",
+				message: { content: [{ type: "text", text: "hi" }] },
+			};
+			yield {
+				type: "result",
+				subtype: "success",
+				usage: { input_tokens: 10, output_tokens: 5 },
+			};
+		},
+		tokenUsage: sdkTokenUsage,
+	};
+}
+
+describe("resolveAgent", () => {
+	it("defaults to Claude Code", () => {
+		expect(resolveAgent(baseConfig)).toBeInstanceOf(ClaudeCodeAgent);
+	});
+
+	it("returns an inline adapter as-is", () => {
+		const agent = scriptedAgent();
+		expect(resolveAgent({ ...baseConfig, agent })).toBe(agent);
+	});
+
+	it("resolves a registered name", () => {
+		AGENTS.scripted = () => scriptedAgent();
+		try {
+			expect(resolveAgent({ ...baseConfig, agent: "scripted" }).id).toBe(
+				"scripted",
+			);
+		} finally {
+			delete AGENTS.scripted;
+		}
+	});
+
+	it("throws on an unknown name, listing valid ones", () => {
+		expect(() => resolveAgent({ ...baseConfig, agent: "nope" })).toThrow(
+			"Unknown agent 'nope' (valid: claude-code)",
+		);
+	});
+});
+
+describe("sdkTokenUsage", () => {
+	it("reads usage from result messages only", () => {
+		expect(
+			sdkTokenUsage({
+				type: "result",
+				usage: {
+					input_tokens: 3,
+					output_tokens: 4,
+					cache_read_input_tokens: 1,
+				},
+			}),
+		).toEqual({
+			inputTokens: 3,
+			outputTokens: 4,
+			cacheCreationInputTokens: undefined,
+			cacheReadInputTokens: 1,
+		});
+		expect(sdkTokenUsage({ type: "assistant", usage: {} })).toBeUndefined();
+	});
+
+	it("carries the reported cost and model", () => {
+		expect(
+			sdkTokenUsage({
+				type: "result",
+				usage: { input_tokens: 3, output_tokens: 4 },
+				total_cost_usd: 0.0125,
+				modelUsage: { "claude-sonnet-4-5": { costUSD: 0.0125 } },
+			}),
+		).toMatchObject({ model: "claude-sonnet-4-5", costUsd: 0.0125 });
+	});
+
+	it("reports the model that wrote the most output, not a helper model", () => {
+		expect(
+			sdkTokenUsage({
+				type: "result",
+				usage: { input_tokens: 900, output_tokens: 420 },
+				modelUsage: {
+					"claude-haiku-4-5": { inputTokens: 100, outputTokens: 20 },
+					"claude-sonnet-4-5": { inputTokens: 800, outputTokens: 400 },
+				},
+			}),
+		).toMatchObject({ model: "claude-sonnet-4-5" });
+	});
+});
+
+describe("runClaudeCodeEval with a custom agent", () => {
+	it("streams the adapter's messages into agentOutput and usage into results", async () => {
+		const seen: AgentRunContext[] = [];
+		let agentOutput = "";
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			agent: scriptedAgent(seen),
+			environmentVariables: { FOO: "bar" },
+			scorers: [
+				{
+					name: "capture",
+					evaluate: async (ctx) => {
+						agentOutput = ctx.agentOutput;
+						return { score: 1, reason: "ok" };
+					},
+				},
+			],
+		});
+
+		expect(seen).toHaveLength(1);
+		expect(seen[0].prompt).toBe("say hi");
+		expect(seen[0].environmentVariables).toEqual({ FOO: "bar" });
+		expect(seen[0].signal.aborted).toBe(false);
+
+		expect(JSON.parse(agentOutput)).toHaveLength(2);
+		expect(result.agentId).toBe("scripted");
+		expect(result.success).toBe(true);
+		expect(result.iterations[0].tokenUsage).toMatchObject({
+			inputTokens: 10,
+			outputTokens: 5,
+		});
+	});
+
+	it("keeps an explicit agentId over the adapter id", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			agent: scriptedAgent(),
+			agentId: "scripted-v2",
+		});
+		expect(result.agentId).toBe("scripted-v2");
+	});
+});
@@ -91,6 +91,29 @@ describe("calculateAggregateScores", () => {
 		expect(agg._overall.passRate).toBe(0.5);
 	});
 
+	test("pass@k / pass^k: estimated per prompt, averaged over prompts with k runs", () => {
+		const run = (promptId: string, passed: boolean) =>
+			iteration({ build: score({ score: passed ? 1 : 0 }) }, { promptId });
+		const results = [
+			...[true, false, false].map((passed) => run("a", passed)),
+			...[true, true, true].map((passed) => run("b", passed)),
+			run("c", true), // too few runs for k = 2
+		];
+
+		const agg = calculateAggregateScores(results, [1, 2, 5]);
+
+		// a: pass@2 = 1 - C(2, 2) / C(3, 2) = 2/3, pass^2 = 0; b: both 1
+		expect(agg._overall.passAtK?.[2]).toBeCloseTo((2 / 3 + 1) / 2);
+		expect(agg._overall.passHatK?.[2]).toBeCloseTo(0.5);
+		// k = 1 averages per-prompt pass rates, c included
+		expect(agg._overall.passAtK?.[1]).toBeCloseTo((1 / 3 + 1 + 1) / 3);
+		expect(agg.build.passHatK).toEqual(agg._overall.passHatK);
+		// No prompt has 5 runs
+		expect(Object.keys(agg._overall.passAtK ?? {})).toEqual(["1", "2"]);
+
+		expect(calculateAggregateScores(results)._overall.passAtK).toBeUndefined();
+	});
+
 	test("no iterations: overall passRate is 0, no scorer entries", () => {
 		const agg = calculateAggregateScores([]);
 		expect(agg._overall.passRate).toBe(0);
@@ -0,0 +1,192 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { configHash, HISTORY_FILE, readHistory } from "../src/history";
+import { type EvalConfig, runClaudeCodeEval } from "../src/runner";
+import { withPristineCopy } from "../src/scorers/baseline";
+import { FileScorer } from "../src/scorers/file";
+import type { AgentAdapter } from "../src/types";
+
+let tmpDir: string;
+let projectDir: string;
+let resultsDir: string;
+
+/** Edits greet.ts, adds a file and deletes one — no model involved. */
+const editingAgent: AgentAdapter = {
+	id: "scripted",
+	async *run({ cwd }) {
+		fs.writeFileSync(
+			path.join(cwd, "greet.ts"),
+			'export const greet = "hi";\n',
+		);
+		fs.writeFileSync(path.join(cwd, "added.txt"), "new\n");
+		fs.rmSync(path.join(cwd, "old.txt"));
+		yield { type: "result", subtype: "success" };
+	},
+	tokenUsage: () => undefined,
+};
+
+const baseConfig = (): EvalConfig => ({
+	name: "artifacts",
+	prompts: [{ id: "v1", prompt: "say hi" }],
+	projectDir,
+	installDependencies: false,
+	resultsDir,
+	agent: editingAgent,
+});
+
+/** The single run dir writeResults created under resultsDir. */
+function runDir(): string {
+	const [dir] = fs
+		.readdirSync(resultsDir)
+		.filter((name) => name !== HISTORY_FILE);
+	return path.join(resultsDir, dir);
+}
+
+beforeEach(() => {
+	// The runner commits the fresh copy; CI machines may have no git identity.
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+	projectDir = path.join(tmpDir, "project");
+	resultsDir = path.join(tmpDir, "results");
+	fs.mkdirSync(projectDir);
+	fs.writeFileSync(
+		path.join(projectDir, "greet.ts"),
+		'export const greet = "hello";\n',
+	);
+	fs.writeFileSync(path.join(projectDir, "old.txt"), "old\n");
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("iteration artifacts", () => {
+	it("saves each iteration's patch beside results.json and references it", async () => {
+		const result = await runClaudeCodeEval(baseConfig());
+
+		const [iteration] = result.iterations;
+		expect(iteration.artifacts).toEqual({ patch: "iteration-v1-0.patch" });
+
+		const patch = fs.readFileSync(
+			path.join(runDir(), "iteration-v1-0.patch"),
+			"utf8",
+		);
+		expect(patch).toContain('+export const greet = "hi";');
+		expect(patch).toContain("added.txt");
+		expect(patch).toContain("deleted file");
+
+		const recorded = JSON.parse(
+			fs.readFileSync(path.join(runDir(), "results.json"), "utf8"),
+		);
+		expect(recorded.iterations[0].artifacts.patch).toBe("iteration-v1-0.patch");
+	});
+
+	it("archives changed files when snapshot is enabled", async () => {
+		const result = await runClaudeCodeEval({ ...baseConfig(), snapshot: true });
+
+		expect(result.iterations[0].artifacts?.snapshot).toBe(
+			"iteration-v1-0.tar.gz",
+		);
+		const { stdout } = await execa("tar", [
+			"-tzf",
+			path.join(runDir(), "iteration-v1-0.tar.gz"),
+		]);
+		expect(stdout.split("\n").sort()).toEqual(["added.txt", "greet.ts"]);
+	});
+
+	it("appends the run to the history index", async () => {
+		// projectDir becomes a repository, so the entry carries its commit
+		await execa("git", ["init", "-q"], { cwd: projectDir });
+		await execa("git", ["add", "-A"], { cwd: projectDir });
+		await execa("git", ["commit", "-qm", "init"], { cwd: projectDir });
+		const { stdout: head } = await execa("git", ["rev-parse", "HEAD"], {
+			cwd: projectDir,
+		});
+
+		await runClaudeCodeEval(baseConfig());
+		await runClaudeCodeEval(baseConfig());
+
+		const entries = await readHistory(resultsDir);
+		expect(entries).toHaveLength(2);
+		expect(entries[0]).toMatchObject({
+			evalName: "artifacts",
+			agentId: "scripted",
+			gitCommit: head,
+			configHash: configHash(baseConfig()),
+			resultsPath: path.relative(resultsDir, runDir()),
+			runs: 1,
+			passRate: 1,
+		});
+	});
+
+	it("starts the diff and pristine baseline from uncommitted changes", async () => {
+		await execa("git", ["init", "-q"], { cwd: projectDir });
+		await execa("git", ["add", "-A"], { cwd: projectDir });
+		await execa("git", ["commit", "-qm", "init"], { cwd: projectDir });
+		fs.writeFileSync(
+			path.join(projectDir, "greet.ts"),
+			'export const greet = "hey";\n',
+		);
+		fs.writeFileSync(path.join(projectDir, "notes.txt"), "wip\n");
+
+		const result = await runClaudeCodeEval({
+			...baseConfig(),
+			scorers: [
+				{
+					name: "pristine",
+					evaluate: ({ workingDir }) =>
+						withPristineCopy(workingDir, async (dir) => ({
+							score: 1,
+							reason: "",
+							metadata: {
+								greet: fs.readFileSync(path.join(dir, "greet.ts"), "utf8"),
+								notes: fs.existsSync(path.join(dir, "notes.txt")),
+							},
+						})),
+				},
+			],
+		});
+
+		const [iteration] = result.iterations;
+		expect(iteration.scores.pristine.metadata).toEqual({
+			greet: 'export const greet = "hey";\n',
+			notes: true,
+		});
+		expect(iteration.diff).toContain('-export const greet = "hey";');
+		expect(iteration.diff).not.toContain("notes.txt");
+	});
+
+	it("writes no artifacts without resultsDir", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig(),
+			resultsDir: undefined,
+		});
+		expect(result.iterations[0].artifacts).toBeUndefined();
+	});
+
+	it("replays a saved run to the same scores", async () => {
+		await runClaudeCodeEval(baseConfig());
+
+		const replayed = await runClaudeCodeEval({
+			...baseConfig(),
+			resultsDir: undefined,
+			agent: undefined,
+			replay: { results: path.join(runDir(), "results.json") },
+			scorers: [
+				new FileScorer({ type: "file", path: "greet.ts", contains: '"hi"' }),
+				new FileScorer({ type: "file", path: "old.txt", exists: false }),
+			],
+		});
+
+		expect(replayed.agentId).toBe("scripted");
+		expect(replayed.iterations[0].error).toBeUndefined();
+		expect(replayed.iterations[0].success).toBe(true);
+	});
+});
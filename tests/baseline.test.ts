@@ -0,0 +1,144 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+import { compareResults, runClaudeCodeEval } from "../src/runner";
+import type { AgentAdapter, IterationResult } from "../src/types";
+
+/** Runs of `promptId` with these `quality` scores; passing at 0.5. */
+const runs = (promptId: string, scores: number[]): IterationResult[] =>
+	scores.map((score, i) => ({
+		iterationId: i,
+		promptId,
+		success: score >= 0.5,
+		duration: 0,
+		scores: { quality: { score, reason: "", passThreshold: 0.5 } },
+		agentOutput: "",
+		environmentVariables: {},
+	}));
+
+describe("compareResults", () => {
+	it("flags significant drops overall and per prompt", () => {
+		const baseline = {
+			iterations: [
+				...runs("a", [0.9, 0.8, 0.9, 1, 0.7]),
+				...runs("b", [0.6, 0.7, 0.6, 0.8, 0.6]),
+			],
+		};
+		const current = {
+			iterations: [
+				...runs("a", [0.1, 0.2, 0.3, 0.2, 0.1]),
+				...runs("b", [0.6, 0.8, 0.6, 0.7, 0.6]),
+			],
+		};
+
+		const comparisons = compareResults(baseline, current);
+		expect(
+			comparisons.map((c) => [c.scorer, c.promptId, c.regression]),
+		).toEqual([
+			["_overall", undefined, true],
+			["quality", undefined, true],
+			["_overall", "a", true],
+			["quality", "a", true],
+			["_overall", "b", false],
+			["quality", "b", false],
+		]);
+		const overall = comparisons[0];
+		expect(overall.runs).toEqual({ baseline: 10, current: 10 });
+		expect(overall.passRate.diff).toBeCloseTo(-0.5);
+		expect(overall.score).toBeUndefined();
+	});
+
+	it("does not flag improvements or scorers the baseline never ran", () => {
+		const comparisons = compareResults(
+			{ iterations: runs("a", [0, 0, 0, 0, 0]) },
+			{
+				iterations: runs("a", [1, 1, 1, 1, 1]).map((r) => ({
+					...r,
+					scores: { ...r.scores, build: { score: 1, reason: "" } },
+				})),
+			},
+		);
+		expect(comparisons.map((c) => c.scorer)).toEqual(["_overall", "quality"]);
+		expect(comparisons.every((c) => !c.regression)).toBe(true);
+		expect(comparisons[0].passRate.significant).toBe(true);
+	});
+});
+
+describe("EvalConfig.baseline", () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-baseline-"));
+	afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	const agent: AgentAdapter = {
+		id: "noop",
+		async *run() {
+			yield { type: "result", subtype: "success" };
+		},
+		tokenUsage: () => undefined,
+	};
+
+	it("compares the run against a recorded results.json", async () => {
+		const baselinePath = path.join(dir, "results.json");
+		fs.writeFileSync(
+			baselinePath,
+			JSON.stringify({
+				timestamp: "2025-01-15T14:30:22.000Z",
+				iterations: runs("default", [1, 1, 1, 1, 1]),
+			}),
+		);
+
+		const result = await runClaudeCodeEval({
+			name: "baseline-test",
+			prompts: [{ id: "default", prompt: "work" }],
+			projectDir: ".",
+			installDependencies: false,
+			iterations: 5,
+			agent,
+			scorers: [
+				{
+					name: "quality",
+					evaluate: async () => ({ score: 0, reason: "", passThreshold: 0.5 }),
+				},
+			],
+			baseline: baselinePath,
+		});
+
+		expect(result.baseline).toMatchObject({
+			results: baselinePath,
+			timestamp: "2025-01-15T14:30:22.000Z",
+		});
+		expect(
+			result.baseline?.comparisons.map((c) => [c.scorer, c.regression]),
+		).toEqual([
+			["_overall", true],
+			["quality", true],
+		]);
+	});
+
+	it("fails before running when the baseline can't be read", async () => {
+		await expect(
+			runClaudeCodeEval({
+				name: "baseline-test",
+				prompts: [{ id: "default", prompt: "work" }],
+				projectDir: ".",
+				agent,
+				baseline: path.join(dir, "missing.json"),
+			}),
+		).rejects.toThrow(/^Cannot read baseline results .*missing\.json/);
+	});
+});
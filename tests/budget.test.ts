@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+import { sdkStepUsage, sdkTokenUsage } from "../src/agents/claude-code";
+import { BudgetTracker, exceededLimit } from "../src/budget";
+import { type EvalConfig, runClaudeCodeEval } from "../src/runner";
+import type { AgentAdapter, AgentMessage } from "../src/types";
+
+const baseConfig: EvalConfig = {
+	name: "budget-test",
+	prompts: [{ id: "default", prompt: "work" }],
+	projectDir: ".",
+	installDependencies: false,
+};
+
+/** An SDK assistant message for API call `id`, billed 100 tokens. */
+const step = (id: string): AgentMessage => ({
+	type: "assistant",
+	message: {
+		id,
+		model: "m",
+		content: [{ type: "text", text: "working" }],
+		usage: { input_tokens: 60, output_tokens: 40 },
+	},
+});
+
+/**
+ * Agent making one 100-token model call after another until aborted, or
+ * `calls` calls and then a result reporting 100 tokens per call.
+ */
+function streamingAgent(calls = Number.POSITIVE_INFINITY): AgentAdapter {
+	return {
+		id: "streaming",
+		async *run({ signal, iteration, turn }) {
+			let made = 0;
+			while (!signal.aborted && made < calls) {
+				yield step(`msg-${iteration}-${turn}-${made++}`);
+				await new Promise((resolve) => setTimeout(resolve, 1));
+			}
+			if (signal.aborted) return;
+			yield {
+				type: "result",
+				subtype: "success",
+				usage: { input_tokens: 60 * made, output_tokens: 40 * made },
+			};
+		},
+		tokenUsage: sdkTokenUsage,
+		stepUsage: sdkStepUsage,
+	};
+}
+
+describe("exceededLimit", () => {
+	it("names the first limit over, in order tokens / USD / turns", () => {
+		const spend = { tokens: 500, usd: 0.2, turns: 3 };
+		expect(
+			exceededLimit(spend, { maxTokens: 1000, maxTurns: 2 }, "total"),
+		).toBe("BUDGET_EXCEEDED: total budget of 2 turns exceeded (3 turns)");
+		expect(
+			exceededLimit(spend, { maxTokens: 400, maxUsd: 0.1 }, "iteration"),
+		).toBe(
+			"BUDGET_EXCEEDED: iteration budget of 400 tokens exceeded (500 tokens)",
+		);
+		expect(exceededLimit(spend, { maxUsd: 0.1 }, "iteration")).toBe(
+			"BUDGET_EXCEEDED: iteration budget of $0.1000 exceeded ($0.2000)",
+		);
+	});
+
+	it("holds at the limit and when the cost is unknown", () => {
+		expect(
+			exceededLimit(
+				{ tokens: 500, turns: 1 },
+				{ maxTokens: 500, maxUsd: 0 },
+				"total",
+			),
+		).toBeUndefined();
+		expect(
+			exceededLimit({ tokens: 500, turns: 1 }, undefined, "total"),
+		).toBeUndefined();
+	});
+});
+
+describe("BudgetTracker", () => {
+	it("stops every in-flight iteration once the total runs out", () => {
+		const tracker = new BudgetTracker({ total: { maxTokens: 100 } });
+		const stopped: string[] = [];
+		tracker.start(0, (reason) => stopped.push(`0: ${reason}`));
+		tracker.start(1, (reason) => stopped.push(`1: ${reason}`));
+		tracker.record(0, { tokens: 60, turns: 1 });
+		tracker.finish(0);
+		tracker.record(1, { tokens: 60, turns: 1 });
+
+		const reason =
+			"BUDGET_EXCEEDED: total budget of 100 tokens exceeded (120 tokens)";
+		expect(stopped).toEqual([`1: ${reason}`]);
+		expect(tracker.start(2, () => {})).toBe(reason);
+	});
+});
+
+describe("sdkStepUsage", () => {
+	it("reads an assistant message's API call usage", () => {
+		expect(sdkStepUsage(step("msg-1"))).toEqual({
+			id: "msg-1",
+			usage: {
+				inputTokens: 60,
+				outputTokens: 40,
+				cacheCreationInputTokens: undefined,
+				cacheReadInputTokens: undefined,
+				model: "m",
+			},
+		});
+		expect(
+			sdkStepUsage({ type: "result", usage: { input_tokens: 1 } }),
+		).toBeUndefined();
+	});
+});
+
+describe("EvalConfig.budget enforcement", () => {
+	it("aborts an iteration mid-turn once it goes over its own limits", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			iterations: 2,
+			agent: streamingAgent(),
+			budget: { iteration: { maxTurns: 3 } },
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.budgetExceeded).toBe(true);
+		for (const iteration of result.iterations) {
+			expect(iteration.error).toBe(
+				"BUDGET_EXCEEDED: iteration budget of 3 turns exceeded (4 turns)",
+			);
+			// The usage streamed before the abort is kept
+			expect(iteration.tokenUsage).toMatchObject({
+				inputTokens: 240,
+				outputTokens: 160,
+			});
+		}
+	});
+
+	it("prices live usage for a USD limit", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			agent: streamingAgent(),
+			pricing: { m: { input: 1000, output: 1000 } }, // $0.10 per call
+			budget: { iteration: { maxUsd: 0.25 } },
+		});
+		expect(result.iterations[0].error).toBe(
+			"BUDGET_EXCEEDED: iteration budget of $0.2500 exceeded ($0.3000)",
+		);
+		expect(result.iterations[0].costUsd).toBeCloseTo(0.3);
+	});
+
+	it("skips the remaining iterations once the total is spent", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			iterations: 3,
+			agent: streamingAgent(2),
+			budget: { total: { maxTokens: 300 } },
+		});
+
+		const reason =
+			"BUDGET_EXCEEDED: total budget of 300 tokens exceeded (400 tokens)";
+		expect(result.iterations.map((i) => i.error)).toEqual([
+			undefined,
+			reason,
+			reason,
+		]);
+		expect(result.iterations[2].duration).toBe(0);
+		expect(result.budgetExceeded).toBe(true);
+	});
+
+	it("aborts in-flight parallel iterations when the total runs out", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			iterations: 2,
+			execution: { mode: "parallel" },
+			agent: streamingAgent(),
+			budget: { total: { maxTokens: 1000 } },
+		});
+		for (const iteration of result.iterations) {
+			expect(iteration.error).toMatch(
+				/^BUDGET_EXCEEDED: total budget of 1000 tokens exceeded/,
+			);
+		}
+	});
+
+	it("leaves the result unmarked within budget", async () => {
+		const result = await runClaudeCodeEval({
+			...baseConfig,
+			agent: streamingAgent(2),
+			budget: { iteration: { maxTokens: 200 }, total: { maxTurns: 2 } },
+		});
+		expect(result.success).toBe(true);
+		expect(result.budgetExceeded).toBeUndefined();
+	});
+});
@@ -0,0 +1,159 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CHECKPOINT_FILE, readCheckpoint } from "../src/checkpoint";
+import { HISTORY_FILE } from "../src/history";
+import { type EvalConfig, runClaudeCodeEval } from "../src/runner";
+import type { AgentAdapter } from "../src/types";
+
+let tmpDir: string;
+let projectDir: string;
+let resultsDir: string;
+let ran: number[];
+
+/** Records which iterations it ran; changes nothing. */
+const agent: AgentAdapter = {
+	id: "scripted",
+	async *run({ iteration }) {
+		ran.push(iteration);
+		yield { type: "result", subtype: "success" };
+	},
+	tokenUsage: () => undefined,
+};
+
+const baseConfig = (): EvalConfig => ({
+	name: "checkpoint",
+	prompts: [{ id: "v1", prompt: "do it" }],
+	iterations: 3,
+	projectDir,
+	installDependencies: false,
+	resultsDir,
+	agent,
+});
+
+/** The single run dir under resultsDir. */
+function runDir(): string {
+	const [dir] = fs
+		.readdirSync(resultsDir)
+		.filter((name) => name !== HISTORY_FILE);
+	return path.join(resultsDir, dir);
+}
+
+const checkpointLines = () =>
+	fs
+		.readFileSync(path.join(runDir(), CHECKPOINT_FILE), "utf8")
+		.trim()
+		.split("\n")
+		.map((line) => JSON.parse(line));
+
+beforeEach(() => {
+	// The runner commits the fresh copy; CI machines may have no git identity.
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-"));
+	projectDir = path.join(tmpDir, "project");
+	resultsDir = path.join(tmpDir, "results");
+	fs.mkdirSync(projectDir);
+	fs.writeFileSync(path.join(projectDir, "index.ts"), "export {};\n");
+	ran = [];
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("checkpoint", () => {
+	it("records each iteration in the run directory as it finishes", async () => {
+		const result = await runClaudeCodeEval(baseConfig());
+
+		const [start, ...iterations] = checkpointLines();
+		expect(start).toMatchObject({
+			type: "start",
+			evalName: "checkpoint",
+			timestamp: result.timestamp,
+		});
+		expect(iterations.map((line) => line.result.iterationId)).toEqual([
+			0, 1, 2,
+		]);
+
+		const checkpoint = await readCheckpoint(runDir());
+		expect(checkpoint.iterations).toEqual(
+			JSON.parse(JSON.stringify(result.iterations)),
+		);
+	});
+
+	it("resumes a run, rerunning only what didn't finish", async () => {
+		const first = await runClaudeCodeEval(baseConfig());
+		// Cut the run short after iteration 1, which the budget had stopped,
+		// mid-way through writing iteration 2
+		const [start, zero, one] = checkpointLines();
+		one.result.error = "BUDGET_EXCEEDED: total budget of 10 tokens exceeded";
+		fs.writeFileSync(
+			path.join(runDir(), CHECKPOINT_FILE),
+			`${[start, zero, one].map((line) => JSON.stringify(line)).join("\n")}\n{"type":"iter`,
+		);
+		fs.rmSync(path.join(runDir(), "results.json"));
+		ran = [];
+
+		const resumed = await runClaudeCodeEval({
+			...baseConfig(),
+			resultsDir: undefined,
+			resume: runDir(),
+		});
+
+		expect(ran).toEqual([1, 2]);
+		expect(resumed.timestamp).toBe(first.timestamp);
+		expect(resumed.iterations.map((i) => i.iterationId)).toEqual([0, 1, 2]);
+		expect(resumed.iterations[0]).toEqual(
+			JSON.parse(JSON.stringify(first.iterations[0])),
+		);
+		expect(resumed.iterations[1].error).toBeUndefined();
+
+		const saved = JSON.parse(
+			fs.readFileSync(path.join(runDir(), "results.json"), "utf8"),
+		);
+		expect(saved.iterations).toHaveLength(3);
+		// The cut-short line is gone, so the rerun iteration was recorded
+		const checkpoint = await readCheckpoint(runDir());
+		expect(checkpoint.iterations[1].error).toBeUndefined();
+		expect(checkpoint.iterations).toHaveLength(3);
+	});
+
+	it("continues adaptive iterations after the checkpointed ones", async () => {
+		await runClaudeCodeEval({
+			...baseConfig(),
+			execution: { mode: "sequential", adaptive: { maxIterations: 3 } },
+		});
+		const [start, zero, one] = checkpointLines();
+		fs.writeFileSync(
+			path.join(runDir(), CHECKPOINT_FILE),
+			`${[start, zero, one].map((line) => JSON.stringify(line)).join("\n")}\n`,
+		);
+		ran = [];
+
+		const resumed = await runClaudeCodeEval({
+			...baseConfig(),
+			execution: { mode: "sequential", adaptive: { maxIterations: 3 } },
+			resume: runDir(),
+		});
+
+		expect(ran).toEqual([2]);
+		expect(resumed.adaptive?.v1.runs).toBe(3);
+	});
+
+	it("refuses to resume another eval's run or a directory without a checkpoint", async () => {
+		await runClaudeCodeEval({ ...baseConfig(), iterations: 1 });
+
+		await expect(
+			runClaudeCodeEval({ ...baseConfig(), name: "other", resume: runDir() }),
+		).rejects.toThrow('it is a run of "checkpoint", not "other"');
+		await expect(
+			runClaudeCodeEval({ ...baseConfig(), resume: projectDir }),
+		).rejects.toThrow(`no readable ${CHECKPOINT_FILE}`);
+		expect(ran).toEqual([0]);
+	});
+});
@@ -0,0 +1,190 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CliAgent } from "../src/agents/cli";
+import { compileAgent } from "../src/agents/registry";
+import { loadEvalFile } from "../src/eval-config-loader";
+import { SkillPickedUpScorer } from "../src/scorers/agent";
+import type {
+	AgentAdapter,
+	AgentMessage,
+	AgentRunContext,
+	ScorerContext,
+} from "../src/types";
+
+let tmpDir: string;
+
+beforeEach(() => {
+	tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-agent-"));
+});
+
+afterEach(() => {
+	fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const runContext = (over: Partial<AgentRunContext> = {}): AgentRunContext => ({
+	prompt: "do the thing",
+	cwd: tmpDir,
+	signal: new AbortController().signal,
+	environmentVariables: {},
+	iteration: 0,
+	turn: 0,
+	history: [],
+	...over,
+});
+
+async function collect(
+	agent: AgentAdapter,
+	context: AgentRunContext,
+): Promise<AgentMessage[]> {
+	const messages: AgentMessage[] = [];
+	for await (const message of agent.run(context)) messages.push(message);
+	return messages;
+}
+
+/** A `node -e` CLI agent; `{{prompt}}` lands in process.argv[1]. */
+const nodeAgent = (script: string, parser?: string) =>
+	new CliAgent({
+		command: process.execPath,
+		args: ["-e", script, "{{prompt}}"],
+		parser,
+	});
+
+describe("CliAgent", () => {
+	it("parses stream-json lines into messages, skipping non-JSON noise", async () => {
+		const agent = nodeAgent(`
+			console.log("booting...");
+			console.log(JSON.stringify({ type: "assistant", message: { content: [
+				{ type: "tool_use", id: "1", name: "Skill", input: { skill: "commit" } },
+				{ type: "text", text: process.argv[1] },
+			] } }));
+			console.log(JSON.stringify({ type: "result", subtype: "success", usage: { input_tokens: 7, output_tokens: 3 } }));
+		`);
+
+		const messages = await collect(agent, runContext());
+
+		expect(messages.map((m) => m.type)).toEqual(["assistant", "result"]);
+		expect(JSON.stringify(messages[0])).toContain("do the thing");
+		expect(agent.tokenUsage(messages[1])).toMatchObject({
+			inputTokens: 7,
+			outputTokens: 3,
+		});
+
+		// agentOutput built from these messages feeds existing scorers unchanged.
+		const result = await new SkillPickedUpScorer("commit").evaluate({
+			agentOutput: JSON.stringify(messages),
+		} as ScorerContext);
+		expect(result.score).toBe(1);
+	});
+
+	it("text parser wraps all of stdout as one assistant message", async () => {
+		const agent = nodeAgent(
+			`console.log("line 1"); console.log("line 2");`,
+			"text",
+		);
+		const messages = await collect(agent, runContext());
+		expect(messages).toEqual([
+			{
+				type: "assistant",
+				message: { content: [{ type: "text", text: "line 1\nline 2" }] },
+			},
+			{ type: "result", subtype: "success", result: "line 1\nline 2" },
+		]);
+	});
+
+	it("passes the prompt through verbatim, $ patterns included", async () => {
+		const agent = nodeAgent("console.log(process.argv[1]);", "text");
+		const prompt = "print $$ and $& ok, not $` or $'";
+		const messages = await collect(agent, runContext({ prompt }));
+		expect(messages[1]).toMatchObject({ result: prompt });
+	});
+
+	it("runs in cwd with iteration env vars layered under spec env", async () => {
+		const agent = new CliAgent({
+			command: process.execPath,
+			args: ["-e", "console.log(process.cwd(), process.env.A, process.env.B)"],
+			env: { B: "spec" },
+			parser: "text",
+		});
+		const messages = await collect(
+			agent,
+			runContext({ environmentVariables: { A: "iter", B: "iter" } }),
+		);
+		expect(JSON.stringify(messages[0])).toContain(
+			`${fs.realpathSync(tmpDir)} iter spec`,
+		);
+	});
+
+	it("throws with stderr when the CLI exits non-zero", async () => {
+		const agent = nodeAgent(`console.error("boom"); process.exit(3);`);
+		await expect(collect(agent, runContext())).rejects.toThrow(
+			/exited with code 3: boom/,
+		);
+	});
+
+	it("says why when the CLI cannot be spawned", async () => {
+		const agent = new CliAgent({ command: "no-such-agent-cli", args: [] });
+		await expect(collect(agent, runContext())).rejects.toThrow(
+			"no-such-agent-cli failed: spawn no-such-agent-cli ENOENT",
+		);
+	});
+
+	it("stops the subprocess when the signal aborts", async () => {
+		const controller = new AbortController();
+		const agent = nodeAgent("setTimeout(() => {}, 60000);");
+		setTimeout(() => controller.abort(), 50);
+		await expect(
+			collect(agent, runContext({ signal: controller.signal })),
+		).rejects.toThrow("Aborted");
+	});
+
+	it("defaults id to the command basename", () => {
+		expect(new CliAgent({ command: "/usr/bin/codex", args: [] }).id).toBe(
+			"codex",
+		);
+	});
+
+	it("rejects an unknown parser name", () => {
+		expect(() =>
+			compileAgent({ type: "cli", command: "x", args: [], parser: "xml" }),
+		).toThrow("Unknown CLI output parser 'xml'");
+	});
+});
+
+describe("loadEvalFile: cli agent spec", () => {
+	it("compiles a JSON cli agent spec into a CliAgent", async () => {
+		const f = path.join(tmpDir, "eval.json");
+		fs.writeFileSync(
+			f,
+			JSON.stringify({
+				name: "x",
+				prompts: [{ id: "v1", prompt: "p" }],
+				projectDir: ".",
+				agent: {
+					type: "cli",
+					id: "my-agent",
+					command: "my-agent",
+					args: ["--prompt", "{{prompt}}"],
+				},
+			}),
+		);
+		const config = await loadEvalFile(f);
+		expect(config.agent).toBeInstanceOf(CliAgent);
+		expect((config.agent as CliAgent).id).toBe("my-agent");
+	});
+
+	it("rejects an unknown agent name", async () => {
+		const f = path.join(tmpDir, "eval.json");
+		fs.writeFileSync(
+			f,
+			JSON.stringify({
+				name: "x",
+				prompts: [{ id: "v1", prompt: "p" }],
+				projectDir: ".",
+				agent: "nope",
+			}),
+		);
+		await expect(loadEvalFile(f)).rejects.toThrow("Unknown agent 'nope'");
+	});
+});
@@ -110,6 +110,110 @@ describe("CLI: exit codes", () => {
 		expect(exitCode).toBe(78);
 		expect(stderr).toContain("Fix:");
 	});
+
+	it("exits 3 when the budget stops a run", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-budget-"));
+		// A CLI agent whose single model call costs more than the budget allows
+		const message = {
+			type: "assistant",
+			message: {
+				id: "msg-1",
+				content: [{ type: "text", text: "hi" }],
+				usage: { input_tokens: 500, output_tokens: 500 },
+			},
+		};
+		fs.writeFileSync(
+			path.join(dir, "eval.json"),
+			JSON.stringify({
+				name: "budget",
+				projectDir: ".",
+				installDependencies: false,
+				prompts: [{ id: "v1", prompt: "noop" }],
+				agent: {
+					type: "cli",
+					command: "node",
+					args: [
+						"-e",
+						`console.log(${JSON.stringify(JSON.stringify(message))})`,
+					],
+				},
+				budget: { iteration: { maxTokens: 100 } },
+			}),
+		);
+		try {
+			const { stdout, exitCode } = await run(
+				["--eval-file", path.join(dir, "eval.json"), "--no-agent-detect"],
+				{
+					GIT_AUTHOR_NAME: "test",
+					GIT_AUTHOR_EMAIL: "test@example.com",
+					GIT_COMMITTER_NAME: "test",
+					GIT_COMMITTER_EMAIL: "test@example.com",
+				},
+			);
+			expect(exitCode).toBe(3);
+			expect(stdout).toContain(
+				"Budget exceeded: 1/1 run(s) stopped (BUDGET_EXCEEDED: iteration budget of 100 tokens exceeded (1000 tokens))",
+			);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("exits 1 on a regression against --baseline, whatever the threshold", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-baseline-"));
+		// The agent never writes done.txt; in the baseline every run did
+		fs.writeFileSync(
+			path.join(dir, "eval.json"),
+			JSON.stringify({
+				name: "baseline",
+				projectDir: ".",
+				installDependencies: false,
+				iterations: 5,
+				prompts: [{ id: "v1", prompt: "noop" }],
+				agent: { type: "cli", command: "node", args: ["-e", ""] },
+				scorers: [
+					{ type: "file", name: "done", path: "done.txt", exists: true },
+				],
+			}),
+		);
+		const baselinePath = path.join(dir, "baseline.json");
+		fs.writeFileSync(
+			baselinePath,
+			JSON.stringify({
+				timestamp: "2025-01-15T14:30:22.000Z",
+				iterations: [0, 1, 2, 3, 4].map((iterationId) => ({
+					iterationId,
+					promptId: "v1",
+					success: true,
+					scores: { done: { score: 1, reason: "exists" } },
+				})),
+			}),
+		);
+		try {
+			const { stdout, exitCode } = await run(
+				[
+					"--eval-file",
+					path.join(dir, "eval.json"),
+					"--baseline",
+					baselinePath,
+					"--threshold",
+					"0",
+					"--no-agent-detect",
+				],
+				{
+					GIT_AUTHOR_NAME: "test",
+					GIT_AUTHOR_EMAIL: "test@example.com",
+					GIT_COMMITTER_NAME: "test",
+					GIT_COMMITTER_EMAIL: "test@example.com",
+				},
+			);
+			expect(exitCode).toBe(1);
+			expect(stdout).toContain(`Baseline ${baselinePath}: 2 regression(s)`);
+			expect(stdout).toContain("done: pass rate 100.0% → 0.0% (p=0.008)");
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
 });
 
 describe("CLI: --json error output", () => {
@@ -297,6 +401,22 @@ describe("CLI: --threshold gating", () => {
 		expect(parsed.data.threshold).toBe(0.5);
 	});
 
+	it("surfaces --resume in the dry-run plan", async () => {
+		const { stdout } = await run(
+			[
+				"--dry-run",
+				"--json",
+				"--eval-file",
+				EVAL_FILE,
+				"--resume",
+				"./out/cli-test-2025-01-15-143022",
+			],
+			{ CLAUDECODE: "" },
+		);
+		const parsed = JSON.parse(stdout);
+		expect(parsed.data.resume).toBe("./out/cli-test-2025-01-15-143022");
+	});
+
 	it("defaults threshold to 1.0 in the dry-run plan", async () => {
 		const { stdout } = await run(
 			["--dry-run", "--json", "--eval-file", EVAL_FILE],
@@ -400,6 +520,22 @@ describe("CLI: --output artifacts", () => {
 		}
 	}, 120000);
 
+	it("writes an HTML report for a .html --output", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-out-"));
+		const htmlPath = path.join(dir, "report.html");
+		try {
+			await run(
+				["--eval-file", EVAL_FILE, "--output", htmlPath, "--no-agent-detect"],
+				failEnv,
+			);
+			const html = fs.readFileSync(htmlPath, "utf-8");
+			expect(html).toContain("<!DOCTYPE html>");
+			expect(html).toContain('<table class="sortable">');
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	}, 120000);
+
 	it("creates missing parent directories for --output", async () => {
 		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-out-"));
 		const nested = path.join(dir, "a", "b", "out.xml");
@@ -871,6 +1007,115 @@ export default async function evaluate(ctx) {
 	});
 });
 
+describe("CLI: history", () => {
+	const entry = (timestamp: string, passRate: number) => ({
+		evalName: "refactor",
+		agentId: "claude-code",
+		timestamp,
+		configHash: "abc123abc123",
+		runs: 4,
+		passRate,
+		duration: 8000,
+		scorers: { build: { mean: passRate, passRate } },
+	});
+
+	it("prints trends from a results directory's history", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-history-"));
+		fs.writeFileSync(
+			path.join(dir, "history.jsonl"),
+			`${[
+				entry("2025-01-15T10:00:00.000Z", 0.5),
+				entry("2025-01-16T10:00:00.000Z", 0.75),
+				entry("2025-01-17T10:00:00.000Z", 1),
+			]
+				.map((e) => JSON.stringify(e))
+				.join("\n")}\n`,
+		);
+		try {
+			const text = await run(["history", "--results-dir", dir]);
+			expect(text.exitCode).toBe(0);
+			expect(text.stdout).toContain("refactor (claude-code): 3 run(s)");
+			expect(text.stdout).toContain(
+				"build     pass rate 50.0% → 75.0% → 100.0% (+50.0 pts)",
+			);
+
+			const json = await run([
+				"history",
+				"--results-dir",
+				dir,
+				"--limit",
+				"2",
+				"--json",
+			]);
+			const { data } = JSON.parse(json.stdout);
+			expect(data.entries.map((e: { passRate: number }) => e.passRate)).toEqual(
+				[0.75, 1],
+			);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("exits 2 without a results directory", async () => {
+		const { stderr, exitCode } = await run(["history"], {
+			CODE_AGENT_EVAL_RESULTS_DIR: undefined,
+		});
+		expect(exitCode).toBe(2);
+		expect(stderr).toContain("history needs --results-dir <path>");
+	});
+});
+
+describe("CLI: serve", () => {
+	it("serves the runs in a results directory until stopped", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-serve-"));
+		fs.mkdirSync(path.join(dir, "refactor-2025-01-15-100000"));
+		fs.writeFileSync(
+			path.join(dir, "refactor-2025-01-15-100000", "results.json"),
+			JSON.stringify({
+				evalName: "refactor",
+				agentId: "claude-code",
+				timestamp: "2025-01-15T10:00:00.000Z",
+				success: true,
+				duration: 1000,
+				iterations: [],
+				aggregateScores: {},
+			}),
+		);
+		const child = execa(
+			"node",
+			[CLI, "serve", "--results-dir", dir, "--port", "0"],
+			{ reject: false },
+		);
+		try {
+			const url = await new Promise<string>((resolve, reject) => {
+				child.stdout?.on("data", (chunk: Buffer) => {
+					const match = /at (http:\/\/\S+)/.exec(chunk.toString());
+					if (match) resolve(match[1]);
+				});
+				child.once("exit", () => reject(new Error("serve exited")));
+			});
+			const html = await (await fetch(url)).text();
+			expect(html).toContain("refactor-2025-01-15-100000");
+		} finally {
+			child.kill();
+			await child;
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	}, 30000);
+
+	it("exits 2 without a results directory or with a bad port", async () => {
+		const missing = await run(["serve"], {
+			CODE_AGENT_EVAL_RESULTS_DIR: undefined,
+		});
+		expect(missing.exitCode).toBe(2);
+		expect(missing.stderr).toContain("serve needs --results-dir <path>");
+
+		const port = await run(["serve", "--results-dir", ".", "--port", "x"]);
+		expect(port.exitCode).toBe(2);
+		expect(port.stderr).toContain("--port must be an integer");
+	});
+});
+
 describe("resolveOutputMode", () => {
 	const agentDetection = {
 		isAgentic: true,
@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sdkTokenUsage } from "../src/agents/claude-code";
+import { usageCost } from "../src/cost";
+import { runClaudeCodeEval } from "../src/runner";
+import type { AgentAdapter, AgentMessage } from "../src/types";
+
+const pricing = {
+	"claude-sonnet-4-5": { input: 3, output: 15, cacheRead: 0.3 },
+	"my-cli": { input: 1, output: 2 },
+};
+
+describe("usageCost", () => {
+	it("prefers the cost the agent reported", () => {
+		expect(
+			usageCost(
+				{ inputTokens: 1_000_000, outputTokens: 0, costUsd: 0.42 },
+				pricing,
+				"my-cli",
+			),
+		).toBe(0.42);
+	});
+
+	it("prices tokens by model, then by agent id", () => {
+		expect(
+			usageCost(
+				{
+					inputTokens: 1_000_000,
+					outputTokens: 100_000,
+					cacheCreationInputTokens: 1_000_000,
+					cacheReadInputTokens: 1_000_000,
+					model: "claude-sonnet-4-5",
+				},
+				pricing,
+				"my-cli",
+			),
+		).toBeCloseTo(3 + 1.5 + 3 + 0.3); // cache writes fall back to the input price
+		expect(
+			usageCost(
+				{ inputTokens: 1_000_000, outputTokens: 1_000_000, model: "other" },
+				pricing,
+				"my-cli",
+			),
+		).toBe(3);
+	});
+
+	it("is undefined without usage or a matching price", () => {
+		expect(usageCost(undefined, pricing, "my-cli")).toBeUndefined();
+		expect(
+			usageCost({ inputTokens: 1, outputTokens: 1 }, pricing, "unknown"),
+		).toBeUndefined();
+		expect(
+			usageCost({ inputTokens: 1, outputTokens: 1 }, undefined, "my-cli"),
+		).toBeUndefined();
+	});
+});
+
+describe("cost in eval results", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		vi.stubEnv("GIT_AUTHOR_NAME", "test");
+		vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+		vi.stubEnv("GIT_COMMITTER_NAME", "test");
+		vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "cost-"));
+		fs.writeFileSync(path.join(dir, "README.md"), "hi\n");
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	/** Agent whose result message reports usage, and a cost when `costUsd` is set. */
+	const agent = (costUsd?: number): AgentAdapter => ({
+		id: "my-cli",
+		async *run() {
+			const result: AgentMessage = {
+				type: "result",
+				subtype: "success",
+				usage: { input_tokens: 500_000, output_tokens: 250_000 },
+			};
+			if (costUsd !== undefined) result.total_cost_usd = costUsd;
+			yield result;
+		},
+		tokenUsage: sdkTokenUsage,
+	});
+
+	it("prices each iteration and sums the eval", async () => {
+		const result = await runClaudeCodeEval({
+			name: "cost",
+			projectDir: dir,
+			installDependencies: false,
+			iterations: 2,
+			agent: agent(),
+			pricing,
+			prompts: [{ id: "v1", prompt: "x" }],
+		});
+		expect(result.iterations.map((i) => i.costUsd)).toEqual([1, 1]);
+		expect(result.costUsd).toBe(2);
+	});
+
+	it("sums reported costs across turns", async () => {
+		const result = await runClaudeCodeEval({
+			name: "cost",
+			projectDir: dir,
+			installDependencies: false,
+			agent: agent(0.25),
+			prompts: [{ id: "v1", prompt: "x", turns: [{ prompt: "more" }] }],
+		});
+		expect(result.iterations[0].costUsd).toBe(0.5);
+		expect(result.costUsd).toBe(0.5);
+	});
+
+	it("leaves cost unset when nothing prices it", async () => {
+		const result = await runClaudeCodeEval({
+			name: "cost",
+			projectDir: dir,
+			installDependencies: false,
+			agent: agent(),
+			prompts: [{ id: "v1", prompt: "x" }],
+		});
+		expect(result.iterations[0].costUsd).toBeUndefined();
+		expect(result.costUsd).toBeUndefined();
+	});
+});
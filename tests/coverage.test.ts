@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CoverageScorer, parseCoverageSummary } from "../src/scorers/coverage";
+import { buildExecCommand } from "../src/scorers/factories";
+import { compileScorer } from "../src/scorers/registry";
+import type { ScorerContext } from "../src/types";
+
+// Stand-in for `vitest run --coverage`: each *.test.js adds 25% lines and 10% branches
+const FAKE_COVERAGE = `
+const fs = require("node:fs");
+const path = require("node:path");
+const tests = fs.readdirSync(".").filter((f) => f.endsWith(".test.js")).length;
+if (tests === 0) process.exit(1);
+const entry = { lines: { pct: 25 * tests }, branches: { pct: 10 * tests }, functions: { pct: "Unknown" } };
+fs.mkdirSync("coverage", { recursive: true });
+fs.writeFileSync("coverage/coverage-summary.json", JSON.stringify({ total: entry, [path.resolve("src.js")]: entry }));
+`;
+
+let dir: string;
+
+const context = (): ScorerContext => ({
+	workingDir: dir,
+	diff: "",
+	agentOutput: "[]",
+	promptId: "p1",
+	prompt: "add tests",
+	execCommand: buildExecCommand(dir),
+});
+
+beforeEach(async () => {
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "coverage-"));
+	fs.writeFileSync(path.join(dir, "cov.js"), FAKE_COVERAGE);
+	fs.writeFileSync(path.join(dir, "src.js"), "module.exports = 1;\n");
+	await execa("git", ["init", "-q"], { cwd: dir });
+	await execa("git", ["add", "."], { cwd: dir });
+	await execa("git", ["commit", "-qm", "init"], { cwd: dir });
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseCoverageSummary", () => {
+	it("keeps numeric percentages, keyed by relative file", () => {
+		const json = JSON.stringify({
+			total: { lines: { total: 10, covered: 8, pct: 80 } },
+			[path.join(dir, "src/a.ts")]: {
+				lines: { pct: 50 },
+				branches: { pct: "Unknown" },
+			},
+		});
+		expect(parseCoverageSummary(json, dir)).toEqual({
+			total: { lines: 80 },
+			files: { "src/a.ts": { lines: 50 } },
+		});
+	});
+
+	it("rejects a report without totals", () => {
+		expect(() => parseCoverageSummary("{}", dir)).toThrow("no `total` entry");
+	});
+});
+
+describe("CoverageScorer", () => {
+	it("scores the coverage gain against minDelta, with per-file deltas", async () => {
+		fs.writeFileSync(path.join(dir, "a.test.js"), "");
+		await execa("git", ["add", "."], { cwd: dir });
+		await execa("git", ["commit", "-qm", "first test"], { cwd: dir });
+		// The agent adds a second test, and a stale report that must be ignored
+		fs.writeFileSync(path.join(dir, "b.test.js"), "");
+		fs.mkdirSync(path.join(dir, "coverage"));
+		fs.writeFileSync(path.join(dir, "coverage/coverage-summary.json"), "{}");
+
+		const scorer = compileScorer({
+			type: "coverage",
+			command: "node",
+			args: ["cov.js"],
+			minDelta: 20,
+		});
+		const result = await scorer.evaluate(context());
+
+		expect(scorer.name).toBe("coverage");
+		expect(result.score).toBe(0.75); // lines +25 → 1, branches +10 → 0.5
+		expect(result.reason).toBe(
+			"Coverage: lines 25% → 50% (+25), branches 10% → 20% (+10)",
+		);
+		expect(result.metadata).toEqual({
+			minDelta: 20,
+			lines: { baseline: 25, current: 50, delta: 25 },
+			branches: { baseline: 10, current: 20, delta: 10 },
+			files: { "src.js": { lines: 25, branches: 10 } },
+		});
+	});
+
+	it("treats a missing baseline report as 0% and fails any drop by default", async () => {
+		fs.writeFileSync(path.join(dir, "a.test.js"), "");
+		const gained = await new CoverageScorer({
+			command: "node",
+			args: ["cov.js"],
+			metrics: ["lines"],
+		}).evaluate(context());
+		expect(gained).toMatchObject({
+			score: 1,
+			reason: "Coverage: lines 0% → 25% (+25) (no baseline coverage report)",
+		});
+	});
+
+	it("fails when the changed project writes no report", async () => {
+		const result = await new CoverageScorer({
+			command: "node",
+			args: ["cov.js"],
+		}).evaluate(context());
+		expect(result).toEqual({
+			score: 0,
+			reason:
+				"no coverage summary at coverage/coverage-summary.json after node cov.js",
+		});
+	});
+});
@@ -0,0 +1,269 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git; the dataset itself is read
+// through node:fs, which stays real.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+import fsExtra from "fs-extra";
+import { readDataset } from "../src/dataset";
+import { loadDataset, loadEvalFile } from "../src/eval-config-loader";
+import { runClaudeCodeEval } from "../src/runner";
+import type {
+	AgentAdapter,
+	AgentRunContext,
+	ScorerContext,
+} from "../src/types";
+
+let dir: string;
+
+function write(name: string, content: string): string {
+	const file = path.join(dir, name);
+	fs.writeFileSync(file, content);
+	return file;
+}
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "dataset-"));
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("readDataset", () => {
+	it("reads JSONL rows, resolving projectDir and fixture paths", async () => {
+		write(
+			"tasks.jsonl",
+			[
+				JSON.stringify({ id: "a", prompt: "fix a", projectDir: "repos/a" }),
+				"",
+				JSON.stringify({ id: 2, prompt: "fix b", fixture: "b" }),
+				JSON.stringify({ prompt: "fix c", expected: "c fixed" }),
+			].join("\n"),
+		);
+
+		const { rows } = await readDataset("tasks.jsonl", dir);
+		expect(rows).toEqual([
+			{ id: "a", prompt: "fix a", projectDir: path.join(dir, "repos/a") },
+			{ id: "2", prompt: "fix b", projectDir: path.join(dir, "fixtures/b") },
+			{ id: "row-3", prompt: "fix c", expected: "c fixed" },
+		]);
+	});
+
+	it("reads YAML rows", async () => {
+		write(
+			"tasks.yaml",
+			[
+				"- id: a",
+				"  prompt: |",
+				"    Add a route.",
+				"  environmentVariables:",
+				"    PORT: '8080'",
+				"  scorers:",
+				"    - type: test",
+			].join("\n"),
+		);
+
+		const { rows } = await readDataset({ path: "tasks.yaml" }, dir);
+		expect(rows).toEqual([
+			{
+				id: "a",
+				prompt: "Add a route.\n",
+				environmentVariables: { PORT: "8080" },
+				scorers: [{ type: "test" }],
+			},
+		]);
+	});
+
+	it("reads CSV rows with env.* and JSON scorers columns", async () => {
+		write(
+			"tasks.csv",
+			[
+				"id,prompt,env.PORT,scorers",
+				'a,"Add a route, then ""test"" it",8080,"[{""type"":""build""}]"',
+				"b,Just b,,",
+			].join("\r\n"),
+		);
+
+		const { rows } = await readDataset("tasks.csv", dir);
+		expect(rows).toEqual([
+			{
+				id: "a",
+				prompt: 'Add a route, then "test" it',
+				environmentVariables: { PORT: "8080" },
+				scorers: [{ type: "build" }],
+			},
+			{ id: "b", prompt: "Just b" },
+		]);
+	});
+
+	it("names the file and line of an invalid row", async () => {
+		write(
+			"tasks.jsonl",
+			`${JSON.stringify({ id: "a", prompt: "ok" })}\n${JSON.stringify({ id: "b" })}`,
+		);
+		await expect(readDataset("tasks.jsonl", dir)).rejects.toThrow(
+			/tasks\.jsonl \(line 2\): prompt:/,
+		);
+	});
+
+	it("rejects duplicate ids and unknown extensions", async () => {
+		write("dup.jsonl", '{"id":"a","prompt":"x"}\n{"id":"a","prompt":"y"}');
+		await expect(readDataset("dup.jsonl", dir)).rejects.toThrow(
+			"duplicate id 'a'",
+		);
+		await expect(readDataset("tasks.txt", dir)).rejects.toThrow(
+			"Unknown dataset format for 'tasks.txt'",
+		);
+	});
+});
+
+describe("loadEvalFile with a dataset", () => {
+	it("appends the dataset's rows to prompts, compiling row scorers", async () => {
+		write(
+			"tasks.jsonl",
+			'{"id":"row","prompt":"y","scorers":[{"type":"lint"}]}',
+		);
+		const config = await loadEvalFile(
+			write(
+				"eval.json",
+				JSON.stringify({
+					name: "x",
+					projectDir: ".",
+					prompts: [{ id: "inline", prompt: "x" }],
+					dataset: "tasks.jsonl",
+				}),
+			),
+		);
+
+		expect(config.prompts.map((p) => p.id)).toEqual(["inline", "row"]);
+		expect(config.prompts[1].scorers?.[0].name).toBe("lint");
+		expect(config).not.toHaveProperty("dataset");
+		// Rows are separate tasks, not variants to compare against the first
+		expect(config.compare).toBe(false);
+	});
+
+	it("accepts a dataset in place of prompts", async () => {
+		write("tasks.csv", "id,prompt\na,x\nb,y\n");
+		const config = await loadEvalFile(
+			write(
+				"eval.json",
+				JSON.stringify({
+					name: "x",
+					projectDir: ".",
+					dataset: { path: "tasks.csv" },
+					compare: true,
+				}),
+			),
+		);
+		expect(config.prompts.map((p) => p.id)).toEqual(["a", "b"]);
+		expect(config.compare).toBe(true);
+	});
+
+	it("requires prompts or a dataset", async () => {
+		const file = write(
+			"eval.json",
+			JSON.stringify({ name: "x", projectDir: "." }),
+		);
+		await expect(loadEvalFile(file)).rejects.toThrow(
+			"prompts or dataset is required",
+		);
+	});
+
+	it("rejects a row id that clashes with an inline prompt", async () => {
+		write("tasks.jsonl", '{"id":"v1","prompt":"y"}');
+		const file = write(
+			"eval.json",
+			JSON.stringify({
+				name: "x",
+				projectDir: ".",
+				prompts: [{ id: "v1", prompt: "x" }],
+				dataset: "tasks.jsonl",
+			}),
+		);
+		await expect(loadEvalFile(file)).rejects.toThrow(
+			"Duplicate prompt id 'v1'",
+		);
+	});
+});
+
+describe("runClaudeCodeEval with dataset rows", () => {
+	it("runs each row in its own project with its env, expected and scorers", async () => {
+		write(
+			"tasks.jsonl",
+			[
+				JSON.stringify({
+					id: "a",
+					prompt: "task a",
+					projectDir: "repos/a",
+					environmentVariables: { TASK: "a" },
+					expected: "A",
+					scorers: [{ type: "diff-contains", pattern: "x", expect: "absent" }],
+				}),
+				JSON.stringify({ id: "b", prompt: "task b" }),
+			].join("\n"),
+		);
+		const seen: AgentRunContext[] = [];
+		const contexts: ScorerContext[] = [];
+		const agent: AgentAdapter = {
+			id: "noop",
+			async *run(context) {
+				seen.push(context);
+				yield { type: "result", subtype: "success" };
+			},
+			tokenUsage: () => undefined,
+		};
+
+		const result = await runClaudeCodeEval({
+			name: "dataset",
+			projectDir: "default-project",
+			installDependencies: false,
+			environmentVariables: { SHARED: "1", TASK: "default" },
+			agent,
+			prompts: await loadDataset("tasks.jsonl", dir),
+			compare: false,
+			scorers: [
+				{
+					name: "capture",
+					evaluate: async (ctx) => {
+						contexts.push(ctx);
+						return { score: 1, reason: "ok" };
+					},
+				},
+			],
+		});
+
+		expect(vi.mocked(fsExtra.copy).mock.calls.map(([src]) => src)).toEqual([
+			path.join(dir, "repos/a"),
+			"default-project",
+		]);
+		expect(seen.map((c) => c.environmentVariables)).toEqual([
+			{ SHARED: "1", TASK: "a" },
+			{ SHARED: "1", TASK: "default" },
+		]);
+		expect(contexts.map((c) => c.expected)).toEqual([
+			{ type: "text", text: "A" },
+			undefined,
+		]);
+		expect(result.iterations.map((i) => Object.keys(i.scores))).toEqual([
+			["capture", "diff:x"],
+			["capture"],
+		]);
+		expect(result.iterations.map((i) => i.promptId)).toEqual(["a", "b"]);
+		expect(result.comparisons).toBeUndefined();
+	});
+});
@@ -1,5 +1,13 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { DiffContainsScorer } from "../src/scorers/diff";
+import { loadEvalFile } from "../src/eval-config-loader";
+import {
+	DiffContainsScorer,
+	DiffSimilarityScorer,
+	parseDiff,
+} from "../src/scorers/diff";
 import type { ScorerContext } from "../src/types";
 
 function ctx(diff: string): ScorerContext {
@@ -100,3 +108,122 @@ describe("DiffContainsScorer", () => {
 		expect(r.reason).toMatch(/invalid regex/i);
 	});
 });
+
+/** A git-style diff: one file per entry, each with one hunk of `changes`. */
+function gitDiff(files: Record<string, string[]>): string {
+	return Object.entries(files)
+		.map(([file, changes]) =>
+			[
+				`diff --git a/${file} b/${file}`,
+				`--- a/${file}`,
+				`+++ b/${file}`,
+				"@@ -1,2 +1,2 @@",
+				...changes,
+			].join("\n"),
+		)
+		.join("\n");
+}
+
+const REFERENCE = gitDiff({
+	"src/a.ts": ["-const a = 1;", "+const a = 2;"],
+	"src/b.ts": ["-export {};", "+export const b = true;"],
+});
+
+describe("parseDiff", () => {
+	it("splits git and plain diffs into files with their hunks", () => {
+		expect(parseDiff(REFERENCE)).toMatchObject([
+			{
+				path: "src/a.ts",
+				hunks: [
+					{
+						header: "@@ -1,2 +1,2 @@",
+						changes: ["-const a = 1;", "+const a = 2;"],
+					},
+				],
+			},
+			{ path: "src/b.ts" },
+		]);
+		expect(parseDiff(SAMPLE_DIFF).map((f) => f.path)).toEqual(["src/index.ts"]);
+	});
+});
+
+describe("DiffSimilarityScorer", () => {
+	const withExpected = (diff: string) => ({
+		...ctx(diff),
+		expected: { type: "diff" as const, diff: REFERENCE },
+	});
+
+	it("scores an identical diff 1 (whitespace-insensitive)", async () => {
+		const agent = gitDiff({
+			"src/a.ts": ["-const a = 1;", "+  const a = 2;"],
+			"src/b.ts": ["-export {};", "+export const b = true;"],
+		});
+		const r = await new DiffSimilarityScorer().evaluate(withExpected(agent));
+		expect(r.score).toBe(1);
+		expect(r.passThreshold).toBe(0.5);
+	});
+
+	it("reports half a solution: recall and missed hunks", async () => {
+		const agent = gitDiff({ "src/a.ts": ["-const a = 1;", "+const a = 2;"] });
+		const r = await new DiffSimilarityScorer().evaluate(withExpected(agent));
+		expect(r.metadata).toMatchObject({
+			files: { precision: 1, recall: 0.5, missed: ["src/b.ts"], extra: [] },
+			hunks: {
+				similarity: 0.5,
+				matched: [{ file: "src/a.ts", similarity: 1 }],
+				missed: [{ file: "src/b.ts", similarity: 0 }],
+			},
+		});
+		// file F1 0.667, hunk similarity 0.5
+		expect(r.score).toBe(0.583);
+	});
+
+	it("keeps file credit for a different solution in the same files", async () => {
+		const agent = gitDiff({
+			"src/a.ts": ["-const a = 1;", "+let a = 2;"],
+			"src/b.ts": ["-export {};", "+export const b = 1 > 0;"],
+		});
+		const r = await new DiffSimilarityScorer().evaluate(withExpected(agent));
+		expect(r.metadata?.files).toMatchObject({ precision: 1, recall: 1 });
+		expect(r.score).toBeGreaterThan(0.5);
+		expect(r.score).toBeLessThan(1);
+	});
+
+	it("doesn't count the .env the runner writes as a touched file", async () => {
+		const agent = `${REFERENCE}\n${gitDiff({ ".env": ["+API_KEY=test"] })}`;
+		const r = await new DiffSimilarityScorer().evaluate(withExpected(agent));
+		expect(r.metadata?.files).toMatchObject({ precision: 1, extra: [] });
+		expect(r.score).toBe(1);
+	});
+
+	it("fails without a reference", async () => {
+		const r = await new DiffSimilarityScorer({ name: "sim" }).evaluate(
+			ctx(REFERENCE),
+		);
+		expect(r.score).toBe(0);
+		expect(r.reason).toMatch(/no reference patch/);
+	});
+
+	it("reads `reference` relative to the eval file", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "diff-sim-"));
+		try {
+			fs.writeFileSync(path.join(dir, "ref.patch"), REFERENCE);
+			const file = path.join(dir, "eval.json");
+			fs.writeFileSync(
+				file,
+				JSON.stringify({
+					name: "x",
+					projectDir: ".",
+					prompts: [{ id: "v1", prompt: "x" }],
+					scorers: [{ type: "diff-similarity", reference: "ref.patch" }],
+				}),
+			);
+			const config = await loadEvalFile(file);
+			const [scorer] = config.scorers ?? [];
+			expect(scorer.name).toBe("diff-similarity");
+			expect((await scorer.evaluate(ctx(REFERENCE))).score).toBe(1);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,189 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadEvalFile } from "../src/eval-config-loader";
+import { buildExecCommand } from "../src/scorers/factories";
+import { HiddenTestScorer } from "../src/scorers/hidden-tests";
+import { parseJUnit, parseTap } from "../src/scorers/test-report";
+import type { ScorerContext } from "../src/types";
+
+const JUNIT = `<?xml version="1.0"?>
+<testsuites>
+  <testsuite name="math">
+    <testcase classname="math" name="adds &amp; carries" time="0.01"/>
+    <testcase classname="math" name="divides" time="0.02">
+      <failure message="expected 2 &lt; 1" type="AssertionError">stack</failure>
+    </testcase>
+    <testcase classname="math" name="rounds"><skipped/></testcase>
+    <testcase classname="io" name="reads"><error message="ENOENT"/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const TAP = `TAP version 13
+ok 1 - adds
+not ok 2 - divides
+  ---
+  message: expected 2
+  ...
+    # Subtest: nested
+    ok 1 - inner
+ok 3 - rounds # SKIP not on CI
+not ok 4 - later # TODO
+1..4`;
+
+let root: string;
+let workingDir: string;
+let hiddenDir: string;
+
+function context(): ScorerContext {
+	return {
+		workingDir,
+		diff: "",
+		agentOutput: "[]",
+		promptId: "p1",
+		prompt: "implement math",
+		execCommand: buildExecCommand(workingDir),
+	};
+}
+
+beforeEach(() => {
+	root = fs.mkdtempSync(path.join(os.tmpdir(), "hidden-tests-"));
+	workingDir = path.join(root, "work");
+	hiddenDir = path.join(root, "hidden");
+	fs.mkdirSync(workingDir);
+	fs.mkdirSync(hiddenDir);
+});
+
+afterEach(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("test report parsers", () => {
+	it("parses JUnit test cases", () => {
+		expect(parseJUnit(JUNIT)).toEqual([
+			{
+				name: "adds & carries",
+				suite: "math",
+				status: "passed",
+				duration: 10,
+			},
+			{
+				name: "divides",
+				suite: "math",
+				status: "failed",
+				duration: 20,
+				message: "expected 2 < 1",
+			},
+			{ name: "rounds", suite: "math", status: "skipped" },
+			{ name: "reads", suite: "io", status: "failed", message: "ENOENT" },
+		]);
+	});
+
+	it("parses top-level TAP points with SKIP/TODO directives", () => {
+		expect(parseTap(TAP)).toEqual([
+			{ name: "adds", status: "passed" },
+			{ name: "divides", status: "failed" },
+			{ name: "rounds", status: "skipped" },
+			{ name: "later", status: "skipped" },
+		]);
+	});
+});
+
+describe("HiddenTestScorer", () => {
+	it("copies the hidden tests in, runs them and scores TAP from stdout", async () => {
+		fs.writeFileSync(
+			path.join(hiddenDir, "hidden.tap"),
+			"ok 1 - a\nnot ok 2 - b\nok 3 - c\n",
+		);
+		const scorer = new HiddenTestScorer({
+			dir: hiddenDir,
+			into: "tests",
+			command: "node",
+			args: [
+				"-e",
+				"process.stdout.write(require('fs').readFileSync('tests/hidden.tap','utf8')); process.exit(1)",
+			],
+			format: "tap",
+		});
+
+		fs.writeFileSync(path.join(workingDir, "kept.ts"), "");
+		const result = await scorer.evaluate(context());
+		// Run in a scratch copy: the working dir never holds the hidden tests
+		expect(fs.readdirSync(workingDir)).toEqual(["kept.ts"]);
+		expect(result.score).toBeCloseTo(2 / 3);
+		expect(result.reason).toBe("Hidden tests: 2/3 test(s) passed");
+		expect(result.metadata).toMatchObject({ passed: 2, failed: 1, skipped: 0 });
+	});
+
+	it("reads a JUnit report file the runner wrote", async () => {
+		fs.writeFileSync(path.join(hiddenDir, "report.xml"), JUNIT);
+		const result = await new HiddenTestScorer({
+			name: "held-out",
+			dir: hiddenDir,
+			command: "node",
+			args: ["-e", ""],
+			format: "junit",
+			report: "report.xml",
+			passThreshold: 0.3,
+		}).evaluate(context());
+
+		expect(result).toMatchObject({
+			score: 1 / 3,
+			reason: "Hidden tests: 1/3 test(s) passed, 1 skipped",
+			passThreshold: 0.3,
+		});
+		expect(result.metadata?.failures).toEqual([
+			{ name: "divides", duration: 20, message: "expected 2 < 1" },
+			{ name: "reads", message: "ENOENT" },
+		]);
+	});
+
+	it("leaves the verdict to the exit code when every test was skipped", async () => {
+		const result = await new HiddenTestScorer({
+			dir: hiddenDir,
+			command: "node",
+			args: ["-e", "console.log('ok 1 - a # SKIP')"],
+			format: "tap",
+		}).evaluate(context());
+		expect(result.score).toBe(1);
+		expect(result.reason).toBe("Hidden tests: no tests ran, 1 skipped");
+	});
+
+	it("scores 0 when no results can be parsed", async () => {
+		const result = await new HiddenTestScorer({
+			dir: hiddenDir,
+			command: "node",
+			args: ["-e", "console.log('no tests here')"],
+			format: "tap",
+		}).evaluate(context());
+		expect(result.score).toBe(0);
+		expect(result.reason).toMatch(/^no tap test results found/);
+		expect(result.metadata?.stdout).toBe("no tests here");
+	});
+
+	it("resolves `dir` against the eval file", async () => {
+		const file = path.join(root, "eval.json");
+		fs.writeFileSync(
+			file,
+			JSON.stringify({
+				name: "x",
+				projectDir: ".",
+				prompts: [{ id: "v1", prompt: "x" }],
+				scorers: [
+					{
+						type: "hidden-tests",
+						dir: "hidden",
+						command: "npm",
+						args: ["test"],
+						format: "junit",
+					},
+				],
+			}),
+		);
+		const config = await loadEvalFile(file);
+		const [scorer] = config.scorers ?? [];
+		expect(scorer).toBeInstanceOf(HiddenTestScorer);
+		expect((scorer as HiddenTestScorer).spec.dir).toBe(hiddenDir);
+	});
+});
@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	appendHistory,
+	configHash,
+	formatHistory,
+	HISTORY_FILE,
+	historyEntry,
+	readHistory,
+} from "../src/history";
+import type { EvalConfig } from "../src/runner";
+import type { EvalResult, HistoryEntry } from "../src/types";
+
+const config: EvalConfig = {
+	name: "refactor",
+	prompts: [{ id: "v1", prompt: "refactor it" }],
+	projectDir: ".",
+	scorers: [
+		{ name: "build", evaluate: async () => ({ score: 1, reason: "" }) },
+	],
+};
+
+const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+	evalName: "refactor",
+	agentId: "claude-code",
+	timestamp: "2025-01-15T14:30:22.000Z",
+	configHash: "abc123abc123",
+	runs: 5,
+	passRate: 0.6,
+	duration: 12_000,
+	scorers: { build: { mean: 0.8, passRate: 0.8 } },
+	...overrides,
+});
+
+describe("configHash", () => {
+	it("tracks what is measured, not where results go", () => {
+		const hash = configHash(config);
+		expect(hash).toMatch(/^[0-9a-f]{12}$/);
+		expect(configHash({ ...config, resultsDir: "out", verbose: true })).toBe(
+			hash,
+		);
+		expect(
+			configHash({
+				...config,
+				scorers: [
+					{ name: "build", evaluate: async () => ({ score: 0, reason: "" }) },
+				],
+			}),
+		).toBe(hash);
+		expect(configHash({ ...config, iterations: 3 })).not.toBe(hash);
+		expect(
+			configHash({ ...config, prompts: [{ id: "v1", prompt: "other" }] }),
+		).not.toBe(hash);
+	});
+});
+
+describe("historyEntry", () => {
+	it("summarizes a result without its iterations", () => {
+		const result: EvalResult = {
+			evalName: "refactor",
+			agentId: "claude-code",
+			timestamp: "2025-01-15T14:30:22.000Z",
+			success: false,
+			duration: 9_000,
+			iterations: [],
+			aggregateScores: {
+				build: { mean: 0.5, min: 0, max: 1, stdDev: 0.5, passRate: 0.5 },
+				_overall: { mean: 0.5, min: 0.5, max: 0.5, stdDev: 0, passRate: 0.5 },
+			},
+			costUsd: 0.25,
+		};
+		expect(historyEntry(result, { configHash: "h", gitCommit: "c" })).toEqual({
+			evalName: "refactor",
+			agentId: "claude-code",
+			timestamp: "2025-01-15T14:30:22.000Z",
+			configHash: "h",
+			gitCommit: "c",
+			runs: 0,
+			passRate: 0.5,
+			duration: 9_000,
+			costUsd: 0.25,
+			scorers: { build: { mean: 0.5, passRate: 0.5 } },
+		});
+	});
+});
+
+describe("readHistory", () => {
+	let dir: string;
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "cae-history-"));
+	});
+	afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	it("reads appended entries oldest first, filtered and limited", async () => {
+		await appendHistory(dir, entry({ timestamp: "2025-01-17T00:00:00.000Z" }));
+		await appendHistory(dir, entry({ timestamp: "2025-01-15T00:00:00.000Z" }));
+		await appendHistory(dir, entry({ evalName: "other" }));
+		await appendHistory(dir, entry({ timestamp: "2025-01-16T00:00:00.000Z" }));
+		fs.appendFileSync(path.join(dir, HISTORY_FILE), '{"evalName": "tru');
+
+		const all = await readHistory(dir, { evalName: "refactor" });
+		expect(all.map((e) => e.timestamp.slice(0, 10))).toEqual([
+			"2025-01-15",
+			"2025-01-16",
+			"2025-01-17",
+		]);
+		// The latest two per eval and agent; the truncated line is skipped
+		const latest = await readHistory(dir, { limit: 2 });
+		expect(
+			latest.map((e) => `${e.evalName} ${e.timestamp.slice(0, 10)}`),
+		).toEqual([
+			"other 2025-01-15",
+			"refactor 2025-01-16",
+			"refactor 2025-01-17",
+		]);
+	});
+
+	it("is empty without a history file", async () => {
+		expect(await readHistory(path.join(dir, "missing"))).toEqual([]);
+	});
+});
+
+describe("formatHistory", () => {
+	it("prints a row per run and each scorer's trend", () => {
+		const text = formatHistory([
+			entry({ gitCommit: "0123456789abcdef", costUsd: 0.5 }),
+			entry({
+				timestamp: "2025-01-16T09:00:00.000Z",
+				passRate: 1,
+				duration: 10_000,
+				costUsd: 0.4,
+				scorers: {
+					build: { mean: 1, passRate: 1 },
+					lint: { mean: 0.9, passRate: 1 },
+				},
+			}),
+		]);
+		expect(text).toContain("refactor (claude-code): 2 run(s)");
+		expect(text).toContain(
+			"  2025-01-15 14:30:22  0123456  abc123abc123  5     60.0%      12.0s     $0.5000",
+		);
+		expect(text).toContain("  _overall  pass rate 60.0% → 100.0% (+40.0 pts)");
+		expect(text).toContain(
+			"  build     pass rate 80.0% → 100.0% (+20.0 pts), mean 0.800 → 1.000 (+0.200)",
+		);
+		expect(text).toContain("  lint      pass rate 100.0%, mean 0.900");
+		expect(text).toContain("  duration  12.0s → 10.0s (-2.0s)");
+		expect(text).toContain("  cost      $0.5000 → $0.4000 (-$0.1000)");
+		expect(formatHistory([])).toBe("No runs recorded yet.\n");
+	});
+});
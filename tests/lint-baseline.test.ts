@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { newDiagnostics } from "../src/scorers/baseline";
+import { buildExecCommand } from "../src/scorers/factories";
+import { LintBaselineScorer, parseLintReport } from "../src/scorers/lint";
+import { compileScorer } from "../src/scorers/registry";
+import type { ScorerContext } from "../src/types";
+
+// Stand-in for `eslint --format json .`: flags `debugger` (error) and `console` (warning)
+const FAKE_ESLINT = `
+const fs = require("node:fs");
+const path = require("node:path");
+const results = fs.readdirSync(".").filter((f) => f.endsWith(".js") && f !== "lint.js").map((f) => ({
+	filePath: path.resolve(f),
+	messages: fs.readFileSync(f, "utf8").split("\\n").flatMap((text, i) =>
+		text.includes("debugger") ? [{ ruleId: "no-debugger", severity: 2, message: "Unexpected 'debugger' statement.", line: i + 1 }]
+		: text.includes("console") ? [{ ruleId: "no-console", severity: 1, message: "Unexpected console statement.", line: i + 1 }]
+		: []),
+}));
+console.log(JSON.stringify(results));
+process.exit(results.some((r) => r.messages.length) ? 1 : 0);
+`;
+
+let dir: string;
+
+const context = (): ScorerContext => ({
+	workingDir: dir,
+	diff: "",
+	agentOutput: "[]",
+	promptId: "p1",
+	prompt: "refactor",
+	execCommand: buildExecCommand(dir),
+});
+
+beforeEach(async () => {
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "lint-baseline-test-"));
+	fs.writeFileSync(path.join(dir, "lint.js"), FAKE_ESLINT);
+	fs.writeFileSync(path.join(dir, "a.js"), "function f() {\n\tdebugger;\n}\n");
+	await execa("git", ["init", "-q"], { cwd: dir });
+	await execa("git", ["add", "."], { cwd: dir });
+	await execa("git", ["commit", "-qm", "init"], { cwd: dir });
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseLintReport", () => {
+	it("reads Biome's JSON reporter", () => {
+		const output = JSON.stringify({
+			summary: { errors: 1 },
+			diagnostics: [
+				{
+					severity: "error",
+					message: "This is an unexpected use of the debugger statement.",
+					category: "lint/suspicious/noDebugger",
+					location: { path: "src/x.js", start: { line: 4, column: 3 } },
+				},
+				{ severity: "information", category: "x", location: {} },
+			],
+		});
+		expect(parseLintReport(output, "biome", dir)).toEqual([
+			{
+				file: "src/x.js",
+				line: 4,
+				rule: "lint/suspicious/noDebugger",
+				severity: "error",
+				message: "This is an unexpected use of the debugger statement.",
+			},
+		]);
+	});
+
+	it("rejects output without a report", () => {
+		expect(() => parseLintReport("Oops", "eslint", dir)).toThrow(
+			"no eslint JSON report in output",
+		);
+	});
+});
+
+describe("newDiagnostics", () => {
+	it("matches findings regardless of line, one for one", () => {
+		const d = (line: number) => ({
+			file: "a.js",
+			line,
+			rule: "no-console",
+			severity: "warning" as const,
+			message: "m",
+		});
+		expect(newDiagnostics([d(1)], [d(5)])).toEqual([]);
+		expect(newDiagnostics([d(1)], [d(5), d(9)])).toEqual([d(9)]);
+	});
+});
+
+describe("LintBaselineScorer", () => {
+	it("scores only diagnostics the change introduced", async () => {
+		// Shift the pre-existing error down a line and add a new warning
+		fs.writeFileSync(
+			path.join(dir, "a.js"),
+			"// helper\nfunction f() {\n\tdebugger;\n\tconsole.log(1);\n}\n",
+		);
+		const scorer = compileScorer({
+			type: "lint-baseline",
+			tool: "eslint",
+			command: "node",
+			args: ["lint.js"],
+		});
+
+		const result = await scorer.evaluate(context());
+		expect(scorer.name).toBe("lint-baseline");
+		expect(result.score).toBe(0);
+		expect(result.reason).toBe("1 new lint diagnostic(s): a.js:4 no-console");
+		expect(result.metadata).toEqual({
+			baseline: 1,
+			current: 2,
+			new: [
+				{
+					file: "a.js",
+					line: 4,
+					rule: "no-console",
+					severity: "warning",
+					message: "Unexpected console statement.",
+				},
+			],
+		});
+
+		// The pristine worktree is gone afterwards
+		const { stdout } = await execa("git", ["worktree", "list"], { cwd: dir });
+		expect(stdout.trim().split("\n")).toHaveLength(1);
+	});
+
+	it("passes when only warnings were added and severity is error", async () => {
+		fs.appendFileSync(path.join(dir, "a.js"), "console.log(2);\n");
+		const result = await new LintBaselineScorer({
+			tool: "eslint",
+			command: "node",
+			args: ["lint.js"],
+			severity: "error",
+		}).evaluate(context());
+		expect(result).toMatchObject({
+			score: 1,
+			reason: "No new lint diagnostics (1 in baseline)",
+		});
+	});
+
+	it("fails when the linter prints no report", async () => {
+		const result = await new LintBaselineScorer({
+			tool: "biome",
+			command: "node",
+			args: ["-e", "console.error('biome: command not found')"],
+		}).evaluate(context());
+		expect(result.score).toBe(0);
+		expect(result.reason).toMatch(
+			/could not parse biome report .*: biome: command not found$/,
+		);
+	});
+});
@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { query } = vi.hoisted(() => ({ query: vi.fn() }));
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({ query }));
+
+import { loadEvalFile } from "../src/eval-config-loader";
+import { loadExpected, renderExpected } from "../src/expected";
+import { runClaudeCodeEval } from "../src/runner";
+import { MatchesReference } from "../src/scorers/classifiers";
+import { LLMClassifierScorer } from "../src/scorers/llm-classifier";
+import { ReferenceMatchScorer } from "../src/scorers/reference";
+import { compileScorer } from "../src/scorers/registry";
+import type { AgentAdapter, Expected, ScorerContext } from "../src/types";
+
+let dir: string;
+
+const context = (over: Partial<ScorerContext> = {}) =>
+	({
+		workingDir: dir,
+		diff: "",
+		agentOutput: "[]",
+		promptId: "p1",
+		prompt: "make greet say hi",
+		execCommand: async () => ({ score: 0, reason: "" }),
+		...over,
+	}) as ScorerContext;
+
+const reply = (text: string) =>
+	JSON.stringify([
+		{ type: "assistant", message: { content: [{ type: "text", text }] } },
+	]);
+
+/** Commit `files` in a fresh repo at `dir`, change them to `changed`, return the diff. */
+async function referenceDiff(
+	files: Record<string, string>,
+	changed: Record<string, string>,
+): Promise<string> {
+	for (const [file, content] of Object.entries(files))
+		fs.writeFileSync(path.join(dir, file), content);
+	await execa("git", ["init", "-q"], { cwd: dir });
+	await execa("git", ["add", "."], { cwd: dir });
+	await execa("git", ["commit", "-qm", "init"], { cwd: dir });
+	for (const [file, content] of Object.entries(changed))
+		fs.writeFileSync(path.join(dir, file), content);
+	await execa("git", ["add", "-AN"], { cwd: dir });
+	const { stdout } = await execa("git", ["diff", "HEAD"], { cwd: dir });
+	return `${stdout}\n`;
+}
+
+beforeEach(() => {
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "reference-"));
+	query.mockReset();
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadExpected", () => {
+	it("reads free text, a patch path and a solution dir", async () => {
+		fs.writeFileSync(path.join(dir, "fix.patch"), "diff --git a/x b/x\n");
+		fs.mkdirSync(path.join(dir, "solution/src"), { recursive: true });
+		fs.mkdirSync(path.join(dir, "solution/node_modules"));
+		fs.writeFileSync(path.join(dir, "solution/src/a.ts"), "a\n");
+		fs.writeFileSync(path.join(dir, "solution/node_modules/x.js"), "x\n");
+
+		expect(await loadExpected("hi")).toEqual({ type: "text", text: "hi" });
+		expect(
+			await loadExpected({ type: "diff", path: "fix.patch" }, dir),
+		).toEqual({ type: "diff", diff: "diff --git a/x b/x\n" });
+		expect(await loadExpected({ type: "files", dir: "solution" }, dir)).toEqual(
+			{ type: "files", files: { "src/a.ts": "a\n" } },
+		);
+	});
+
+	it("renders each kind for {{expected}}", () => {
+		expect(renderExpected(undefined)).toBe("");
+		expect(renderExpected({ type: "diff", diff: "d" })).toBe("d");
+		expect(
+			renderExpected({ type: "files", files: { "a.ts": "a", "b.ts": "b" } }),
+		).toBe("--- a.ts ---\na\n\n--- b.ts ---\nb");
+	});
+});
+
+describe("ReferenceMatchScorer", () => {
+	it("matches a reference diff the working dir reproduces, file by file", async () => {
+		const diff = await referenceDiff(
+			{ "greet.ts": "hello\n", "other.ts": "one\n" },
+			{ "greet.ts": "hi\n", "other.ts": "two\n" },
+		);
+		// The agent reproduced greet.ts but wrote other.ts differently
+		fs.writeFileSync(path.join(dir, "other.ts"), "three\n");
+
+		const result = await new ReferenceMatchScorer().evaluate(
+			context({ expected: { type: "diff", diff } }),
+		);
+		expect(result.score).toBe(0.5);
+		expect(result.metadata).toEqual({
+			type: "diff",
+			matched: ["greet.ts"],
+			missed: ["other.ts"],
+		});
+		expect(result.reason).toBe(
+			"1/2 reference file(s) reproduced; missed other.ts",
+		);
+	});
+
+	it("compares a reference file tree, ignoring trailing whitespace", async () => {
+		fs.writeFileSync(path.join(dir, "a.ts"), "const a = 1;  \n\n");
+		const expected: Expected = {
+			type: "files",
+			files: { "a.ts": "const a = 1;", "b.ts": "b" },
+		};
+		const result = await new ReferenceMatchScorer({ name: "ref" }).evaluate(
+			context({ expected }),
+		);
+		expect(result).toMatchObject({
+			score: 0.5,
+			metadata: { matched: ["a.ts"], missed: ["b.ts"] },
+		});
+	});
+
+	it("looks for reference text in the final reply", async () => {
+		const scorer = compileScorer({ type: "reference-match" });
+		const expected: Expected = { type: "text", text: "Port  8080" };
+		expect(
+			(
+				await scorer.evaluate(
+					context({ expected, agentOutput: reply("Using port 8080.") }),
+				)
+			).score,
+		).toBe(1);
+		expect(
+			(
+				await scorer.evaluate(
+					context({ expected, agentOutput: reply("Done.") }),
+				)
+			).score,
+		).toBe(0);
+	});
+
+	it("fails without an expected value", async () => {
+		const result = await new ReferenceMatchScorer().evaluate(context());
+		expect(result).toEqual({
+			score: 0,
+			reason: "No expected value for prompt 'p1'",
+		});
+	});
+});
+
+describe("{{expected}} in classifiers", () => {
+	it("renders the reference answer into the judge prompt", async () => {
+		query.mockImplementation(() =>
+			(async function* () {
+				yield {
+					type: "result",
+					subtype: "success",
+					structured_output: { choice: "A", reasoning: "same" },
+				};
+			})(),
+		);
+		const result = await new LLMClassifierScorer(MatchesReference).evaluate(
+			context({ expected: { type: "text", text: "greet returns hi" } }),
+		);
+		expect(result.score).toBe(1);
+		expect(query.mock.calls[0][0].prompt).toContain(
+			"Reference solution:\ngreet returns hi",
+		);
+	});
+});
+
+describe("expected through config and runner", () => {
+	it("resolves a JSON config's expected path against the config file", async () => {
+		const file = path.join(dir, "eval.json");
+		fs.writeFileSync(
+			file,
+			JSON.stringify({
+				name: "x",
+				projectDir: ".",
+				prompts: [
+					{
+						id: "v1",
+						prompt: "x",
+						expected: { type: "diff", path: "ref.patch" },
+					},
+				],
+			}),
+		);
+		const config = await loadEvalFile(file);
+		expect(config.prompts[0].expected).toEqual({
+			type: "diff",
+			path: path.join(dir, "ref.patch"),
+		});
+	});
+
+	it("passes the loaded reference to scorers", async () => {
+		fs.writeFileSync(path.join(dir, "greet.ts"), "hello\n");
+		const agent: AgentAdapter = {
+			id: "scripted",
+			async *run({ cwd }) {
+				fs.writeFileSync(path.join(cwd, "greet.ts"), "hi\n");
+				yield { type: "result", subtype: "success" };
+			},
+			tokenUsage: () => undefined,
+		};
+
+		const result = await runClaudeCodeEval({
+			name: "reference",
+			projectDir: dir,
+			installDependencies: false,
+			agent,
+			prompts: [
+				{
+					id: "v1",
+					prompt: "make greet say hi",
+					expected: { type: "files", files: { "greet.ts": "hi\n" } },
+				},
+			],
+			scorers: [new ReferenceMatchScorer()],
+		});
+		expect(result.iterations[0].scores["reference-match"].score).toBe(1);
+	});
+});
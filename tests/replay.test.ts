@@ -0,0 +1,257 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runClaudeCodeEval } from "../src/runner";
+import { DiffContainsScorer } from "../src/scorers/diff";
+import { FileScorer } from "../src/scorers/file";
+import type { EvalResult, IterationResult } from "../src/types";
+
+let tmpDir: string;
+let projectDir: string;
+let recordedDir: string;
+
+const PATCH = `diff --git a/greet.ts b/greet.ts
+--- a/greet.ts
++++ b/greet.ts
+@@ -1 +1 @@
+-export const greet = "hello";
++export const greet = "hi";
+diff --git a/added.txt b/added.txt
+new file mode 100644
+--- /dev/null
++++ b/added.txt
+@@ -0,0 +1 @@
++new
+`;
+
+const recordedIteration = (
+	over: Partial<IterationResult>,
+): IterationResult => ({
+	iterationId: 0,
+	promptId: "v1",
+	success: true,
+	duration: 1000,
+	scores: {},
+	agentOutput: JSON.stringify([
+		{
+			type: "assistant",
+			message: { content: [{ type: "text", text: "changed greeting" }] },
+		},
+		{ type: "result", subtype: "success", usage: { input_tokens: 99 } },
+	]),
+	environmentVariables: {},
+	...over,
+});
+
+function writeRecorded(iterations: IterationResult[]): string {
+	const recorded: EvalResult = {
+		evalName: "replay-test",
+		agentId: "claude-sonnet-4",
+		timestamp: new Date().toISOString(),
+		success: false,
+		duration: 2000,
+		iterations,
+		aggregateScores: {},
+	};
+	const resultsPath = path.join(recordedDir, "results.json");
+	fs.writeFileSync(resultsPath, JSON.stringify(recorded));
+	return resultsPath;
+}
+
+beforeEach(() => {
+	// The runner commits the fresh copy; CI machines may have no git identity.
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "replay-"));
+	projectDir = path.join(tmpDir, "project");
+	recordedDir = path.join(tmpDir, "recorded");
+	fs.mkdirSync(projectDir);
+	fs.mkdirSync(recordedDir);
+	fs.writeFileSync(
+		path.join(projectDir, "greet.ts"),
+		'export const greet = "hello";\n',
+	);
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("runClaudeCodeEval replay mode", () => {
+	it("re-scores recorded diffs without running an agent", async () => {
+		const resultsPath = writeRecorded([
+			recordedIteration({ iterationId: 0 }),
+			recordedIteration({
+				iterationId: 1,
+				success: false,
+				agentOutput: "",
+				error: "Iteration timed out after 50ms",
+			}),
+		]);
+		fs.writeFileSync(path.join(recordedDir, "iteration-v1-0.patch"), PATCH);
+
+		let agentOutput = "";
+		const result = await runClaudeCodeEval({
+			name: "replay-test",
+			prompts: [{ id: "v1", prompt: "say hi" }],
+			projectDir,
+			installDependencies: false,
+			replay: { results: resultsPath },
+			scorers: [
+				new FileScorer({ type: "file", path: "greet.ts", contains: '"hi"' }),
+				new DiffContainsScorer({
+					type: "diff-contains",
+					pattern: "added\\.txt",
+				}),
+				{
+					name: "capture",
+					evaluate: async (ctx) => {
+						agentOutput = ctx.agentOutput;
+						return { score: 1, reason: "ok" };
+					},
+				},
+			],
+		});
+
+		expect(result.agentId).toBe("claude-sonnet-4");
+		expect(result.iterations).toHaveLength(2);
+
+		const [replayed, failed] = result.iterations;
+		expect(replayed.success).toBe(true);
+		expect(replayed.scores["file:greet.ts"].score).toBe(1);
+		expect(replayed.scores["diff:added\\.txt"].score).toBe(1);
+		expect(JSON.stringify(JSON.parse(agentOutput))).toContain(
+			"changed greeting",
+		);
+		// Replays cost nothing, so recorded usage is not re-reported.
+		expect(replayed.tokenUsage).toBeUndefined();
+
+		expect(failed.success).toBe(false);
+		expect(failed.error).toBe("Iteration timed out after 50ms");
+
+		// The original projectDir is never modified.
+		expect(fs.readFileSync(path.join(projectDir, "greet.ts"), "utf8")).toBe(
+			'export const greet = "hello";\n',
+		);
+	});
+
+	it("leaves recorded questions to the recording, not the simulated user", async () => {
+		const resultsPath = writeRecorded([
+			recordedIteration({
+				agentOutput: JSON.stringify([
+					{
+						type: "assistant",
+						message: { content: [{ type: "text", text: "Hi or hey?" }] },
+					},
+					{
+						type: "simulated_user",
+						turn: 0,
+						questions: ["Hi or hey?"],
+						answer: "hi",
+					},
+					{
+						type: "assistant",
+						message: { content: [{ type: "text", text: "Which file?" }] },
+					},
+					{ type: "result", subtype: "success" },
+				]),
+			}),
+		]);
+		fs.writeFileSync(path.join(recordedDir, "iteration-v1-0.patch"), PATCH);
+
+		const result = await runClaudeCodeEval({
+			name: "replay-test",
+			prompts: [{ id: "v1", prompt: "say hi" }],
+			projectDir,
+			installDependencies: false,
+			replay: { results: resultsPath },
+			userSimulator: { rules: [{ match: ".", reply: "greet.ts" }] },
+		});
+
+		const [replayed] = result.iterations;
+		// Answering would rerun the agent, re-applying the already applied patch
+		expect(replayed.error).toBeUndefined();
+		expect(replayed.success).toBe(true);
+		const answers = JSON.parse(replayed.agentOutput).filter(
+			(m: { type: string }) => m.type === "simulated_user",
+		);
+		expect(answers).toHaveLength(1);
+	});
+
+	it("reads patches from diffsDir when given", async () => {
+		const resultsPath = writeRecorded([recordedIteration({})]);
+		const diffsDir = path.join(tmpDir, "diffs");
+		fs.mkdirSync(diffsDir);
+		fs.writeFileSync(path.join(diffsDir, "iteration-v1-0.patch"), PATCH);
+
+		const result = await runClaudeCodeEval({
+			name: "replay-test",
+			prompts: [{ id: "v1", prompt: "say hi" }],
+			projectDir,
+			installDependencies: false,
+			replay: { results: resultsPath, diffsDir },
+			scorers: [
+				new FileScorer({ type: "file", path: "added.txt", exists: true }),
+			],
+		});
+
+		expect(result.iterations[0].success).toBe(true);
+	});
+
+	it("replays the diff stored in a results.json saved without artifacts", async () => {
+		// `git diff` output, as IterationResult.diff holds it: no final newline
+		const resultsPath = writeRecorded([
+			recordedIteration({ diff: PATCH.trimEnd() }),
+		]);
+
+		const result = await runClaudeCodeEval({
+			name: "replay-test",
+			prompts: [{ id: "v1", prompt: "say hi" }],
+			projectDir,
+			installDependencies: false,
+			replay: { results: resultsPath },
+			scorers: [
+				new FileScorer({ type: "file", path: "greet.ts", contains: '"hi"' }),
+				new FileScorer({ type: "file", path: "added.txt", exists: true }),
+			],
+		});
+
+		expect(result.iterations[0].error).toBeUndefined();
+		expect(result.iterations[0].success).toBe(true);
+	});
+
+	it("fails an iteration whose patch is missing", async () => {
+		const resultsPath = writeRecorded([recordedIteration({})]);
+
+		const result = await runClaudeCodeEval({
+			name: "replay-test",
+			prompts: [{ id: "v1", prompt: "say hi" }],
+			projectDir,
+			installDependencies: false,
+			replay: { results: resultsPath },
+		});
+
+		expect(result.iterations[0].error).toMatch(
+			/^Recorded diff not found: .*iteration-v1-0\.patch$/,
+		);
+	});
+
+	it("throws when a recorded prompt is missing from the config", async () => {
+		const resultsPath = writeRecorded([recordedIteration({ promptId: "v9" })]);
+
+		await expect(
+			runClaudeCodeEval({
+				name: "replay-test",
+				prompts: [{ id: "v1", prompt: "say hi" }],
+				projectDir,
+				replay: { results: resultsPath },
+			}),
+		).rejects.toThrow(
+			"Replay: recorded prompt 'v9' not found in config.prompts",
+		);
+	});
+});
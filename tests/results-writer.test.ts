@@ -3,7 +3,9 @@ import path from "node:path";
 import fs from "fs-extra";
 import { describe, expect, test } from "vitest";
 import {
+	formatRegression,
 	formatResultsAsGitHubSummary,
+	formatResultsAsHtml,
 	formatResultsAsJUnit,
 	formatResultsAsMarkdown,
 	writeResults,
@@ -382,3 +384,303 @@ describe("formatResultsAsGitHubSummary", () => {
 		expect(summary).not.toContain("| a|b |");
 	});
 });
+
+describe("cost in formatters", () => {
+	const withCost = () => {
+		const result = createMockResult({ costUsd: 0.5 });
+		result.iterations[0].costUsd = 0.5;
+		return result;
+	};
+
+	test("markdown shows the eval and iteration cost", () => {
+		const md = formatResultsAsMarkdown(withCost());
+		expect(md).toContain("- **Cost**: $0.5000");
+		expect(md).toContain("#### Iteration 0\n\n**Cost**: $0.5000");
+		expect(formatResultsAsMarkdown(createMockResult())).not.toContain("Cost");
+	});
+
+	test("JUnit carries cost_usd properties on suite and case", () => {
+		const xml = formatResultsAsJUnit(withCost());
+		expect(xml).toContain(
+			'  <testsuite name="v1" tests="1" failures="0" time="2.500">\n    <properties><property name="cost_usd" value="0.500000" /></properties>',
+		);
+		expect(xml).toMatch(
+			/<testcase name="iteration 0" [^>]*">\n {6}<properties><property name="cost_usd" value="0.500000" \/><\/properties>\n {4}<\/testcase>/,
+		);
+	});
+
+	test("GitHub summary shows the total cost", () => {
+		expect(formatResultsAsGitHubSummary(withCost())).toContain(
+			"- **Cost**: $0.5000",
+		);
+	});
+});
+
+describe("pass@k / pass^k in formatters", () => {
+	const withReliability = () => {
+		const result = createMockResult();
+		result.aggregateScores._overall = {
+			...result.aggregateScores._overall,
+			passAtK: { 1: 0.6, 3: 0.9 },
+			passHatK: { 1: 0.6, 3: 0.25 },
+		};
+		result.aggregateScores.build = {
+			...result.aggregateScores.build,
+			passAtK: { 1: 0.8 },
+			passHatK: { 1: 0.8 },
+		};
+		return result;
+	};
+
+	test("markdown adds summary lines and scorer columns", () => {
+		const md = formatResultsAsMarkdown(withReliability());
+		expect(md).toContain("- **pass@3 / pass^3**: 90.0% / 25.0%");
+		expect(md).toContain(
+			"| Scorer | Pass Rate | pass@1 | pass^1 | pass@3 | pass^3 |\n|--------|-----------|--------|--------|--------|--------|",
+		);
+		expect(md).toContain("| build | 100.0% | 80.0% | 80.0% | — | — |");
+		expect(md).toContain("| test | 100.0% | — | — | — | — |");
+		expect(formatResultsAsMarkdown(createMockResult())).not.toContain("pass@");
+	});
+
+	test("GitHub summary adds the same lines and columns", () => {
+		const summary = formatResultsAsGitHubSummary(withReliability());
+		expect(summary).toContain("- **pass@1 / pass^1**: 60.0% / 60.0%");
+		expect(summary).toContain("| build | 100.0% | 80.0% | 80.0% | — | — |");
+	});
+});
+
+describe("prompt comparison in markdown", () => {
+	const stat = (diff: number, pValue: number) => ({
+		baseline: 0.2,
+		candidate: 0.2 + diff,
+		diff,
+		ci: [diff - 0.3, diff + 0.1] as [number, number],
+		pValue,
+		significant: pValue < 0.05,
+	});
+
+	test("renders a table per candidate, bolding significant p-values", () => {
+		const md = formatResultsAsMarkdown(
+			createMockResult({
+				comparisons: [
+					{
+						scorer: "_overall",
+						baseline: "v1",
+						candidate: "v2",
+						runs: { baseline: 5, candidate: 5 },
+						passRate: stat(0.8, 0.0476),
+					},
+					{
+						scorer: "quality",
+						baseline: "v1",
+						candidate: "v2",
+						runs: { baseline: 5, candidate: 4 },
+						passRate: stat(0.4, 0.52),
+						score: stat(0.25, 0.2),
+					},
+				],
+			}),
+		);
+		expect(md).toContain("## Prompt Comparison");
+		expect(md).toContain("### v2 vs v1");
+		expect(md).toContain(
+			"| _overall | 5 / 5 | 20.0% → 100.0% | +80.0 [+50.0, +90.0] | **0.048** | — | — | — |",
+		);
+		expect(md).toContain(
+			"| quality | 5 / 4 | 20.0% → 60.0% | +40.0 [+10.0, +50.0] | 0.520 | 0.200 → 0.450 | +0.250 [-0.050, +0.350] | 0.200 |",
+		);
+		expect(formatResultsAsMarkdown(createMockResult())).not.toContain(
+			"Prompt Comparison",
+		);
+	});
+});
+
+describe("baseline comparison in formatters", () => {
+	const stat = (baseline: number, candidate: number, pValue: number) => ({
+		baseline,
+		candidate,
+		diff: candidate - baseline,
+		ci: [candidate - baseline - 0.2, candidate - baseline + 0.2] as [
+			number,
+			number,
+		],
+		pValue,
+		significant: pValue < 0.05,
+	});
+	const withBaseline = () =>
+		createMockResult({
+			baseline: {
+				results: "out/results.json",
+				timestamp: "2025-01-14T10:00:00.000Z",
+				comparisons: [
+					{
+						scorer: "_overall",
+						runs: { baseline: 5, current: 5 },
+						passRate: stat(1, 0, 0.0079),
+						regression: true,
+					},
+					{
+						scorer: "quality",
+						promptId: "v1",
+						runs: { baseline: 5, current: 5 },
+						passRate: stat(0.4, 0.6, 1),
+						score: stat(0.5, 0.8, 0.03),
+						regression: false,
+					},
+				],
+			},
+		});
+
+	test("markdown lists every comparison with its status", () => {
+		const md = formatResultsAsMarkdown(withBaseline());
+		expect(md).toContain("## Baseline Comparison");
+		expect(md).toContain("**1 regression(s)**");
+		expect(md).toContain(
+			"| _overall | all | 5 / 5 | 100.0% → 0.0% | -100.0 [-120.0, -80.0] | **0.008** | — | — | — | ❌ regression |",
+		);
+		expect(md).toContain(
+			"| quality | v1 | 5 / 5 | 40.0% → 60.0% | +20.0 [+0.0, +40.0] | 1.000 | 0.500 → 0.800 | +0.300 [+0.100, +0.500] | **0.030** | ✅ improved |",
+		);
+		expect(formatResultsAsMarkdown(createMockResult())).not.toContain(
+			"Baseline",
+		);
+	});
+
+	test("GitHub summary tables only the regressions", () => {
+		const summary = formatResultsAsGitHubSummary(withBaseline());
+		expect(summary).toContain("❌ 1 regression(s) vs `out/results.json`:");
+		expect(summary).toContain(
+			"| _overall | all | 100.0% → 0.0% | -100.0 [-120.0, -80.0] | **0.008** | — | — | — |",
+		);
+		expect(summary).not.toContain("| quality |");
+
+		const clean = withBaseline();
+		if (clean.baseline) clean.baseline.comparisons[0].regression = false;
+		expect(formatResultsAsGitHubSummary(clean)).toContain(
+			"✅ No regressions vs `out/results.json`.",
+		);
+	});
+
+	test("formatRegression names what dropped", () => {
+		const [overall] = withBaseline().baseline?.comparisons ?? [];
+		expect(formatRegression(overall)).toBe(
+			"_overall: pass rate 100.0% → 0.0% (p=0.008)",
+		);
+	});
+});
+
+describe("formatResultsAsHtml", () => {
+	const transcript = JSON.stringify([
+		{
+			type: "assistant",
+			message: {
+				content: [
+					{ type: "text", text: "Fixing <App>" },
+					{
+						type: "tool_use",
+						id: "t1",
+						name: "Edit",
+						input: { file_path: "src/app.ts" },
+					},
+					{
+						type: "tool_use",
+						id: "t2",
+						name: "Bash",
+						input: { command: "npm test" },
+					},
+				],
+			},
+		},
+		{
+			type: "user",
+			message: {
+				content: [
+					{ type: "tool_result", tool_use_id: "t1", content: "edited" },
+					{
+						type: "tool_result",
+						tool_use_id: "t2",
+						content: [{ type: "text", text: "1 failing" }],
+						is_error: true,
+					},
+				],
+			},
+		},
+		{ type: "result", subtype: "success", num_turns: 2, total_cost_usd: 0.05 },
+	]);
+	const diff = [
+		"diff --git a/src/app.ts b/src/app.ts",
+		"index 1111111..2222222 100644",
+		"--- a/src/app.ts",
+		"+++ b/src/app.ts",
+		"@@ -1,2 +1,2 @@",
+		" const a = 1;",
+		"-const b = <old>;",
+		"+const b = 2;",
+		"",
+	].join("\n");
+	const result = createMockResult({
+		evalName: "<script>alert(1)</script>",
+		iterations: [
+			{
+				...createMockResult().iterations[0],
+				agentOutput: transcript,
+				diff,
+			},
+			{
+				...createMockResult().iterations[0],
+				iterationId: 1,
+				success: false,
+				scores: { build: { score: 0, reason: "tsc failed" } },
+				error: "Timed out",
+			},
+		],
+	});
+
+	test("is a standalone, escaped document", () => {
+		const html = formatResultsAsHtml(result);
+		expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+		expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+		expect(html).not.toContain("<script>alert(1)");
+		// Everything inlined: no external stylesheets, scripts or CDNs
+		expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+		expect(html).not.toMatch(/https?:\/\//);
+	});
+
+	test("has sortable tables and a drill-down per iteration", () => {
+		const html = formatResultsAsHtml(result);
+		expect(html).toContain('<table class="sortable">');
+		expect(html).toContain('<td data-sort="1">100.0%</td>');
+		expect(html).toContain('<a href="#iteration-1">1</a>');
+		expect(html).toContain('<details class="iteration" id="iteration-1">');
+		expect(html).toContain('<pre class="error">Timed out</pre>');
+		expect(html).toContain("<td>tsc failed</td>");
+	});
+
+	test("renders the diff by file and line kind", () => {
+		const html = formatResultsAsHtml(result);
+		expect(html).toContain(
+			'src/app.ts <span class="pass">+1</span> <span class="fail">−1</span>',
+		);
+		expect(html).toContain('<span class="hunk">@@ -1,2 +1,2 @@</span>');
+		expect(html).toContain('<span class="del">-const b = &lt;old&gt;;</span>');
+		expect(html).toContain('<span class="add">+const b = 2;</span>');
+		expect(html).toContain("No changes recorded.");
+	});
+
+	test("pairs each tool call with its result in the transcript", () => {
+		const html = formatResultsAsHtml(result);
+		expect(html).toContain("<pre>Fixing &lt;App&gt;</pre>");
+		expect(html).toContain(
+			'<summary>🔧 Edit <span class="muted">src/app.ts</span></summary>',
+		);
+		expect(html).toContain("<pre>edited</pre>");
+		expect(html).toContain(
+			'🔧 Bash <span class="muted">npm test</span> <span class="fail">error</span>',
+		);
+		expect(html).toContain('<pre class="error">1 failing</pre>');
+		expect(html).toContain("success · 2 turns · $0.0500");
+		// Output that isn't a message list
+		expect(html).toContain("No transcript recorded.");
+	});
+});
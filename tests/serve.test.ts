@@ -0,0 +1,160 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { createDashboardServer, listRuns, loadRun } from "../src/serve";
+import type { EvalResult, IterationResult } from "../src/types";
+
+const iteration = (
+	iterationId: number,
+	promptId: string,
+	passed: boolean,
+): IterationResult => ({
+	iterationId,
+	promptId,
+	success: passed,
+	duration: 1000,
+	scores: { build: { score: passed ? 1 : 0, reason: "" } },
+	agentOutput: "[]",
+	environmentVariables: {},
+});
+
+const result = (
+	timestamp: string,
+	outcomes: Record<string, boolean[]>,
+): EvalResult => {
+	const iterations = Object.entries(outcomes)
+		.flatMap(([promptId, passes]) =>
+			passes.map((passed) => ({ promptId, passed })),
+		)
+		.map(({ promptId, passed }, i) => iteration(i, promptId, passed));
+	const passRate =
+		iterations.filter((i) => i.success).length / iterations.length;
+	const agg = { mean: passRate, min: 0, max: 1, stdDev: 0, passRate };
+	return {
+		evalName: "refactor",
+		agentId: "claude-code",
+		timestamp,
+		success: passRate === 1,
+		duration: 5000,
+		iterations,
+		aggregateScores: { build: agg, _overall: agg },
+	};
+};
+
+describe("serve dashboard", () => {
+	let dir: string;
+	let base: string;
+	let running: Server;
+
+	beforeAll(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "cae-serve-"));
+		const save = (id: string, r: EvalResult) =>
+			fs.outputJson(path.join(dir, id, "results.json"), r);
+		await save(
+			"refactor-old",
+			result("2025-01-15T10:00:00.000Z", {
+				v1: [true, true, true, true, true],
+				v2: [false, false, false, false, false],
+			}),
+		);
+		await save(
+			"refactor-new",
+			result("2025-01-16T10:00:00.000Z", {
+				v1: [false, false, false, false, false],
+				v2: [false, false, false, false, false],
+			}),
+		);
+		await fs.outputFile(path.join(dir, "broken", "results.json"), "{");
+		await fs.outputFile(path.join(dir, "history.jsonl"), "");
+
+		running = createDashboardServer(dir);
+		await new Promise<void>((resolve) =>
+			running.listen(0, "127.0.0.1", resolve),
+		);
+		base = `http://127.0.0.1:${(running.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => running.close(resolve));
+		await fs.remove(dir);
+	});
+
+	test("lists runs with a results.json, newest first", async () => {
+		const runs = await listRuns(dir);
+		expect(runs.map((r) => r.id)).toEqual(["refactor-new", "refactor-old"]);
+		expect(runs[1]).toMatchObject({
+			runs: 10,
+			passRate: 0.5,
+			promptIds: ["v1", "v2"],
+		});
+		expect(await listRuns(path.join(dir, "missing"))).toEqual([]);
+	});
+
+	test("only loads runs directly under the results directory", async () => {
+		expect(await loadRun(dir, "refactor-old")).toBeDefined();
+		expect(await loadRun(dir, "..")).toBeUndefined();
+		expect(await loadRun(dir, "../refactor-old")).toBeUndefined();
+		expect(await loadRun(dir, "broken")).toBeUndefined();
+	});
+
+	test("serves the run list and each run's report", async () => {
+		const index = await fetch(`${base}/`);
+		expect(index.headers.get("content-type")).toContain("text/html");
+		const html = await index.text();
+		expect(html).toContain('<a href="/runs/refactor-new">refactor-new</a>');
+		expect(html).toContain('<form action="/compare" method="get">');
+		expect(html).toContain('<a href="/runs/refactor-old/compare">compare</a>');
+
+		const report = await (await fetch(`${base}/runs/refactor-old`)).text();
+		expect(report).toContain('<nav><a href="/">← All runs</a></nav>');
+		expect(report).toContain('<details class="iteration" id="iteration-9">');
+
+		const missing = await fetch(`${base}/runs/nope`);
+		expect(missing.status).toBe(404);
+	});
+
+	test("compares two runs side by side", async () => {
+		const html = await (
+			await fetch(`${base}/compare?a=refactor-old&b=refactor-new`)
+		).text();
+		expect(html).toContain("<h1>Compare Runs</h1>");
+		// v1 dropped from 5/5 to 0/5: significant (p=0.008)
+		expect(html).toMatch(
+			/<td>v1<\/td>.*<td>100\.0% → 0\.0%<\/td>.*<strong>0\.008<\/strong>.*❌ worse/,
+		);
+		expect(html).toContain("<h3>Baseline: refactor-old</h3>");
+		expect(html).toContain('<a href="/runs/refactor-new#iteration-0">0</a>');
+
+		expect((await fetch(`${base}/compare?a=refactor-old`)).status).toBe(400);
+		expect((await fetch(`${base}/compare?a=refactor-old&b=nope`)).status).toBe(
+			404,
+		);
+	});
+
+	test("compares two prompt variants of a run", async () => {
+		const html = await (
+			await fetch(`${base}/runs/refactor-old/compare`)
+		).text();
+		expect(html).toContain('<option value="v2" selected>v2</option>');
+		expect(html).toContain("<th>Runs (v1 / v2)</th>");
+		expect(html).toMatch(/<td>_overall<\/td><td data-sort="5">5 \/ 5<\/td>/);
+		expect((await fetch(`${base}/runs/refactor-old/compare?b=v3`)).status).toBe(
+			400,
+		);
+	});
+
+	test("serves runs as JSON", async () => {
+		const runs = await (await fetch(`${base}/api/runs`)).json();
+		expect(runs.map((r: { id: string }) => r.id)).toEqual([
+			"refactor-new",
+			"refactor-old",
+		]);
+		const run = await (await fetch(`${base}/api/runs/refactor-old`)).json();
+		expect(run.iterations).toHaveLength(10);
+		expect((await fetch(`${base}/api/runs/nope`)).status).toBe(404);
+		expect((await fetch(`${base}/`, { method: "POST" })).status).toBe(405);
+	});
+});
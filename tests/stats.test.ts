@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import { comparePrompts } from "../src/runner";
+import {
+	bootstrapMeanDiffCI,
+	fisherExactTest,
+	mannWhitneyU,
+	passAtK,
+	passHatK,
+} from "../src/stats";
+import type { IterationResult } from "../src/types";
+
+const run = (
+	promptId: string,
+	value: number,
+	iterationId = 0,
+): IterationResult => ({
+	iterationId,
+	promptId,
+	success: value >= 0.5,
+	duration: 0,
+	// `quality` passes at 0.5; `build` only in the first prompt's runs
+	scores: {
+		quality: { score: value, reason: "", passThreshold: 0.5 },
+		...(promptId === "a" && { build: { score: 1, reason: "" } }),
+	},
+	agentOutput: "",
+	environmentVariables: {},
+});
+
+describe("fisherExactTest", () => {
+	test("matches reference two-sided p-values", () => {
+		// R: fisher.test(matrix(c(1, 11, 9, 3), 2))$p.value
+		expect(fisherExactTest(1, 9, 11, 3)).toBeCloseTo(0.002759, 5);
+		// R: fisher.test(matrix(c(3, 1, 1, 3), 2))$p.value
+		expect(fisherExactTest(3, 1, 1, 3)).toBeCloseTo(0.4857, 4);
+		expect(fisherExactTest(2, 1, 2, 1)).toBeCloseTo(1);
+	});
+});
+
+describe("mannWhitneyU", () => {
+	test("uses the normal approximation with continuity correction", () => {
+		// R: wilcox.test(6:10, 1:5, exact = FALSE)$p.value
+		const { u, pValue } = mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+		expect(u).toBe(25);
+		expect(pValue).toBeCloseTo(0.01219, 4);
+	});
+
+	test("averages tied ranks and gives p = 1 when everything ties", () => {
+		expect(mannWhitneyU([1, 1, 0], [1, 0, 0]).u).toBe(3);
+		expect(mannWhitneyU([1, 1], [1, 1]).pValue).toBe(1);
+	});
+});
+
+describe("bootstrapMeanDiffCI", () => {
+	test("is reproducible and brackets the observed difference", () => {
+		const a = [0.2, 0.4, 0.3, 0.5, 0.1];
+		const b = [0.6, 0.9, 0.7, 0.8, 0.5];
+		const ci = bootstrapMeanDiffCI(a, b);
+		expect(bootstrapMeanDiffCI(a, b)).toEqual(ci);
+		expect(ci[0]).toBeLessThan(0.4);
+		expect(ci[1]).toBeGreaterThan(0.4);
+		expect(bootstrapMeanDiffCI([1, 1], [1, 1, 1])).toEqual([0, 0]);
+	});
+});
+
+describe("passAtK / passHatK", () => {
+	test("match the combinatorial estimators", () => {
+		// 1 - C(4, 3) / C(5, 3) and C(4, 3) / C(5, 3)
+		expect(passAtK(1, 5, 3)).toBeCloseTo(0.6);
+		expect(passHatK(4, 5, 3)).toBeCloseTo(0.4);
+		// k = 1 is the pass rate either way
+		expect(passAtK(2, 5, 1)).toBeCloseTo(0.4);
+		expect(passHatK(2, 5, 1)).toBeCloseTo(0.4);
+		expect(passAtK(3, 5, 3)).toBe(1); // every 3-run draw includes a pass
+		expect(passHatK(2, 5, 3)).toBe(0);
+	});
+
+	test("stay finite for many runs and are undefined past them", () => {
+		expect(passAtK(10, 200, 100)).toBeGreaterThan(0.999);
+		expect(passHatK(190, 200, 100)).toBeGreaterThan(0);
+		expect(passAtK(1, 2, 3)).toBeUndefined();
+		expect(passHatK(1, 2, 0)).toBeUndefined();
+	});
+});
+
+describe("comparePrompts", () => {
+	const results = [
+		...[0.1, 0.2, 0.3, 0.2, 0.9].map((v, i) => run("a", v, i)),
+		...[0.8, 0.9, 0.7, 1, 0.6].map((v, i) => run("b", v, 5 + i)),
+	];
+
+	test("compares each prompt against the first, per scorer", () => {
+		const comparisons = comparePrompts(results, ["a", "b"]);
+		// `build` never ran for b, so only _overall and quality compare
+		expect(comparisons.map((c) => c.scorer)).toEqual(["_overall", "quality"]);
+
+		const [overall, quality] = comparisons;
+		expect(overall).toMatchObject({
+			baseline: "a",
+			candidate: "b",
+			runs: { baseline: 5, candidate: 5 },
+			passRate: { baseline: 0.2, candidate: 1, significant: true },
+		});
+		expect(overall.passRate.diff).toBeCloseTo(0.8);
+		expect(overall.passRate.pValue).toBeCloseTo(0.04762, 4);
+		expect(overall.score).toBeUndefined();
+
+		expect(quality.score?.baseline).toBeCloseTo(0.34);
+		expect(quality.score?.candidate).toBeCloseTo(0.8);
+		// One baseline outlier keeps the rank test from significance (p ≈ 0.074)
+		expect(quality.score?.pValue).toBeCloseTo(0.074, 2);
+		expect(quality.score?.significant).toBe(false);
+		expect(quality.score?.ci[0]).toBeGreaterThan(0);
+	});
+
+	test("skips prompts without runs", () => {
+		expect(comparePrompts(results, ["a", "missing"])).toEqual([]);
+	});
+});
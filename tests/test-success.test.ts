@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { TestSuccessScorer } from "../src/scorers/code";
+import { detectTestReport, parseJestJson } from "../src/scorers/test-report";
+import type {
+	ExecCommandOptions,
+	ScorerContext,
+	ScorerResult,
+} from "../src/types";
+
+const VITEST_JSON = JSON.stringify({
+	numTotalTests: 3,
+	testResults: [
+		{
+			name: "/repo/test/math.test.ts",
+			assertionResults: [
+				{ fullName: "math adds", title: "adds", status: "passed", duration: 4 },
+				{
+					fullName: "math divides",
+					title: "divides",
+					status: "failed",
+					duration: 7,
+					failureMessages: [
+						"\nAssertionError: expected 2 to be 1\n    at x.ts:3",
+					],
+				},
+				{ fullName: "math rounds", title: "rounds", status: "pending" },
+			],
+		},
+	],
+});
+
+function context(run: ScorerResult): ScorerContext & {
+	calls: ExecCommandOptions[];
+} {
+	const calls: ExecCommandOptions[] = [];
+	return {
+		calls,
+		workingDir: "/tmp",
+		diff: "",
+		agentOutput: "[]",
+		promptId: "p1",
+		prompt: "fix math",
+		execCommand: async (options) => {
+			calls.push(options);
+			return run;
+		},
+	};
+}
+
+describe("parseJestJson", () => {
+	it("reads assertion results after npm's banner", () => {
+		const output = `\n> app@1.0.0 test\n> vitest run --reporter=json\n\n${VITEST_JSON}\n`;
+		expect(parseJestJson(output)).toEqual([
+			{
+				name: "math adds",
+				suite: "/repo/test/math.test.ts",
+				status: "passed",
+				duration: 4,
+			},
+			{
+				name: "math divides",
+				suite: "/repo/test/math.test.ts",
+				status: "failed",
+				duration: 7,
+				message: "AssertionError: expected 2 to be 1",
+			},
+			{
+				name: "math rounds",
+				suite: "/repo/test/math.test.ts",
+				status: "skipped",
+			},
+		]);
+	});
+
+	it("returns no cases for other output", () => {
+		expect(parseJestJson('{"score":1}')).toEqual([]);
+		expect(parseJestJson("✓ 3 tests passed")).toEqual([]);
+	});
+});
+
+describe("detectTestReport", () => {
+	it("recognizes JSON, JUnit and TAP output", () => {
+		expect(detectTestReport(VITEST_JSON)).toHaveLength(3);
+		expect(
+			detectTestReport('<testsuite><testcase name="a"/></testsuite>'),
+		).toEqual([{ name: "a", status: "passed" }]);
+		expect(detectTestReport("ok 1 - a\nnot ok 2 - b\n1..2")).toHaveLength(2);
+		expect(detectTestReport("Tests passed")).toEqual([]);
+	});
+
+	it("takes TAP only with a version or plan line", () => {
+		expect(detectTestReport("TAP version 13\nok 1 - a")).toHaveLength(1);
+		expect(detectTestReport("ok compiled\nok bundled in 2s")).toEqual([]);
+	});
+});
+
+describe("TestSuccessScorer", () => {
+	it("scores the fraction of passing tests from the reporter output", async () => {
+		const ctx = context({
+			score: 0,
+			reason: "npm run test failed: exit 1",
+			metadata: { stdout: VITEST_JSON, stderr: "" },
+		});
+		const result = await new TestSuccessScorer().evaluate(ctx);
+
+		expect(ctx.calls[0]).toMatchObject({
+			command: "npm",
+			args: ["run", "test"],
+			includeOutput: true,
+		});
+		expect(result.score).toBe(0.5);
+		expect(result.reason).toBe("Tests: 1/2 test(s) passed, 1 skipped");
+		expect(result.metadata).toEqual({
+			passed: 1,
+			failed: 1,
+			skipped: 1,
+			failures: [
+				{
+					name: "math divides",
+					duration: 7,
+					message: "AssertionError: expected 2 to be 1",
+				},
+			],
+		});
+	});
+
+	it("leaves the verdict to the exit code when every test was skipped", async () => {
+		const result = await new TestSuccessScorer().evaluate(
+			context({
+				score: 1,
+				reason: "Tests passed",
+				metadata: {
+					stdout: "1..2\nok 1 - a # SKIP\nok 2 - b # SKIP\n",
+					stderr: "",
+				},
+			}),
+		);
+		expect(result).toEqual({
+			score: 1,
+			reason: "Tests: no tests ran, 2 skipped",
+			metadata: { passed: 0, failed: 0, skipped: 2, failures: [] },
+		});
+	});
+
+	it("falls back to the exit code when no report is found", async () => {
+		const result = await new TestSuccessScorer().evaluate(
+			context({
+				score: 1,
+				reason: "Tests passed",
+				metadata: { stdout: "all good", stderr: "" },
+			}),
+		);
+		expect(result).toEqual({ score: 1, reason: "Tests passed" });
+	});
+
+	it("keeps a failing exit code when no test case failed", async () => {
+		const result = await new TestSuccessScorer().evaluate(
+			context({
+				score: 0,
+				reason: "npm run test failed: coverage below 80%",
+				metadata: { stdout: "1..1\nok 1 - a\n", stderr: "" },
+			}),
+		);
+		expect(result).toEqual({
+			score: 0,
+			reason: "npm run test failed: coverage below 80%",
+		});
+	});
+});
@@ -0,0 +1,250 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "diff --git a/x b/x" }),
+}));
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+	query: vi.fn(),
+}));
+
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { ClaudeCodeAgent, sdkTokenUsage } from "../src/agents/claude-code";
+import { loadEvalFile } from "../src/eval-config-loader";
+import { runClaudeCodeEval } from "../src/runner";
+import type {
+	AgentAdapter,
+	AgentRunContext,
+	Scorer,
+	ScorerContext,
+	TurnContext,
+} from "../src/types";
+
+/** Replies "reply to <prompt>" each turn, tagging messages with one session id. */
+function echoAgent(seen: AgentRunContext[]): AgentAdapter {
+	return {
+		id: "echo",
+		async *run(context) {
+			seen.push(context);
+			yield {
+				type: "assistant",
+				session_id: "s1",
+				message: {
+					content: [{ type: "text", text: `reply to ${context.prompt}` }],
+				},
+			};
+			yield {
+				type: "result",
+				subtype: "success",
+				session_id: "s1",
+				usage: { input_tokens: 10, output_tokens: 5 },
+			};
+		},
+		tokenUsage: sdkTokenUsage,
+	};
+}
+
+function recordingScorer(name: string, seen: ScorerContext[]): Scorer {
+	return {
+		name,
+		evaluate: async (ctx) => {
+			seen.push(ctx);
+			return { score: 1, reason: "ok" };
+		},
+	};
+}
+
+describe("multi-turn prompts", () => {
+	it("sends follow-ups in order with the session's earlier messages", async () => {
+		const seen: AgentRunContext[] = [];
+		const followUpContexts: TurnContext[] = [];
+
+		const result = await runClaudeCodeEval({
+			name: "turns",
+			projectDir: ".",
+			installDependencies: false,
+			agent: echoAgent(seen),
+			prompts: [
+				{
+					id: "v1",
+					prompt: "add a feature",
+					turns: [
+						{ prompt: "now add tests" },
+						{
+							prompt: (ctx) => {
+								followUpContexts.push(ctx);
+								return `fix what you said: ${ctx.previousOutput}`;
+							},
+						},
+					],
+				},
+			],
+		});
+
+		expect(seen.map((c) => [c.turn, c.prompt, c.history.length])).toEqual([
+			[0, "add a feature", 0],
+			[1, "now add tests", 2],
+			[2, "fix what you said: reply to now add tests", 4],
+		]);
+
+		expect(followUpContexts[0]).toMatchObject({
+			turn: 2,
+			promptId: "v1",
+			previousOutput: "reply to now add tests",
+			diff: "diff --git a/x b/x",
+		});
+		expect(JSON.parse(followUpContexts[0].agentOutput)).toHaveLength(4);
+
+		const [iteration] = result.iterations;
+		expect(JSON.parse(iteration.agentOutput)).toHaveLength(6);
+		// Each turn reports its own usage; the iteration total sums them.
+		expect(iteration.tokenUsage).toMatchObject({
+			inputTokens: 30,
+			outputTokens: 15,
+		});
+	});
+
+	it("runs turn scorers after their turn and final scorers at the end", async () => {
+		const turnSeen: ScorerContext[] = [];
+		const finalSeen: ScorerContext[] = [];
+
+		const result = await runClaudeCodeEval({
+			name: "turns",
+			projectDir: ".",
+			installDependencies: false,
+			agent: echoAgent([]),
+			prompts: [
+				{
+					id: "v1",
+					prompt: "add a feature",
+					turnScorers: [recordingScorer("build", turnSeen)],
+					turns: [
+						{
+							prompt: "now add tests",
+							scorers: [recordingScorer("build", turnSeen)],
+						},
+						{ prompt: "fix the lint errors" },
+					],
+				},
+			],
+			scorers: [recordingScorer("build", finalSeen)],
+		});
+
+		const { scores } = result.iterations[0];
+		expect(Object.keys(scores).sort()).toEqual([
+			"build",
+			"turn0:build",
+			"turn1:build",
+		]);
+		expect(turnSeen[0]).toMatchObject({ turn: 0, prompt: "add a feature" });
+		expect(JSON.parse(turnSeen[0].agentOutput)).toHaveLength(2);
+		expect(turnSeen[1]).toMatchObject({ turn: 1, prompt: "now add tests" });
+		expect(JSON.parse(turnSeen[1].agentOutput)).toHaveLength(4);
+		expect(finalSeen[0]).toMatchObject({ turn: 2, prompt: "add a feature" });
+		expect(result.aggregateScores["turn1:build"].passRate).toBe(1);
+	});
+
+	it("fails the iteration when an intermediate turn scorer fails", async () => {
+		const result = await runClaudeCodeEval({
+			name: "turns",
+			projectDir: ".",
+			installDependencies: false,
+			agent: echoAgent([]),
+			prompts: [
+				{
+					id: "v1",
+					prompt: "add a feature",
+					turns: [
+						{
+							prompt: "now add tests",
+							scorers: [
+								{
+									name: "tests-pass",
+									evaluate: async () => ({ score: 0, reason: "red" }),
+								},
+							],
+						},
+					],
+				},
+			],
+		});
+
+		expect(result.iterations[0].success).toBe(false);
+	});
+});
+
+describe("ClaudeCodeAgent follow-up turns", () => {
+	it("resumes the session the earlier turns ran in", async () => {
+		vi.mocked(query).mockReturnValue((async function* () {})() as never);
+		const agent = new ClaudeCodeAgent();
+		const context: AgentRunContext = {
+			prompt: "now add tests",
+			cwd: "/tmp/x",
+			signal: new AbortController().signal,
+			environmentVariables: {},
+			iteration: 0,
+			turn: 1,
+			history: [
+				{ type: "system", session_id: "s0" },
+				{ type: "result", session_id: "s1" },
+			],
+		};
+
+		for await (const _ of agent.run(context)) {
+			// drain
+		}
+		expect(vi.mocked(query).mock.calls[0][0].options?.resume).toBe("s1");
+
+		for await (const _ of agent.run({ ...context, turn: 0, history: [] })) {
+			// drain
+		}
+		expect(vi.mocked(query).mock.calls[1][0].options).not.toHaveProperty(
+			"resume",
+		);
+	});
+});
+
+describe("loadEvalFile: JSON turns", () => {
+	it("compiles turn scorer specs", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "turns-"));
+		try {
+			const f = path.join(dir, "eval.json");
+			fs.writeFileSync(
+				f,
+				JSON.stringify({
+					name: "x",
+					projectDir: ".",
+					prompts: [
+						{
+							id: "v1",
+							prompt: "add a feature",
+							turnScorers: [{ type: "build" }],
+							turns: [{ prompt: "now add tests", scorers: [{ type: "test" }] }],
+						},
+					],
+				}),
+			);
+			const config = await loadEvalFile(f);
+			const [turn] = config.prompts[0].turns ?? [];
+			expect(turn.prompt).toBe("now add tests");
+			expect(turn.scorers?.[0].name).toBe("test");
+			expect(typeof turn.scorers?.[0].evaluate).toBe("function");
+			expect(config.prompts[0].turnScorers?.[0].name).toBe("build");
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
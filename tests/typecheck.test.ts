@@ -0,0 +1,137 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildExecCommand } from "../src/scorers/factories";
+import { compileScorer } from "../src/scorers/registry";
+import { parseTscOutput, TypecheckScorer } from "../src/scorers/typecheck";
+import type { ScorerContext } from "../src/types";
+
+let dir: string;
+
+const context = (): ScorerContext => ({
+	workingDir: dir,
+	diff: "",
+	agentOutput: "[]",
+	promptId: "p1",
+	prompt: "add b",
+	execCommand: buildExecCommand(dir),
+});
+
+beforeEach(async () => {
+	vi.stubEnv("GIT_AUTHOR_NAME", "test");
+	vi.stubEnv("GIT_AUTHOR_EMAIL", "test@example.com");
+	vi.stubEnv("GIT_COMMITTER_NAME", "test");
+	vi.stubEnv("GIT_COMMITTER_EMAIL", "test@example.com");
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "typecheck-"));
+	// Borrow this repo's typescript; the scorer links node_modules into the pristine copy
+	fs.symlinkSync(
+		path.resolve("node_modules"),
+		path.join(dir, "node_modules"),
+		"dir",
+	);
+	fs.writeFileSync(path.join(dir, ".gitignore"), "node_modules\n");
+	fs.writeFileSync(
+		path.join(dir, "tsconfig.check.json"),
+		JSON.stringify({
+			compilerOptions: { strict: true, noEmit: true, types: [] },
+			include: ["*.ts"],
+		}),
+	);
+	fs.writeFileSync(path.join(dir, "a.ts"), 'export const a: number = "one";\n');
+	await execa("git", ["init", "-q"], { cwd: dir });
+	await execa("git", ["add", "."], { cwd: dir });
+	await execa("git", ["commit", "-qm", "init"], { cwd: dir });
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseTscOutput", () => {
+	it("reads file and global diagnostics, skipping continuation lines", () => {
+		const output = [
+			"src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+			"src/b.ts(10,1): error TS2345: Argument of type 'X' is not assignable to parameter of type 'Y'.",
+			"  Property 'y' is missing in type 'X'.",
+			"error TS5083: Cannot read file 'tsconfig.base.json'.",
+		].join("\n");
+		expect(parseTscOutput(output, dir)).toEqual([
+			{
+				file: "src/a.ts",
+				line: 3,
+				rule: "TS2322",
+				severity: "error",
+				message: "Type 'string' is not assignable to type 'number'.",
+			},
+			{
+				file: "src/b.ts",
+				line: 10,
+				rule: "TS2345",
+				severity: "error",
+				message:
+					"Argument of type 'X' is not assignable to parameter of type 'Y'.",
+			},
+			{
+				file: "",
+				rule: "TS5083",
+				severity: "error",
+				message: "Cannot read file 'tsconfig.base.json'.",
+			},
+		]);
+	});
+});
+
+describe("TypecheckScorer", () => {
+	it("reports only the errors the change introduced, by file", async () => {
+		fs.writeFileSync(
+			path.join(dir, "a.ts"),
+			'// moved\nexport const a: number = "one";\n',
+		);
+		fs.writeFileSync(
+			path.join(dir, "b.ts"),
+			"export const b: string = 2;\nexport const c: boolean = 3;\n",
+		);
+		const scorer = compileScorer({
+			type: "typecheck",
+			project: "tsconfig.check.json",
+		});
+
+		const result = await scorer.evaluate(context());
+		expect(scorer.name).toBe("typecheck");
+		expect(result.score).toBe(0);
+		expect(result.reason).toBe("2 new type error(s) in b.ts (2)");
+		expect(result.metadata).toMatchObject({
+			baseline: 1,
+			current: 3,
+			files: { "b.ts": 2 },
+		});
+		const added = result.metadata?.new as { line: number }[];
+		expect(added.map((d) => d.line)).toEqual([1, 2]);
+	}, 60000);
+
+	it("passes when the pre-existing errors are all that's left", async () => {
+		fs.writeFileSync(path.join(dir, "b.ts"), "export const b = 2;\n");
+		const result = await new TypecheckScorer({
+			project: "tsconfig.check.json",
+		}).evaluate(context());
+		expect(result).toMatchObject({
+			score: 1,
+			reason: "No new type errors (1 in baseline)",
+		});
+	}, 60000);
+
+	it("fails when the compiler doesn't run", async () => {
+		const result = await new TypecheckScorer({
+			command: "node",
+			args: ["-e", "console.error('tsc: not found'); process.exit(127)"],
+		}).evaluate(context());
+		expect(result).toEqual({
+			score: 0,
+			reason:
+				"node -e console.error('tsc: not found'); process.exit(127) failed without type errors: tsc: not found",
+		});
+	});
+});
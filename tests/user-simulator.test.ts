@@ -0,0 +1,347 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Keep the iteration off the real filesystem / git.
+vi.mock("fs-extra", () => ({
+	default: {
+		copy: vi.fn().mockResolvedValue(undefined),
+		pathExists: vi.fn().mockResolvedValue(true), // .git present -> skip git init
+		writeFile: vi.fn().mockResolvedValue(undefined),
+		remove: vi.fn().mockResolvedValue(undefined),
+	},
+}));
+
+vi.mock("execa", () => ({
+	execa: vi.fn().mockResolvedValue({ stdout: "" }),
+}));
+
+// Mock the SDK. The persona's reply is driven per-test via `queueReply`.
+const { query } = vi.hoisted(() => ({ query: vi.fn() }));
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({ query }));
+
+import { runClaudeCodeEval } from "../src/runner";
+import { QuestionsAskedScorer } from "../src/scorers/agent";
+import { ClarifyingQuestions } from "../src/scorers/classifiers";
+import { LLMClassifierScorer } from "../src/scorers/llm-classifier";
+import { compileScorer } from "../src/scorers/registry";
+import type {
+	AgentAdapter,
+	AgentRunContext,
+	ScorerContext,
+	SimulatedUserMessage,
+} from "../src/types";
+import { extractQuestions, UserSimulator } from "../src/user-simulator";
+
+function queueReply(result: string) {
+	query.mockImplementation(() =>
+		(async function* () {
+			yield { type: "result", subtype: "success", result };
+		})(),
+	);
+}
+
+/** Asks `question` until it has been answered `asks` times, then finishes. */
+function askingAgent(
+	question: string,
+	seen: AgentRunContext[],
+	asks = 1,
+): AgentAdapter {
+	return {
+		id: "asker",
+		async *run(context) {
+			seen.push(context);
+			const answered = context.history.filter(
+				(m) => m.type === "simulated_user",
+			).length;
+			const text = answered < asks ? question : "Done.";
+			yield {
+				type: "assistant",
+				message: { content: [{ type: "text", text }] },
+			};
+			yield { type: "result", subtype: "success" };
+		},
+		tokenUsage: () => undefined,
+	};
+}
+
+beforeEach(() => {
+	query.mockReset();
+});
+
+describe("extractQuestions", () => {
+	it("keeps sentences ending in ? and drops list markers", () => {
+		expect(
+			extractQuestions(
+				"I looked at the router. Two things:\n1. Which port should it use?\n- Should it log requests? Thanks.",
+			),
+		).toEqual(["Which port should it use?", "Should it log requests?"]);
+	});
+
+	it("ignores ? inside fenced code", () => {
+		expect(
+			extractQuestions("Done:\n```ts\nconst x = a ? b : c;\n```\nAll set."),
+		).toEqual([]);
+	});
+});
+
+describe("UserSimulator", () => {
+	it("answers matching questions from rules, the rest from the fallback", async () => {
+		const simulator = new UserSimulator({
+			rules: [{ match: "port", reply: "Use port 8080." }],
+			fallback: "Up to you.",
+		});
+		expect(await simulator.answer("task", ["Which PORT?"])).toBe(
+			"Use port 8080.",
+		);
+		expect(
+			await simulator.answer("task", ["Which port?", "Which database?"]),
+		).toBe("Use port 8080.\nUp to you.");
+		expect(query).not.toHaveBeenCalled();
+	});
+
+	it("asks the LLM persona about questions no rule matched", async () => {
+		queueReply("Postgres, please.");
+		const simulator = new UserSimulator({
+			persona: { instructions: "You are a backend lead.", model: "m" },
+		});
+
+		expect(await simulator.answer("add storage", ["Which database?"])).toBe(
+			"Postgres, please.",
+		);
+		const [{ prompt, options }] = query.mock.calls[0];
+		expect(prompt).toContain("add storage");
+		expect(prompt).toContain("- Which database?");
+		expect(options).toMatchObject({
+			systemPrompt: "You are a backend lead.",
+			maxTurns: 1,
+			allowedTools: [],
+			model: "m",
+		});
+	});
+
+	it("rejects an invalid rule regex up front", () => {
+		expect(
+			() => new UserSimulator({ rules: [{ match: "(", reply: "x" }] }),
+		).toThrow("Invalid userSimulator.rules[0].match");
+	});
+});
+
+describe("runClaudeCodeEval with a user simulator", () => {
+	it("answers the agent's questions in the same turn and records the exchange", async () => {
+		const seen: AgentRunContext[] = [];
+		let ctx: ScorerContext | undefined;
+
+		const result = await runClaudeCodeEval({
+			name: "clarify",
+			prompts: [{ id: "v1", prompt: "add a server" }],
+			projectDir: ".",
+			installDependencies: false,
+			agent: askingAgent("Which port should it listen on?", seen),
+			userSimulator: { rules: [{ match: "port", reply: "8080" }] },
+			scorers: [
+				new QuestionsAskedScorer({ max: 2 }),
+				{
+					name: "capture",
+					evaluate: async (c) => {
+						ctx = c;
+						return { score: 1, reason: "ok" };
+					},
+				},
+			],
+		});
+
+		expect(seen.map((c) => [c.turn, c.prompt, c.allowQuestions])).toEqual([
+			[0, "add a server", true],
+			[0, "8080", true],
+		]);
+		const exchange = JSON.parse(ctx?.agentOutput ?? "[]").find(
+			(m: SimulatedUserMessage) => m.type === "simulated_user",
+		);
+		expect(exchange).toEqual({
+			type: "simulated_user",
+			turn: 0,
+			questions: ["Which port should it listen on?"],
+			answer: "8080",
+		});
+		expect(result.iterations[0].scores["questions-asked"]).toMatchObject({
+			score: 1,
+			metadata: { count: 1 },
+		});
+	});
+
+	it("asks the persona about the current turn and counts its spend", async () => {
+		query.mockImplementation(() =>
+			(async function* () {
+				yield {
+					type: "result",
+					subtype: "success",
+					result: "Log to stderr.",
+					usage: { input_tokens: 10, output_tokens: 5 },
+					total_cost_usd: 0.01,
+				};
+			})(),
+		);
+		const seen: AgentRunContext[] = [];
+		const result = await runClaudeCodeEval({
+			name: "clarify",
+			prompts: [
+				{
+					id: "v1",
+					prompt: "add a server",
+					turns: [{ prompt: "now add logging" }],
+				},
+			],
+			projectDir: ".",
+			installDependencies: false,
+			agent: {
+				id: "asker",
+				async *run(context) {
+					seen.push(context);
+					const text =
+						context.prompt === "now add logging" ? "Log where?" : "Done.";
+					yield {
+						type: "assistant",
+						message: { content: [{ type: "text", text }] },
+					};
+					yield { type: "result", subtype: "success" };
+				},
+				// No reported cost: priced from `pricing` by the agent's model
+				tokenUsage: (message) =>
+					message.type === "result"
+						? { inputTokens: 100, outputTokens: 50, model: "sonnet" }
+						: undefined,
+			},
+			userSimulator: { persona: { instructions: "You are a backend lead." } },
+			pricing: { sonnet: { input: 3, output: 15 } },
+		});
+
+		expect(seen.map((c) => c.prompt)).toEqual([
+			"add a server",
+			"now add logging",
+			"Log to stderr.",
+		]);
+		const [{ prompt, options }] = query.mock.calls[0];
+		expect(prompt).toContain("now add logging");
+		expect(prompt).not.toContain("add a server");
+		expect(options.abortController).toBeInstanceOf(AbortController);
+		// The persona's usage stays apart, so the agent keeps its model and cost
+		const [iteration] = result.iterations;
+		expect(iteration.tokenUsage).toMatchObject({
+			inputTokens: 300,
+			outputTokens: 150,
+			model: "sonnet",
+		});
+		expect(iteration.userSimulatorUsage).toMatchObject({
+			inputTokens: 10,
+			outputTokens: 5,
+			costUsd: 0.01,
+		});
+		// 300 × $3 + 150 × $15 per million, plus the persona's reported $0.01
+		expect(iteration.costUsd).toBeCloseTo(0.00315 + 0.01, 10);
+	});
+
+	it("leaves questions the agent asked mid-turn unanswered", async () => {
+		const seen: AgentRunContext[] = [];
+		let output = "";
+		await runClaudeCodeEval({
+			name: "clarify",
+			prompts: [{ id: "v1", prompt: "add a server" }],
+			projectDir: ".",
+			installDependencies: false,
+			agent: {
+				id: "narrator",
+				async *run(context) {
+					seen.push(context);
+					for (const text of ["Should I check the config first?", "Done."]) {
+						yield {
+							type: "assistant",
+							message: { content: [{ type: "text", text }] },
+						};
+					}
+					yield { type: "result", subtype: "success", result: "Done." };
+				},
+				tokenUsage: () => undefined,
+			},
+			userSimulator: { rules: [{ match: ".", reply: "yes" }] },
+			scorers: [
+				{
+					name: "capture",
+					evaluate: async (c) => {
+						output = c.agentOutput;
+						return { score: 1, reason: "ok" };
+					},
+				},
+			],
+		});
+		expect(seen).toHaveLength(1);
+		expect(output).not.toContain("simulated_user");
+	});
+
+	it("stops answering after maxExchanges", async () => {
+		const seen: AgentRunContext[] = [];
+		await runClaudeCodeEval({
+			name: "clarify",
+			prompts: [{ id: "v1", prompt: "add a server" }],
+			projectDir: ".",
+			installDependencies: false,
+			agent: askingAgent("Which port?", seen, 10),
+			userSimulator: { maxExchanges: 2 },
+		});
+		expect(seen).toHaveLength(3);
+	});
+
+	it("leaves agents in automation mode without a simulator", async () => {
+		const seen: AgentRunContext[] = [];
+		const result = await runClaudeCodeEval({
+			name: "clarify",
+			prompts: [{ id: "v1", prompt: "add a server" }],
+			projectDir: ".",
+			installDependencies: false,
+			agent: askingAgent("Which port?", seen),
+			scorers: [new QuestionsAskedScorer()],
+		});
+		expect(seen).toHaveLength(1);
+		expect(seen[0].allowQuestions).toBe(false);
+		expect(result.iterations[0].scores["questions-asked"].score).toBe(0);
+	});
+});
+
+describe("question scorers", () => {
+	const exchanges: SimulatedUserMessage[] = [
+		{ type: "simulated_user", turn: 0, questions: ["A?", "B?"], answer: "x" },
+		{ type: "simulated_user", turn: 0, questions: ["C?"], answer: "y" },
+	];
+	const context = {
+		prompt: "add a server",
+		diff: "",
+		agentOutput: JSON.stringify(exchanges),
+	} as ScorerContext;
+
+	it("questions-asked compiles from a JSON spec and enforces max", async () => {
+		const scorer = compileScorer({
+			type: "questions-asked",
+			name: "few-questions",
+			max: 2,
+		});
+		expect(scorer.name).toBe("few-questions");
+		const result = await scorer.evaluate(context);
+		expect(result).toMatchObject({ score: 0, metadata: { count: 3 } });
+		expect(result.reason).toBe("Asked 3 question(s) (expected 1..2)");
+	});
+
+	it("the clarifying-questions judge sees the exchanges", async () => {
+		query.mockImplementation(() =>
+			(async function* () {
+				yield {
+					type: "result",
+					subtype: "success",
+					structured_output: { choice: "A", reasoning: "ok" },
+				};
+			})(),
+		);
+		const result = await new LLMClassifierScorer(ClarifyingQuestions).evaluate(
+			context,
+		);
+		expect(result.score).toBe(1);
+		expect(query.mock.calls[0][0].prompt).toContain("Q: A?\nQ: B?\nA: x");
+	});
+});